@@ -26,6 +26,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={CourseSelectionPage} />
+      <Route path="/learning/:level/lessons/:lessonId" component={LearningPage} />
+      <Route path="/learning/:level/tags/:tag" component={LearningPage} />
       <Route path="/learning/:level?" component={LearningPage} />
       <Route path="/cards/:level">
         {(params) => <CardBrowser level={parseInt(params.level, 10)} />}
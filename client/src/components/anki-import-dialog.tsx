@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCourses } from "@/hooks/use-courses";
+import { CourseSelect } from "@/components/course-select";
+import { UploadDiffView, countCardsToCreate } from "@/components/upload-diff-view";
+import { AnkiFieldMapping, AnkiModelSummary, MergeStrategy, UploadDiff } from "@shared/schema";
+
+interface AnkiImportDialogProps {
+  file: File | null;
+  defaultLevel: number;
+  onImported: (batchId: number) => void;
+  onClose: () => void;
+}
+
+type MappingKey = keyof AnkiFieldMapping;
+
+const NOT_MAPPED = "__none__";
+
+const mappingFields: { key: MappingKey; label: string; required?: boolean; guesses: string[] }[] = [
+  { key: "thai", label: "泰语单词", required: true, guesses: ["thai", "front", "word"] },
+  { key: "chinese", label: "中文翻译", required: true, guesses: ["chinese", "back", "meaning"] },
+  { key: "pronunciation", label: "发音标注", guesses: ["pronunciation", "reading", "romanization"] },
+  { key: "example", label: "泰语例句", guesses: ["example", "sentence"] },
+  { key: "example_translation", label: "例句中文翻译", guesses: ["exampletranslation", "example_translation", "sentencetranslation"] },
+  { key: "word_audio", label: "单词音频", guesses: ["wordaudio", "audio", "sound"] },
+  { key: "example_audio", label: "例句音频", guesses: ["exampleaudio", "sentenceaudio"] },
+];
+
+// Pre-fill the mapping from field names, falling back to the first two fields for the required ones
+function guessMapping(model: AnkiModelSummary): Partial<AnkiFieldMapping> {
+  const mapping: Partial<AnkiFieldMapping> = {};
+  for (const { key, guesses } of mappingFields) {
+    const match = model.fields.find(field => guesses.includes(field.toLowerCase().replace(/\s+/g, "")));
+    if (match) mapping[key] = match;
+  }
+  mapping.thai ??= model.fields[0];
+  mapping.chinese ??= model.fields[1];
+  return mapping;
+}
+
+async function postPackage(url: string, file: File, options?: object) {
+  const formData = new FormData();
+  formData.append("file", file, file.name);
+  if (options) formData.append("options", JSON.stringify(options));
+
+  const response = await fetch(url, { method: "POST", body: formData, credentials: "include" });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || `${response.status}`);
+  }
+  return body;
+}
+
+// Field-mapping step for .apkg uploads: pick a note type and which Anki field feeds each card field
+export function AnkiImportDialog({ file, defaultLevel, onImported, onClose }: AnkiImportDialogProps) {
+  const { toast } = useToast();
+  const { courseTitle } = useCourses();
+  const [models, setModels] = useState<AnkiModelSummary[]>([]);
+  const [modelId, setModelId] = useState<string>("");
+  const [mapping, setMapping] = useState<Partial<AnkiFieldMapping>>({});
+  const [level, setLevel] = useState(defaultLevel);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [diff, setDiff] = useState<UploadDiff | null>(null);
+  const [strategy, setStrategy] = useState<MergeStrategy>("skip");
+
+  const model = models.find(candidate => candidate.id === modelId);
+
+  // A different note type, mapping or course changes which cards match, so the dry run is repeated
+  useEffect(() => {
+    setDiff(null);
+  }, [file, modelId, level, JSON.stringify(mapping)]);
+
+  // Read the package's note types whenever a new file is chosen
+  useEffect(() => {
+    if (!file) return;
+    setModels([]);
+    setLevel(defaultLevel);
+    setIsLoading(true);
+    postPackage("/api/anki/preview", file)
+      .then(({ models }: { models: AnkiModelSummary[] }) => {
+        setModels(models);
+        if (models.length > 0) {
+          setModelId(models[0].id);
+          setMapping(guessMapping(models[0]));
+        }
+      })
+      .catch(error => {
+        toast({
+          title: "无法读取Anki文件",
+          description: error.message,
+          variant: "destructive",
+        });
+        onClose();
+      })
+      .finally(() => setIsLoading(false));
+  }, [file]);
+
+  const handleModelChange = (id: string) => {
+    setModelId(id);
+    const selected = models.find(candidate => candidate.id === id);
+    if (selected) setMapping(guessMapping(selected));
+  };
+
+  // The first click runs a dry run to show duplicates and changes; the second commits with the chosen strategy
+  const handleImport = async () => {
+    if (!file || !model || !mapping.thai || !mapping.chinese) return;
+
+    try {
+      setIsImporting(true);
+      const options = { modelId, level, mapping };
+      if (!diff) {
+        const result = await postPackage("/api/anki/import?dryRun=true", file, options);
+        setDiff(result.diff);
+        return;
+      }
+
+      const result = await postPackage(`/api/anki/import?strategy=${strategy}`, file, options);
+
+      onImported(result.batchId);
+      toast({
+        title: "导入成功",
+        description: `已从Anki导入 ${result.count} 张新卡片到${courseTitle(level)}，更新 ${result.updated} 张，跳过 ${result.skipped} 张`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Anki import failed:", error);
+      toast({
+        title: "导入失败",
+        description: error instanceof Error ? error.message : "请检查字段对应关系后重试",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>导入Anki牌组</DialogTitle>
+          <DialogDescription>选择每个卡片字段对应的Anki字段。</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !model ? (
+          <p className="text-sm text-gray-600">正在读取牌组...</p>
+        ) : (
+          <div className="space-y-4">
+            {models.length > 1 && (
+              <div className="space-y-2">
+                <Label>笔记类型</Label>
+                <Select value={modelId} onValueChange={handleModelChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {models.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.name} ({candidate.noteCount})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {mappingFields.map(({ key, label, required }) => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <Label className="w-28 shrink-0">{label}{required && " *"}</Label>
+                <Select
+                  value={mapping[key] ?? NOT_MAPPED}
+                  onValueChange={(value) => setMapping({ ...mapping, [key]: value === NOT_MAPPED ? undefined : value })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!required && <SelectItem value={NOT_MAPPED}>不导入</SelectItem>}
+                    {model.fields.map((field, index) => (
+                      <SelectItem key={field} value={field}>
+                        {field}{model.samples[0]?.[index] ? ` — ${model.samples[0][index].slice(0, 20)}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between gap-4">
+              <Label className="w-28 shrink-0">课程级别</Label>
+              <CourseSelect value={level} onChange={setLevel} />
+            </div>
+
+            {diff && <UploadDiffView diff={diff} strategy={strategy} onStrategyChange={setStrategy} />}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            取消
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || !model || !mapping.thai || !mapping.chinese}>
+            {isImporting
+              ? "导入中..."
+              : diff
+                ? `确认导入 (${countCardsToCreate(diff, strategy)} 张新卡片)`
+                : `检查 ${model?.noteCount ?? 0} 条笔记`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CourseSelect } from "@/components/course-select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { partOfSpeechLabels, parseTagInput } from "@/lib/card-metadata";
+import { Card as CardType, PartOfSpeech, UpdateCard, partsOfSpeech } from "@shared/schema";
+
+interface CardEditDialogProps {
+  card: CardType | null;
+  onClose: () => void;
+}
+
+// Select items cannot have an empty value, so "no part of speech" gets its own key
+const NO_POS = "none";
+
+type EditableField = "thai" | "chinese" | "pronunciation" | "example" | "example_translation";
+
+const fields: { key: EditableField; label: string; multiline?: boolean }[] = [
+  { key: "thai", label: "泰语单词" },
+  { key: "chinese", label: "中文翻译" },
+  { key: "pronunciation", label: "发音标注" },
+  { key: "example", label: "泰语例句", multiline: true },
+  { key: "example_translation", label: "例句中文翻译", multiline: true },
+];
+
+export function CardEditDialog({ card, onClose }: CardEditDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<Record<EditableField, string>>({
+    thai: "", chinese: "", pronunciation: "", example: "", example_translation: "",
+  });
+  const [level, setLevel] = useState(1);
+  const [partOfSpeech, setPartOfSpeech] = useState<PartOfSpeech | null>(null);
+  const [tagInput, setTagInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever a different card is opened
+  useEffect(() => {
+    if (card) {
+      setForm({
+        thai: card.thai,
+        chinese: card.chinese,
+        pronunciation: card.pronunciation,
+        example: card.example,
+        example_translation: card.example_translation,
+      });
+      setLevel(card.level);
+      setPartOfSpeech(card.part_of_speech);
+      setTagInput(card.tags.join(", "));
+    }
+  }, [card]);
+
+  const handleSave = async () => {
+    if (!card) return;
+
+    // Only send fields that actually changed
+    const changes: UpdateCard = {};
+    for (const { key } of fields) {
+      const value = form[key].trim();
+      if (value !== card[key]) changes[key] = value;
+    }
+    if (level !== card.level) changes.level = level;
+    if (partOfSpeech !== card.part_of_speech) changes.part_of_speech = partOfSpeech;
+    const tags = parseTagInput(tagInput);
+    if (tags.join(",") !== card.tags.join(",")) changes.tags = tags;
+
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    if (fields.some(({ key }) => !form[key].trim())) {
+      toast({
+        title: "请填写所有字段",
+        description: "卡片内容不能为空",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updated = await apiRequest(`/api/cards/${card.id}`, "PATCH", changes) as CardType;
+
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+
+      toast({
+        title: "保存成功",
+        description: updated.media_stale ? "卡片内容已更新，请重新生成音频和图片" : "卡片内容已更新",
+      });
+      onClose();
+    } catch (error) {
+      console.error("Card update failed:", error);
+      toast({
+        title: "保存失败",
+        description: "请检查输入内容后重试",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!card} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>编辑卡片</DialogTitle>
+          <DialogDescription>修改卡片文字后，已生成的音频和图片会被标记为需要重新生成。</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fields.map(({ key, label, multiline }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`edit-${key}`}>{label}</Label>
+              {multiline ? (
+                <Textarea
+                  id={`edit-${key}`}
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  rows={2}
+                />
+              ) : (
+                <Input
+                  id={`edit-${key}`}
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                />
+              )}
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label>课程级别</Label>
+            <CourseSelect value={level} onChange={setLevel} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>词性</Label>
+              <Select
+                value={partOfSpeech ?? NO_POS}
+                onValueChange={(value) => setPartOfSpeech(value === NO_POS ? null : value as PartOfSpeech)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_POS}>未设置</SelectItem>
+                  {partsOfSpeech.map(pos => (
+                    <SelectItem key={pos} value={pos}>{partOfSpeechLabels[pos]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-tags">标签</Label>
+              <Input
+                id="edit-tags"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="用逗号分隔，如：食物, 日常"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "保存中..." : "保存"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Edit, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCourses, coursesQueryKey } from "@/hooks/use-courses";
+import { apiRequest } from "@/lib/queryClient";
+import { courseColorClasses, courseColorLabels, courseIconComponents } from "@/lib/courses";
+import { Course, CourseColor, CourseIcon, InsertCourse, courseColors, courseIcons } from "@shared/schema";
+
+type CourseForm = Required<InsertCourse>;
+
+const emptyForm: CourseForm = { title: "", description: "", color: "blue", icon: "book-open", ordering: 0 };
+
+export function CourseManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { courses } = useCourses();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<CourseForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleEdit = (course: Course) => {
+    setEditingId(course.id);
+    setForm({
+      title: course.title,
+      description: course.description,
+      color: course.color,
+      icon: course.icon,
+      ordering: course.ordering,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast({
+        title: "请填写课程名称",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId === null) {
+        // New courses go to the end of the list
+        const ordering = courses.reduce((max, course) => Math.max(max, course.ordering), 0) + 1;
+        await apiRequest("/api/courses", "POST", { ...form, ordering });
+      } else {
+        await apiRequest(`/api/courses/${editingId}`, "PATCH", form);
+      }
+      queryClient.invalidateQueries({ queryKey: coursesQueryKey });
+      toast({
+        title: editingId === null ? "课程已创建" : "课程已更新",
+        description: form.title,
+      });
+      resetForm();
+    } catch (error) {
+      toast({
+        title: "保存失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (course: Course) => {
+    if (!confirm(`确定要删除课程"${course.title}"吗？`)) return;
+
+    try {
+      await apiRequest(`/api/courses/${course.id}`, "DELETE");
+      queryClient.invalidateQueries({ queryKey: coursesQueryKey });
+      if (editingId === course.id) resetForm();
+      toast({
+        title: "课程已删除",
+        description: course.title,
+      });
+    } catch (error) {
+      // 409: the course still has cards, which must be deleted or moved first
+      const hasCards = error instanceof Error && error.message.startsWith("409");
+      toast({
+        title: "删除失败",
+        description: hasCards ? "该课程中还有卡片，请先删除或移动这些卡片" : "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-8 shadow-lg">
+      <CardContent className="p-6">
+        <div className="flex items-center mb-6">
+          <Layers className="text-2xl text-green-500 mr-3" />
+          <h3 className="text-xl font-semibold text-gray-900">课程管理</h3>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          {courses.map(course => {
+            const Icon = courseIconComponents[course.icon];
+            const style = courseColorClasses[course.color];
+            return (
+              <div key={course.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className={`w-8 h-8 ${style.color} rounded-full flex items-center justify-center shrink-0`}>
+                    <Icon className="w-4 h-4 text-white" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800">{course.title}</p>
+                    <p className="text-xs text-gray-500 truncate">{course.description}</p>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(course)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(course)}>
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-4 border-t pt-6">
+          <h4 className="font-medium text-gray-900">{editingId === null ? "新建课程" : "编辑课程"}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-title">课程名称</Label>
+              <Input
+                id="course-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-description">课程简介</Label>
+              <Input
+                id="course-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>颜色</Label>
+              <Select value={form.color} onValueChange={(value) => setForm({ ...form, color: value as CourseColor })}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {courseColors.map(color => (
+                    <SelectItem key={color} value={color}>{courseColorLabels[color]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>图标</Label>
+              <Select value={form.icon} onValueChange={(value) => setForm({ ...form, icon: value as CourseIcon })}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {courseIcons.map(icon => {
+                    const Icon = courseIconComponents[icon];
+                    return (
+                      <SelectItem key={icon} value={icon}>
+                        <Icon className="w-4 h-4" />
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "保存中..." : editingId === null ? "创建课程" : "保存修改"}
+            </Button>
+            {editingId !== null && (
+              <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                取消
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
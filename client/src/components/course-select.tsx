@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCourses } from "@/hooks/use-courses";
+
+interface CourseSelectProps {
+  value: number;
+  onChange: (courseId: number) => void;
+  className?: string;
+}
+
+export function CourseSelect({ value, onChange, className = "w-full" }: CourseSelectProps) {
+  const { courses, courseTitle } = useCourses();
+
+  return (
+    <Select value={value.toString()} onValueChange={(id) => onChange(parseInt(id, 10))}>
+      <SelectTrigger className={className}>
+        <SelectValue>{courseTitle(value)}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {courses.map(course => (
+          <SelectItem key={course.id} value={course.id.toString()}>{course.title}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
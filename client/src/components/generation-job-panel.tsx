@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { RotateCcw, X, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { JobDetails } from "@shared/schema";
+
+interface GenerationJobPanelProps {
+  jobId: number;
+  onFinished: (job: JobDetails) => void;
+  onClose: () => void;
+}
+
+function isFinished(job: JobDetails) {
+  return (job.status === "completed" || job.status === "cancelled") && job.counts.running === 0;
+}
+
+// Live progress of a media generation job, streamed from /api/jobs/:id/events
+export function GenerationJobPanel({ jobId, onFinished, onClose }: GenerationJobPanelProps) {
+  const { toast } = useToast();
+  const [job, setJob] = useState<JobDetails | null>(null);
+  // Bumped after a retry so the stream reconnects for the re-queued items
+  const [streamKey, setStreamKey] = useState(0);
+
+  useEffect(() => {
+    const events = new EventSource(`/api/jobs/${jobId}/events`, { withCredentials: true });
+
+    events.onmessage = (event) => {
+      const details = JSON.parse(event.data) as JobDetails;
+      setJob(details);
+      if (isFinished(details)) {
+        // The server ends the stream; close so EventSource does not reconnect
+        events.close();
+        onFinished(details);
+      }
+    };
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        toast({
+          title: "进度连接中断",
+          description: "生成任务仍在后台进行",
+          variant: "destructive",
+        });
+      }
+    };
+
+    return () => events.close();
+  }, [jobId, streamKey]);
+
+  const handleCancel = async () => {
+    try {
+      setJob(await apiRequest(`/api/jobs/${jobId}/cancel`, "POST"));
+    } catch (error) {
+      toast({
+        title: "取消失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRetry = async () => {
+    try {
+      setJob(await apiRequest(`/api/jobs/${jobId}/retry`, "POST"));
+      setStreamKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: "重试失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!job) {
+    return (
+      <div className="mb-6 p-4 bg-blue-50 rounded-lg text-sm text-blue-700">
+        正在连接生成任务...
+      </div>
+    );
+  }
+
+  const done = job.counts.succeeded + job.counts.failed + job.counts.cancelled;
+  const percentage = job.total > 0 ? Math.round((done / job.total) * 100) : 0;
+  const finished = isFinished(job);
+  const failedItems = job.items.filter(item => item.status === "failed");
+
+  return (
+    <div className="mb-6 p-4 bg-blue-50 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-medium text-blue-800">
+          {job.status === "cancelled" ? "生成已取消" : finished ? "生成完成" : "正在生成音频和图片"}
+          {" "}({done}/{job.total})
+        </span>
+        <div className="flex gap-2">
+          {!finished && job.status !== "cancelled" && (
+            <Button size="sm" variant="outline" onClick={handleCancel}>
+              <XCircle className="w-4 h-4 mr-1" />
+              取消
+            </Button>
+          )}
+          {finished && failedItems.length > 0 && (
+            <Button size="sm" variant="outline" onClick={handleRetry}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              重试失败项 ({failedItems.length})
+            </Button>
+          )}
+          {finished && (
+            <Button size="sm" variant="ghost" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress value={percentage} className="w-full" />
+      <div className="mt-2 text-xs text-blue-700">
+        成功 {job.counts.succeeded} · 失败 {job.counts.failed}
+        {job.counts.cancelled > 0 && ` · 已取消 ${job.counts.cancelled}`}
+      </div>
+      {failedItems.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-red-600">
+          {failedItems.map(item => (
+            <li key={item.id}>卡片 #{item.card_id}: {item.error || "未知错误"}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -5,47 +5,55 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Lock, User } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
-interface LoginFormProps {
-  onLogin: (isAuthenticated: boolean) => void;
-}
-
-export function LoginForm({ onLogin }: LoginFormProps) {
+export function LoginForm() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [isRegistering, setIsRegistering] = useState(false);
   const { toast } = useToast();
+  const { login, register } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // Simple hardcoded authentication
-    if (username === "sanghak.kim" && password === "Nopassw1") {
-      localStorage.setItem("thai-app-auth", "authenticated");
-      onLogin(true);
-      toast({
-        title: "登录成功",
-        description: "欢迎访问文件管理系统",
-      });
-    } else {
+    try {
+      if (isRegistering) {
+        await register(username, password);
+        toast({
+          title: "注册成功",
+          description: "账号已创建并自动登录",
+        });
+      } else {
+        await login(username, password);
+        toast({
+          title: "登录成功",
+          description: "欢迎访问文件管理系统",
+        });
+      }
+    } catch (error) {
+      const message = String(error);
       toast({
-        title: "登录失败",
-        description: "用户名或密码错误",
+        title: isRegistering ? "注册失败" : "登录失败",
+        description: isRegistering
+          ? message.startsWith("Error: 409") ? "用户名已存在" : "用户名至少3个字符，密码至少8个字符"
+          : "用户名或密码错误",
         variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
     }
-
-    setIsLoading(false);
   };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
-          <CardTitle className="text-2xl text-center">文件管理登录</CardTitle>
+          <CardTitle className="text-2xl text-center">{isRegistering ? "注册账号" : "文件管理登录"}</CardTitle>
           <p className="text-sm text-gray-600 text-center">
-            请输入您的登录凭据
+            {isRegistering ? "创建一个新的账号" : "请输入您的登录凭据"}
           </p>
         </CardHeader>
         <CardContent>
@@ -85,9 +93,21 @@ export function LoginForm({ onLogin }: LoginFormProps) {
               className="w-full" 
               disabled={isLoading}
             >
-              {isLoading ? "登录中..." : "登录"}
+              {isLoading
+                ? (isRegistering ? "注册中..." : "登录中...")
+                : (isRegistering ? "注册" : "登录")}
             </Button>
           </form>
+          <div className="mt-4 text-center">
+            <Button
+              type="button"
+              variant="link"
+              className="text-sm"
+              onClick={() => setIsRegistering(!isRegistering)}
+            >
+              {isRegistering ? "已有账号？返回登录" : "没有账号？注册"}
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </div>
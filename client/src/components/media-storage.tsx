@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { HardDrive, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MediaGcResult, MediaKind, MediaStorageReport } from "@shared/schema";
+
+const mediaReportQueryKey = ["/api/admin/media"];
+
+const kindLabels: Record<MediaKind | "other", string> = {
+  word_audio: "单词音频",
+  example_audio: "例句音频",
+  card_image: "卡片图片",
+  other: "其他文件",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Space used by generated media and a sweep that deletes files no card references
+export function MediaStorage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCollecting, setIsCollecting] = useState(false);
+
+  const { data: report } = useQuery<MediaStorageReport>({
+    queryKey: mediaReportQueryKey,
+  });
+
+  const handleCollect = async () => {
+    if (!report || !confirm(`确定要删除 ${report.orphaned.files} 个未被任何卡片引用的文件吗？此操作无法撤销。`)) {
+      return;
+    }
+
+    try {
+      setIsCollecting(true);
+      const result = await apiRequest("/api/admin/media/gc", "POST") as MediaGcResult;
+      queryClient.invalidateQueries({ queryKey: mediaReportQueryKey });
+      toast({
+        title: "清理完成",
+        description: `已删除 ${result.deleted.length} 个文件，释放 ${formatBytes(result.freedBytes)}`,
+      });
+    } catch (error) {
+      toast({
+        title: "清理失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCollecting(false);
+    }
+  };
+
+  return (
+    <Card className="mt-8 shadow-lg">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <HardDrive className="text-2xl text-teal-500 mr-3" />
+            <h3 className="text-xl font-semibold text-gray-900">媒体存储</h3>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleCollect}
+            disabled={!report || report.orphaned.files === 0 || isCollecting}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {isCollecting ? "清理中..." : "清理未引用文件"}
+          </Button>
+        </div>
+        {report && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="font-medium text-gray-800">全部文件</span>
+              <span className="text-gray-600">{report.files} 个 · {formatBytes(report.bytes)}</span>
+            </div>
+            {report.kinds.map(usage => (
+              <div key={usage.kind} className="flex items-center justify-between px-3 text-sm">
+                <span className="text-gray-600">{kindLabels[usage.kind]}</span>
+                <span className="text-gray-500">{usage.files} 个 · {formatBytes(usage.bytes)}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between p-3 bg-amber-50 rounded-lg">
+              <span className="font-medium text-amber-800">未被引用</span>
+              <span className="text-amber-700">{report.orphaned.files} 个 · {formatBytes(report.orphaned.bytes)}</span>
+            </div>
+            {(report.untracked > 0 || report.missing > 0) && (
+              <p className="text-xs text-gray-500">
+                {report.untracked} 个文件尚未登记，{report.missing} 条登记记录的文件已不存在；清理时会一并整理
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
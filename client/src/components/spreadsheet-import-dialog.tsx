@@ -0,0 +1,243 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCourses } from "@/hooks/use-courses";
+import { CourseSelect } from "@/components/course-select";
+import { UploadDiffView, countCardsToCreate } from "@/components/upload-diff-view";
+import { MergeStrategy, SpreadsheetColumnMapping, SpreadsheetImportOptions, SpreadsheetPreview, UploadDiff } from "@shared/schema";
+
+interface SpreadsheetImportDialogProps {
+  file: File | null;
+  defaultLevel: number;
+  onImported: (batchId: number) => void;
+  onClose: () => void;
+}
+
+type MappingKey = keyof SpreadsheetColumnMapping;
+
+const NOT_MAPPED = "none";
+
+const mappingFields: { key: MappingKey; label: string; required?: boolean }[] = [
+  { key: "thai", label: "泰语单词", required: true },
+  { key: "chinese", label: "中文翻译", required: true },
+  { key: "pronunciation", label: "发音标注" },
+  { key: "example", label: "泰语例句" },
+  { key: "example_translation", label: "例句中文翻译" },
+  { key: "lesson", label: "所属课" },
+  { key: "part_of_speech", label: "词性" },
+  { key: "tags", label: "标签" },
+];
+
+async function postSpreadsheet(url: string, file: File, options?: SpreadsheetImportOptions) {
+  const formData = new FormData();
+  formData.append("file", file, file.name);
+  if (options) formData.append("options", JSON.stringify(options));
+
+  const response = await fetch(url, { method: "POST", body: formData, credentials: "include" });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || `${response.status}`);
+  }
+  return body;
+}
+
+// Preview step for CSV/TSV/XLSX uploads: map columns to card fields and check every row before importing
+export function SpreadsheetImportDialog({ file, defaultLevel, onImported, onClose }: SpreadsheetImportDialogProps) {
+  const { toast } = useToast();
+  const { courseTitle } = useCourses();
+  const [preview, setPreview] = useState<SpreadsheetPreview | null>(null);
+  const [mapping, setMapping] = useState<Partial<SpreadsheetColumnMapping>>({ thai: 0, chinese: 1 });
+  const [hasHeader, setHasHeader] = useState(true);
+  const [level, setLevel] = useState(defaultLevel);
+  const [isImporting, setIsImporting] = useState(false);
+  const [diff, setDiff] = useState<UploadDiff | null>(null);
+  const [strategy, setStrategy] = useState<MergeStrategy>("skip");
+
+  const options: SpreadsheetImportOptions | null =
+    mapping.thai !== undefined && mapping.chinese !== undefined
+      ? { mapping: mapping as SpreadsheetColumnMapping, level, hasHeader }
+      : null;
+
+  // Re-validate the whole sheet whenever the file or the mapping changes
+  useEffect(() => {
+    if (!file) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setDiff(null);
+    postSpreadsheet("/api/cards/upload/preview", file, options ?? undefined)
+      .then((result: SpreadsheetPreview) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: "无法读取表格",
+          description: error.message,
+          variant: "destructive",
+        });
+        onClose();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, JSON.stringify(options)]);
+
+  useEffect(() => {
+    if (file) {
+      setMapping({ thai: 0, chinese: 1 });
+      setHasHeader(true);
+      setLevel(defaultLevel);
+    }
+  }, [file]);
+
+  // The first click runs a dry run to show duplicates and changes; the second commits with the chosen strategy
+  const handleImport = async () => {
+    if (!file || !options) return;
+
+    try {
+      setIsImporting(true);
+      if (!diff) {
+        const result = await postSpreadsheet("/api/cards/upload?dryRun=true", file, options);
+        setDiff(result.diff);
+        return;
+      }
+
+      const result = await postSpreadsheet(`/api/cards/upload?strategy=${strategy}`, file, options);
+
+      onImported(result.batchId);
+      toast({
+        title: "上传成功",
+        description: `已导入 ${result.count} 张新卡片到${courseTitle(level)}，更新 ${result.updated} 张，跳过 ${result.skipped} 张`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Spreadsheet import failed:", error);
+      toast({
+        title: "上传失败",
+        description: "请检查表格内容后重试",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const validation = preview?.validation;
+  const dataRows = preview ? (hasHeader ? preview.rows.slice(1) : preview.rows) : [];
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>导入表格</DialogTitle>
+          <DialogDescription>为每个卡片字段选择对应的列，确认没有错误后再导入。</DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <p className="text-sm text-gray-600">正在读取表格...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="spreadsheet-has-header"
+                checked={hasHeader}
+                onCheckedChange={(checked) => setHasHeader(checked === true)}
+              />
+              <Label htmlFor="spreadsheet-has-header">第一行是标题</Label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {mappingFields.map(({ key, label, required }) => (
+                <div key={key} className="space-y-1">
+                  <Label>{label}{required && " *"}</Label>
+                  <Select
+                    value={mapping[key]?.toString() ?? NOT_MAPPED}
+                    onValueChange={(value) => setMapping({ ...mapping, [key]: value === NOT_MAPPED ? undefined : parseInt(value) })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!required && <SelectItem value={NOT_MAPPED}>不导入</SelectItem>}
+                      {preview.columns.map((column, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {hasHeader ? column : `列 ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label>课程级别</Label>
+                <CourseSelect value={level} onChange={setLevel} />
+              </div>
+            </div>
+
+            {/* First rows as they will be read */}
+            <div className="max-h-48 overflow-auto border rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {mappingFields.map(({ key, label }) => (
+                      <th key={key} className="px-2 py-1 text-left font-medium text-gray-700">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataRows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t">
+                      {mappingFields.map(({ key }) => (
+                        <td key={key} className="px-2 py-1 text-gray-800">
+                          {mapping[key] !== undefined ? row[mapping[key]!] ?? "" : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {validation && (
+              validation.errors.length > 0 ? (
+                <div className="max-h-32 overflow-auto p-3 bg-red-50 rounded-lg text-xs text-red-700 space-y-1">
+                  <p className="font-medium">{validation.errors.length} 行有错误，请修改表格或字段对应关系：</p>
+                  {validation.errors.map(error => (
+                    <p key={error.row}>第 {error.row} 行：{error.messages.join("；")}</p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-green-700">共 {validation.validCount} 行，全部有效</p>
+              )
+            )}
+
+            {diff && <UploadDiffView diff={diff} strategy={strategy} onStrategyChange={setStrategy} />}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            取消
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || !options || !validation || validation.errors.length > 0 || validation.validCount === 0}
+          >
+            {isImporting
+              ? "导入中..."
+              : diff
+                ? `确认导入 (${countCardsToCreate(diff, strategy)} 张新卡片)`
+                : `检查 ${validation?.validCount ?? 0} 张卡片`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
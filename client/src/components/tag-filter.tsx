@@ -0,0 +1,33 @@
+import { Tag } from "lucide-react";
+import { TagCount } from "@shared/schema";
+
+interface TagFilterProps {
+  tags: TagCount[];
+  selected: string | null;
+  onSelect: (tag: string | null) => void;
+}
+
+// One chip per tag; clicking the selected chip again clears the filter
+export function TagFilter({ tags, selected, onSelect }: TagFilterProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag className="w-4 h-4 text-gray-400" />
+      {tags.map(({ tag, count }) => (
+        <button
+          key={tag}
+          type="button"
+          onClick={() => onSelect(selected === tag ? null : tag)}
+          className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+            selected === tag
+              ? "bg-blue-600 border-blue-600 text-white"
+              : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50"
+          }`}
+        >
+          {tag} ({count})
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MergeStrategy, UploadDiff, mergeStrategies } from "@shared/schema";
+
+interface UploadDiffViewProps {
+  diff: UploadDiff;
+  strategy: MergeStrategy;
+  onStrategyChange: (strategy: MergeStrategy) => void;
+}
+
+const strategyLabels: Record<MergeStrategy, string> = {
+  skip: "跳过已有卡片",
+  overwrite: "用上传内容覆盖",
+  keep_both: "保留两者",
+};
+
+const fieldLabels: Record<string, string> = {
+  chinese: "中文翻译",
+  pronunciation: "发音标注",
+  example: "泰语例句",
+  example_translation: "例句中文翻译",
+  lesson: "所属课",
+  part_of_speech: "词性",
+  tags: "标签",
+};
+
+// Count of cards each strategy would create; overwrite updates changed cards in place
+export function countCardsToCreate(diff: UploadDiff, strategy: MergeStrategy): number {
+  return strategy === "keep_both"
+    ? diff.new.length + diff.duplicates.length + diff.changed.length
+    : diff.new.length;
+}
+
+// Result of an upload dry run: new cards, exact duplicates and changed cards, plus how to merge matches
+export function UploadDiffView({ diff, strategy, onStrategyChange }: UploadDiffViewProps) {
+  const hasMatches = diff.duplicates.length > 0 || diff.changed.length > 0;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="p-2 bg-green-50 rounded-lg">
+          <p className="text-lg font-semibold text-green-700">{diff.new.length}</p>
+          <p className="text-xs text-green-700">新卡片</p>
+        </div>
+        <div className="p-2 bg-gray-50 rounded-lg">
+          <p className="text-lg font-semibold text-gray-700">{diff.duplicates.length}</p>
+          <p className="text-xs text-gray-700">完全重复</p>
+        </div>
+        <div className="p-2 bg-amber-50 rounded-lg">
+          <p className="text-lg font-semibold text-amber-700">{diff.changed.length}</p>
+          <p className="text-xs text-amber-700">内容有变化</p>
+        </div>
+      </div>
+
+      {diff.changed.length > 0 && (
+        <div className="max-h-48 overflow-auto border rounded-lg divide-y">
+          {diff.changed.map(({ incoming, existing, fields }) => (
+            <div key={existing.id} className="p-2 space-y-1">
+              <p className="font-medium text-gray-900">{incoming.thai}</p>
+              {fields.map(field => (
+                <p key={field} className="text-xs text-gray-600">
+                  {fieldLabels[field] ?? field}：
+                  <span className="line-through text-red-600">{String(existing[field as keyof typeof existing] ?? "")}</span>
+                  {" → "}
+                  <span className="text-green-700">{String(incoming[field as keyof typeof incoming] ?? "")}</span>
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff.duplicates.length > 0 && (
+        <p className="text-xs text-gray-600">
+          重复：{diff.duplicates.map(({ incoming }) => incoming.thai).join("、")}
+        </p>
+      )}
+
+      {hasMatches && (
+        <div className="flex items-center justify-between gap-4">
+          <Label className="shrink-0">已有卡片的处理方式</Label>
+          <Select value={strategy} onValueChange={(value) => onStrategyChange(value as MergeStrategy)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {mergeStrategies.map(option => (
+                <SelectItem key={option} value={option}>{strategyLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PublicUser } from "@shared/schema";
+import { userRoles, UserRole } from "@shared/permissions";
+
+const roleLabels: Record<UserRole, string> = {
+  admin: "管理员",
+  editor: "编辑",
+  learner: "学习者",
+};
+
+interface UserManagementProps {
+  currentUserId: number;
+}
+
+export function UserManagement({ currentUserId }: UserManagementProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const handleRoleChange = async (userId: number, role: UserRole) => {
+    try {
+      await apiRequest(`/api/users/${userId}/role`, "PATCH", { role });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "角色已更新",
+        description: `已将用户设置为${roleLabels[role]}`,
+      });
+    } catch (error) {
+      toast({
+        title: "更新失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-8 shadow-lg">
+      <CardContent className="p-6">
+        <div className="flex items-center mb-6">
+          <Users className="text-2xl text-purple-500 mr-3" />
+          <h3 className="text-xl font-semibold text-gray-900">用户管理</h3>
+        </div>
+        <div className="space-y-3">
+          {users.map(user => (
+            <div key={user.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="font-medium text-gray-800">{user.username}</span>
+              <Select
+                value={user.role}
+                onValueChange={(value) => handleRoleChange(user.id, value as UserRole)}
+                disabled={user.id === currentUserId}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export const authQueryKey = ["/api/auth/me"];
+
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: authQueryKey,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    staleTime: Infinity,
+  });
+
+  const login = async (username: string, password: string): Promise<PublicUser> => {
+    const loggedIn = await apiRequest("/api/auth/login", "POST", { username, password }) as PublicUser;
+    queryClient.setQueryData(authQueryKey, loggedIn);
+    return loggedIn;
+  };
+
+  const register = async (username: string, password: string): Promise<PublicUser> => {
+    const created = await apiRequest("/api/auth/register", "POST", { username, password }) as PublicUser;
+    queryClient.setQueryData(authQueryKey, created);
+    return created;
+  };
+
+  const logout = async (): Promise<void> => {
+    await apiRequest("/api/auth/logout", "POST");
+    queryClient.setQueryData(authQueryKey, null);
+  };
+
+  const can = (permission: Permission): boolean => hasPermission(user?.role, permission);
+
+  return { user, isLoading, login, register, logout, can };
+}
@@ -0,0 +1,29 @@
+import { useInfiniteQuery, type QueryKey } from "@tanstack/react-query";
+import { Card, CardPage } from "@shared/schema";
+
+// Query parameters for GET /api/cards; undefined values are left out
+export type CardPageParams = Record<string, string | number | undefined>;
+
+// Pages through GET /api/cards with its cursor; call fetchNextPage to load more
+export function useCardPages<T = Card>(queryKey: QueryKey, params: CardPageParams, enabled = true) {
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<CardPage<T>> => {
+      const search = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) search.set(key, String(value));
+      }
+      if (pageParam) search.set("cursor", pageParam);
+      const res = await fetch(`/api/cards?${search}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled,
+  });
+
+  const cards = query.data?.pages.flatMap(page => page.items) ?? [];
+  const total = query.data?.pages[0]?.total ?? 0;
+  return { ...query, cards, total };
+}
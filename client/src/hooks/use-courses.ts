@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { Course } from "@shared/schema";
+
+export const coursesQueryKey = ["/api/courses"];
+
+export function useCourses() {
+  const { data: courses = [], isLoading } = useQuery<Course[]>({
+    queryKey: coursesQueryKey,
+  });
+
+  // Cards may briefly point at a course that is still loading; fall back to the ID
+  const courseTitle = (id: number): string => courses.find(course => course.id === id)?.title ?? `课程${id}`;
+
+  return { courses, isLoading, courseTitle };
+}
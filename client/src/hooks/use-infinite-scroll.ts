@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+// Calls onReachEnd whenever the element given to the returned ref (a sentinel after a list)
+// scrolls into view. Pass enabled=false while a page is loading or when there is nothing more.
+export function useInfiniteScroll(onReachEnd: () => void, enabled: boolean) {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!sentinel || !enabled) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onReachEnd();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, enabled, onReachEnd]);
+
+  return setSentinel;
+}
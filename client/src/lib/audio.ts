@@ -98,17 +98,13 @@ export class AudioService {
       return this.cardCache.get(cardId);
     }
     
-    // Fetch all cards and cache them
+    // Fetch just this card, and only the fields needed to find its audio
     try {
-      const response = await fetch(`/api/cards`);
-      const cards = await response.json();
-      
-      // Cache all cards for faster subsequent lookups
-      cards.forEach((card: any) => {
-        this.cardCache.set(card.id, card);
-      });
-      
-      return this.cardCache.get(cardId);
+      const response = await fetch(`/api/cards/${cardId}?fields=thai,example,word_audio,example_audio`);
+      if (!response.ok) return null;
+      const card = await response.json();
+      this.cardCache.set(cardId, card);
+      return card;
     } catch (error) {
       console.log("Failed to fetch card data:", error);
       return null;
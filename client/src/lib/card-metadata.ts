@@ -0,0 +1,22 @@
+import { PartOfSpeech } from "@shared/schema";
+
+export const partOfSpeechLabels: Record<PartOfSpeech, string> = {
+  noun: "名词",
+  verb: "动词",
+  adjective: "形容词",
+  adverb: "副词",
+  pronoun: "代词",
+  classifier: "量词",
+  particle: "助词",
+  preposition: "介词",
+  conjunction: "连词",
+  numeral: "数词",
+  interjection: "叹词",
+  phrase: "短语",
+};
+
+// Tags are typed as one comma-separated line; accepts both ASCII and Chinese separators
+export function parseTagInput(text: string): string[] {
+  const tags = text.split(/[,，、;；]/).map(tag => tag.trim()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
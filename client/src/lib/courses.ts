@@ -0,0 +1,34 @@
+import { BookOpen, GraduationCap, Trophy, Star, Languages, MessageCircle, type LucideIcon } from "lucide-react";
+import { CourseColor, CourseIcon } from "@shared/schema";
+
+// Full class names so Tailwind keeps them; courses store only the color name
+export const courseColorClasses: Record<CourseColor, { color: string; bgColor: string; textColor: string }> = {
+  green: { color: "bg-green-500", bgColor: "bg-green-50", textColor: "text-green-700" },
+  blue: { color: "bg-blue-500", bgColor: "bg-blue-50", textColor: "text-blue-700" },
+  purple: { color: "bg-purple-500", bgColor: "bg-purple-50", textColor: "text-purple-700" },
+  orange: { color: "bg-orange-500", bgColor: "bg-orange-50", textColor: "text-orange-700" },
+  red: { color: "bg-red-500", bgColor: "bg-red-50", textColor: "text-red-700" },
+  teal: { color: "bg-teal-500", bgColor: "bg-teal-50", textColor: "text-teal-700" },
+  pink: { color: "bg-pink-500", bgColor: "bg-pink-50", textColor: "text-pink-700" },
+  gray: { color: "bg-gray-500", bgColor: "bg-gray-50", textColor: "text-gray-700" },
+};
+
+export const courseColorLabels: Record<CourseColor, string> = {
+  green: "绿色",
+  blue: "蓝色",
+  purple: "紫色",
+  orange: "橙色",
+  red: "红色",
+  teal: "青色",
+  pink: "粉色",
+  gray: "灰色",
+};
+
+export const courseIconComponents: Record<CourseIcon, LucideIcon> = {
+  "book-open": BookOpen,
+  "graduation-cap": GraduationCap,
+  trophy: Trophy,
+  star: Star,
+  languages: Languages,
+  "message-circle": MessageCircle,
+};
@@ -1,12 +1,9 @@
-import JSZip from "jszip";
-// Remove audioService import since we're downloading existing files
-import { Card } from "@shared/schema";
-import html2canvas from "html2canvas";
+import { ExportFormat } from "@shared/schema";
 
-export interface DownloadProgress {
-  current: number;
-  total: number;
-  status: string;
+export interface ExportOptions {
+  level?: number;
+  ids?: number[];
+  format?: ExportFormat;
 }
 
 export class DownloadService {
@@ -19,171 +16,21 @@ export class DownloadService {
     return DownloadService.instance;
   }
 
-  async downloadBatch(
-    cards: Card[],
-    onProgress?: (progress: DownloadProgress) => void
-  ): Promise<void> {
-    const zip = new JSZip();
-    const imageFolder = zip.folder("images");
-    const audioFolder = zip.folder("audio");
-
-    if (!imageFolder || !audioFolder) {
-      throw new Error("Failed to create ZIP folders");
-    }
-
-    const totalItems = cards.length * 2; // 1 image + audio files per card
-    let completedItems = 0;
-
-    const updateProgress = (status: string) => {
-      if (onProgress) {
-        onProgress({
-          current: completedItems,
-          total: totalItems,
-          status
-        });
-      }
-    };
-
-    try {
-      for (let index = 0; index < cards.length; index++) {
-        const card = cards[index];
-        // Generate card image
-        updateProgress(`生成卡片 ${index + 1} 图片...`);
-        const imageBlob = await this.generateCardImage(card, index);
-        imageFolder.file(`card_${index + 1}_${card.thai}.png`, imageBlob);
-        completedItems++;
-        updateProgress(`完成卡片 ${index + 1} 图片`);
-
-        // Download existing audio files from server - only add if they exist and are valid
-        updateProgress(`检查卡片 ${index + 1} 音频文件...`);
-        try {
-          // Download word audio if it exists
-          if (card.word_audio) {
-            try {
-              const wordAudioUrl = `/api/audio/${card.word_audio}`;
-              const wordResponse = await fetch(wordAudioUrl);
-              if (wordResponse.ok) {
-                const wordBlob = await wordResponse.blob();
-                if (wordBlob.size > 1000) { // Only include valid audio files
-                  audioFolder.file(`card_${index + 1}_word_${card.thai}.mp3`, wordBlob);
-                  console.log(`✅ Downloaded word audio for card ${index + 1}`);
-                } else {
-                  console.warn(`⚠️ Word audio too small for card ${index + 1}: ${wordBlob.size} bytes`);
-                }
-              } else {
-                console.warn(`❌ Word audio not found for card ${index + 1}: ${wordResponse.status}`);
-              }
-            } catch (error) {
-              console.error(`Failed to download word audio for card ${index + 1}:`, error);
-            }
-          }
-          
-          // Download example audio if it exists
-          if (card.example_audio) {
-            try {
-              const exampleAudioUrl = `/api/audio/${card.example_audio}`;
-              const exampleResponse = await fetch(exampleAudioUrl);
-              if (exampleResponse.ok) {
-                const exampleBlob = await exampleResponse.blob();
-                if (exampleBlob.size > 1000) { // Only include valid audio files
-                  audioFolder.file(`card_${index + 1}_example_${card.thai}.mp3`, exampleBlob);
-                  console.log(`✅ Downloaded example audio for card ${index + 1}`);
-                } else {
-                  console.warn(`⚠️ Example audio too small for card ${index + 1}: ${exampleBlob.size} bytes`);
-                }
-              } else {
-                console.warn(`❌ Example audio not found for card ${index + 1}: ${exampleResponse.status}`);
-              }
-            } catch (error) {
-              console.error(`Failed to download example audio for card ${index + 1}:`, error);
-            }
-          }
-        } catch (error) {
-          console.error(`Failed to process audio files for card ${index + 1}:`, error);
-        }
-        completedItems++;
-      }
-
-      updateProgress("正在打包文件...");
-      const zipBlob = await zip.generateAsync({ type: "blob" });
-      
-      // Download the ZIP file
-      const url = URL.createObjectURL(zipBlob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `thai_cards_${new Date().toISOString().split('T')[0]}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      updateProgress("下载完成！");
-    } catch (error) {
-      console.error("Batch download failed:", error);
-      throw error;
-    }
+  exportUrl({ level, ids, format = "zip" }: ExportOptions): string {
+    const params = new URLSearchParams({ format });
+    if (level !== undefined) params.set("level", String(level));
+    if (ids && ids.length > 0) params.set("ids", ids.join(","));
+    return `/api/export?${params.toString()}`;
   }
 
-  private async generateCardImage(card: Card, index: number): Promise<Blob> {
-    // Create a temporary div to render the card
-    const tempDiv = document.createElement("div");
-    tempDiv.style.position = "absolute";
-    tempDiv.style.left = "-9999px";
-    tempDiv.style.width = "600px";
-    tempDiv.style.padding = "32px";
-    tempDiv.style.backgroundColor = "white";
-    tempDiv.style.borderRadius = "16px";
-    tempDiv.style.boxShadow = "0 10px 25px rgba(0, 0, 0, 0.1)";
-    tempDiv.style.fontFamily = "system-ui, -apple-system, 'Segoe UI', 'Roboto', 'Helvetica Neue', sans-serif";
-
-    tempDiv.innerHTML = `
-      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px;">
-        <span style="display: inline-flex; align-items: center; padding: 8px 12px; border-radius: 20px; font-size: 14px; font-weight: 500; background-color: #dbeafe; color: #1e40af;">
-          卡片 #${index + 1}
-        </span>
-      </div>
-      
-      <div style="margin-bottom: 24px;">
-        <div style="text-align: center; margin-bottom: 24px;">
-          <div style="font-size: 48px; font-weight: bold; color: #111827; margin-bottom: 8px;">${card.thai}</div>
-          <div style="font-size: 18px; color: #6b7280; font-style: italic;">${card.pronunciation}</div>
-        </div>
-        
-        <div style="border-top: 1px solid #e5e7eb; margin: 24px 0;"></div>
-        
-        <div style="text-align: center; margin-bottom: 24px;">
-          <div style="font-size: 24px; font-weight: 600; color: #1f2937;">${card.chinese}</div>
-        </div>
-        
-        <div style="background-color: #fef3c7; border-radius: 12px; padding: 24px;">
-          <h4 style="font-size: 20px; font-weight: 600; color: #1f2937; margin-bottom: 18px;">例句</h4>
-          <div style="margin-bottom: 15px;">
-            <p style="font-size: 32px; color: #92400e; margin: 0; line-height: 1.4; font-weight: 700;">${card.example}</p>
-          </div>
-          <div>
-            <p style="font-size: 24px; color: #78716c; margin: 0; line-height: 1.3; font-weight: 600;">${card.example_translation}</p>
-          </div>
-        </div>
-      </div>
-    `;
-
-    document.body.appendChild(tempDiv);
-
-    try {
-      const canvas = await html2canvas(tempDiv, {
-        backgroundColor: "white",
-        scale: 2,
-        useCORS: true
-      });
-
-      return new Promise((resolve) => {
-        canvas.toBlob((blob) => {
-          resolve(blob!);
-        }, "image/png");
-      });
-    } finally {
-      document.body.removeChild(tempDiv);
-    }
+  // The server streams the ZIP (images, audio and manifest.json) or .apkg; let the browser save it directly
+  downloadBatch(options: ExportOptions): void {
+    const a = document.createElement("a");
+    a.href = this.exportUrl(options);
+    a.download = `thai_cards_${new Date().toISOString().split('T')[0]}.${options.format ?? "zip"}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
   }
 }
 
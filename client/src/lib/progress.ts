@@ -1,90 +1,51 @@
-export interface LearningProgress {
-  level: number;
-  currentIndex: number;
-  lastStudied: number; // timestamp
-  completedCards: number[];
-  autoPlay: boolean;
-  darkMode: boolean;
-}
+import { LevelProgress, ProgressSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export const progressQueryKey = ["/api/progress"];
 
 export class ProgressService {
   private static instance: ProgressService;
-  private storageKey = 'thai-learning-progress';
+  // Pre-server progress blob (indexes into a random sample); it cannot be mapped to card IDs
+  private legacyStorageKey = 'thai-learning-progress';
 
   static getInstance(): ProgressService {
     if (!ProgressService.instance) {
       ProgressService.instance = new ProgressService();
+      ProgressService.instance.clearLegacyProgress();
     }
     return ProgressService.instance;
   }
 
-  saveProgress(level: number, currentIndex: number, completedCards: number[] = [], autoPlay: boolean = false, darkMode: boolean = false): void {
-    const progress: LearningProgress = {
-      level,
-      currentIndex,
-      lastStudied: Date.now(),
-      completedCards,
-      autoPlay,
-      darkMode
-    };
-
-    try {
-      localStorage.setItem(this.storageKey, JSON.stringify(progress));
-    } catch (error) {
-      console.error('Failed to save learning progress:', error);
-    }
+  async getProgress(level?: number): Promise<ProgressSummary> {
+    const url = level ? `/api/progress?level=${level}` : "/api/progress";
+    return await apiRequest(url, "GET") as ProgressSummary;
   }
 
-  getProgress(): LearningProgress | null {
-    try {
-      const stored = localStorage.getItem(this.storageKey);
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Failed to load learning progress:', error);
-    }
-    return null;
+  // Mark cards as completed on the server, keyed by card ID
+  async markCardsCompleted(cardIds: number[]): Promise<void> {
+    await apiRequest("/api/progress", "PUT", { cardIds, completed: true });
   }
 
-  clearProgress(): void {
-    try {
-      localStorage.removeItem(this.storageKey);
-    } catch (error) {
-      console.error('Failed to clear learning progress:', error);
-    }
-  }
-
-  // Check if progress is from the same session (within 24 hours)
-  isRecentProgress(progress: LearningProgress): boolean {
-    const now = Date.now();
-    const dayInMs = 24 * 60 * 60 * 1000;
-    return (now - progress.lastStudied) < dayInMs;
+  async markCardsIncomplete(cardIds: number[]): Promise<void> {
+    await apiRequest("/api/progress", "PUT", { cardIds, completed: false });
   }
 
-  // Mark a card as completed
-  markCardCompleted(level: number, cardIndex: number, allCompletedCards: number[] = []): void {
-    const progress = this.getProgress();
-    if (progress && progress.level === level) {
-      const updatedCompleted = Array.from(new Set([...progress.completedCards, cardIndex]));
-      this.saveProgress(level, progress.currentIndex, updatedCompleted, progress.autoPlay, progress.darkMode);
-    } else {
-      // New level, start fresh
-      this.saveProgress(level, 0, [cardIndex]);
-    }
+  // Get completion status for a level from a progress summary
+  getLevelCompletion(summary: ProgressSummary | undefined, level: number): LevelProgress & { percentage: number } {
+    const entry = summary?.levels.find(item => item.level === level) ?? { level, completed: 0, total: 0 };
+    return {
+      ...entry,
+      percentage: entry.total > 0 ? Math.round((entry.completed / entry.total) * 100) : 0,
+    };
   }
 
-  // Get completion status for a level
-  getLevelCompletion(level: number): { completed: number[], percentage: number } {
-    const progress = this.getProgress();
-    if (progress && progress.level === level) {
-      return {
-        completed: progress.completedCards,
-        percentage: 0 // Will be calculated by the component based on total cards
-      };
+  private clearLegacyProgress(): void {
+    try {
+      localStorage.removeItem(this.legacyStorageKey);
+    } catch (error) {
+      console.error('Failed to clear legacy learning progress:', error);
     }
-    return { completed: [], percentage: 0 };
   }
 }
 
-export const progressService = ProgressService.getInstance();
\ No newline at end of file
+export const progressService = ProgressService.getInstance();
@@ -23,7 +23,8 @@ export function getCardColor(index: number): string {
 
 export function validateJsonFile(file: File): Promise<boolean> {
   return new Promise((resolve) => {
-    if (file.type !== "application/json") {
+    // Some browsers report an empty MIME type for .json files
+    if (file.type !== "application/json" && !file.name.toLowerCase().endsWith(".json")) {
       resolve(false);
       return;
     }
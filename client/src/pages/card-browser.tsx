@@ -3,9 +3,15 @@ import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Volume2, ChevronUp } from "lucide-react";
+import { ArrowLeft, Volume2, ChevronUp, Play } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { AudioService } from "@/lib/audio";
+import { useCourses } from "@/hooks/use-courses";
+import { useCardPages } from "@/hooks/use-card-pages";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { TagFilter } from "@/components/tag-filter";
+import { partOfSpeechLabels } from "@/lib/card-metadata";
+import { Lesson, PartOfSpeech, TagCount } from "@shared/schema";
 
 interface CardData {
   id: number;
@@ -15,32 +21,59 @@ interface CardData {
   example: string;
   example_translation: string;
   level: number;
-  word_audio?: string;
-  example_audio?: string;
-  card_image?: string;
+  lesson_id: number | null;
+  lesson_position: number | null;
+  part_of_speech: PartOfSpeech | null;
+  tags: string[];
 }
 
+// Only the columns the grid and detail view show; audio is looked up per card when played
+const CARD_FIELDS = "id,thai,chinese,pronunciation,example,example_translation,level,lesson_id,lesson_position,part_of_speech,tags";
+const CARD_PAGE_SIZE = 60;
+
 interface CardBrowserProps {
   level: number;
 }
 
 export default function CardBrowser({ level }: CardBrowserProps) {
   const [, setLocation] = useLocation();
+  const { courseTitle } = useCourses();
   const [selectedCard, setSelectedCard] = useState<CardData | null>(null);
   const [showBackToTop, setShowBackToTop] = useState(false);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  // Fetch cards for the selected level with stable caching to prevent auto-refresh
-  const { data: cards = [], isLoading } = useQuery<CardData[]>({
-    queryKey: ["/api/cards", level],
+  // Cards load a page at a time as the grid scrolls; the tag filter runs on the server
+  const { cards, total, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useCardPages<CardData>(
+    ["/api/cards", level, selectedTag],
+    { level, tag: selectedTag ?? undefined, fields: CARD_FIELDS, limit: CARD_PAGE_SIZE },
+    level > 0,
+  );
+  const loadMoreRef = useInfiniteScroll(fetchNextPage, hasNextPage && !isFetchingNextPage);
+
+  const { data: lessons = [] } = useQuery<Lesson[]>({
+    queryKey: [`/api/courses/${level}/lessons`],
+    enabled: level > 0,
+  });
+
+  const { data: tags = [] } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags", level],
+    queryFn: () => fetch(`/api/tags?level=${level}`).then(res => res.json()),
     enabled: level > 0,
-    staleTime: 10 * 60 * 1000, // 10分钟缓存，避免过度刷新
-    refetchOnWindowFocus: false, // 窗口获得焦点时不刷新
-    refetchOnMount: false, // 组件挂载时不重新获取
-    refetchOnReconnect: false, // 网络重连时不刷新
-    refetchInterval: false, // 禁用定期刷新
   });
 
+  // One group per lesson in textbook order, then cards not assigned to a lesson
+  const lessonGroups = lessons
+    .map(lesson => ({
+      lesson,
+      cards: cards
+        .filter(card => card.lesson_id === lesson.id)
+        .sort((a, b) => (a.lesson_position ?? 0) - (b.lesson_position ?? 0) || a.id - b.id),
+    }))
+    .filter(group => group.cards.length > 0);
+  const groupedIds = new Set(lessonGroups.flatMap(group => group.cards.map(card => card.id)));
+  const ungroupedCards = cards.filter(card => !groupedIds.has(card.id));
+
   // Handle scroll for back-to-top button
   useEffect(() => {
     const handleScroll = () => {
@@ -90,6 +123,69 @@ export default function CardBrowser({ level }: CardBrowserProps) {
     return text.substring(0, maxLength) + '...';
   };
 
+  const renderCardGrid = (gridCards: CardData[]) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+      {gridCards.map((card) => (
+        <Card
+          key={card.id}
+          className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+          onClick={() => handleCardClick(card)}
+        >
+          <CardContent className="p-4">
+            {/* Main word display */}
+            <div className="text-center mb-3">
+              <div className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+                {card.thai}
+              </div>
+              <div className="text-lg text-blue-600 dark:text-blue-400 font-medium">
+                {card.chinese}
+              </div>
+            </div>
+
+            {/* Example preview */}
+            <div className="text-center mb-3 min-h-[3rem] flex flex-col justify-center">
+              <div className="text-sm text-gray-600 dark:text-gray-300 mb-1">
+                {truncateText(card.example, 20)}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {truncateText(card.example_translation, 25)}
+              </div>
+            </div>
+
+            {/* Audio controls */}
+            <div className="flex justify-center gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 hover:bg-blue-100 dark:hover:bg-blue-900"
+                onClick={(e) => handlePlayAudio(card, 'word', e)}
+                title="播放单词发音"
+              >
+                <Volume2 className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 hover:bg-green-100 dark:hover:bg-green-900"
+                onClick={(e) => handlePlayAudio(card, 'example', e)}
+                title="播放例句发音"
+              >
+                <Volume2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+              </Button>
+            </div>
+
+            {/* Pronunciation hint */}
+            <div className="text-center mt-2">
+              <div className="text-xs text-gray-400 dark:text-gray-500">
+                {card.pronunciation}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
@@ -108,7 +204,7 @@ export default function CardBrowser({ level }: CardBrowserProps) {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
         <div className="flex items-center justify-center h-screen">
           <div className="text-center">
-            <p className="text-gray-600 dark:text-gray-300 mb-4">基础泰语{level} 暂无学习卡片</p>
+            <p className="text-gray-600 dark:text-gray-300 mb-4">{courseTitle(level)} 暂无学习卡片</p>
             <Link href="/">
               <Button variant="outline">返回首页</Button>
             </Link>
@@ -132,13 +228,26 @@ export default function CardBrowser({ level }: CardBrowserProps) {
                 </Button>
               </Link>
               <Badge variant="secondary" className="text-sm">
-                基础泰语{level}
+                {courseTitle(level)}
               </Badge>
             </div>
             <div className="text-sm text-gray-600 dark:text-gray-300">
-              共 {cards.length} 张卡片
+              共 {total} 张卡片
             </div>
           </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+              <TagFilter tags={tags} selected={selectedTag} onSelect={setSelectedTag} />
+              {selectedTag && (
+                <Link href={`/learning/${level}/tags/${encodeURIComponent(selectedTag)}`}>
+                  <Button size="sm" variant="outline">
+                    <Play className="w-4 h-4 mr-1" />
+                    练习此标签
+                  </Button>
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -147,65 +256,35 @@ export default function CardBrowser({ level }: CardBrowserProps) {
         ref={scrollContainerRef}
         className="max-w-6xl mx-auto px-4 py-6 h-[calc(100vh-80px)] overflow-y-auto"
       >
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {cards.map((card) => (
-            <Card
-              key={card.id}
-              className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
-              onClick={() => handleCardClick(card)}
-            >
-              <CardContent className="p-4">
-                {/* Main word display */}
-                <div className="text-center mb-3">
-                  <div className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
-                    {card.thai}
-                  </div>
-                  <div className="text-lg text-blue-600 dark:text-blue-400 font-medium">
-                    {card.chinese}
-                  </div>
-                </div>
-
-                {/* Example preview */}
-                <div className="text-center mb-3 min-h-[3rem] flex flex-col justify-center">
-                  <div className="text-sm text-gray-600 dark:text-gray-300 mb-1">
-                    {truncateText(card.example, 20)}
-                  </div>
-                  <div className="text-xs text-gray-500 dark:text-gray-400">
-                    {truncateText(card.example_translation, 25)}
-                  </div>
-                </div>
-
-                {/* Audio controls */}
-                <div className="flex justify-center gap-2">
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    className="h-8 w-8 p-0 hover:bg-blue-100 dark:hover:bg-blue-900"
-                    onClick={(e) => handlePlayAudio(card, 'word', e)}
-                    title="播放单词发音"
-                  >
-                    <Volume2 className="w-4 h-4 text-blue-600 dark:text-blue-400" />
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    className="h-8 w-8 p-0 hover:bg-green-100 dark:hover:bg-green-900"
-                    onClick={(e) => handlePlayAudio(card, 'example', e)}
-                    title="播放例句发音"
-                  >
-                    <Volume2 className="w-4 h-4 text-green-600 dark:text-green-400" />
-                  </Button>
+        {lessonGroups.length === 0 ? renderCardGrid(cards) : (
+          <div className="space-y-8">
+            {lessonGroups.map(({ lesson, cards: lessonCards }) => (
+              <section key={lesson.id}>
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {lesson.title}
+                    <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{lessonCards.length} 张</span>
+                  </h2>
+                  <Link href={`/learning/${level}/lessons/${lesson.id}`}>
+                    <Button size="sm" variant="outline">
+                      <Play className="w-4 h-4 mr-1" />
+                      学习本课
+                    </Button>
+                  </Link>
                 </div>
-
-                {/* Pronunciation hint */}
-                <div className="text-center mt-2">
-                  <div className="text-xs text-gray-400 dark:text-gray-500">
-                    {card.pronunciation}
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                {renderCardGrid(lessonCards)}
+              </section>
+            ))}
+            {ungroupedCards.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">未分课</h2>
+                {renderCardGrid(ungroupedCards)}
+              </section>
+            )}
+          </div>
+        )}
+        <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          {isFetchingNextPage && "加载更多卡片..."}
         </div>
       </div>
 
@@ -247,6 +326,16 @@ export default function CardBrowser({ level }: CardBrowserProps) {
                 <div className="text-gray-600 dark:text-gray-300 mb-2">
                   发音: {selectedCard.pronunciation}
                 </div>
+                {(selectedCard.part_of_speech || selectedCard.tags.length > 0) && (
+                  <div className="flex flex-wrap justify-center gap-2 mb-4">
+                    {selectedCard.part_of_speech && (
+                      <Badge variant="secondary">{partOfSpeechLabels[selectedCard.part_of_speech]}</Badge>
+                    )}
+                    {selectedCard.tags.map(tag => (
+                      <Badge key={tag} variant="outline">#{tag}</Badge>
+                    ))}
+                  </div>
+                )}
 
                 {/* Example section */}
                 <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 mb-4">
@@ -1,84 +1,34 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { BookOpen, GraduationCap, Trophy, Star, CheckCircle } from "lucide-react";
+import { CheckCircle } from "lucide-react";
 import { Link } from "wouter";
-import { progressService } from "@/lib/progress";
+import { progressService, progressQueryKey } from "@/lib/progress";
 import { useQuery } from "@tanstack/react-query";
-import { Card as CardType } from "@shared/schema";
-
-const courses = [
-  {
-    level: 1,
-    title: "基础泰语1",
-    description: "入门级泰语，学习基本问候和日常用语",
-    icon: BookOpen,
-    color: "bg-green-500",
-    bgColor: "bg-green-50",
-    textColor: "text-green-700"
-  },
-  {
-    level: 2,
-    title: "基础泰语2",
-    description: "进阶基础泰语，掌握更多实用对话",
-    icon: GraduationCap,
-    color: "bg-blue-500",
-    bgColor: "bg-blue-50",
-    textColor: "text-blue-700"
-  },
-  {
-    level: 3,
-    title: "基础泰语3",
-    description: "中级泰语，学习复杂句型和语法",
-    icon: Trophy,
-    color: "bg-purple-500",
-    bgColor: "bg-purple-50",
-    textColor: "text-purple-700"
-  },
-  {
-    level: 4,
-    title: "基础泰语4",
-    description: "高级基础泰语，掌握流利对话技巧",
-    icon: Star,
-    color: "bg-orange-500",
-    bgColor: "bg-orange-50",
-    textColor: "text-orange-700"
-  }
-];
+import { ProgressSummary } from "@shared/schema";
+import { useCourses } from "@/hooks/use-courses";
+import { courseColorClasses, courseIconComponents } from "@/lib/courses";
 
 export default function CourseSelectionPage() {
-  // Get cards data to calculate progress with stable caching to prevent auto-refresh
-  const { data: allCards = [] } = useQuery<CardType[]>({
-    queryKey: ["/api/cards"],
-    queryFn: () => fetch("/api/cards").then(res => res.json()),
-    staleTime: 15 * 60 * 1000, // 15分钟缓存，避免过度刷新
+  const { courses } = useCourses();
+
+  // Per-level completion is computed on the server from the learner's completed card IDs
+  const { data: progressSummary } = useQuery<ProgressSummary>({
+    queryKey: progressQueryKey,
+    staleTime: 60 * 1000, // 1分钟缓存，学习后返回首页时可及时更新
     refetchOnWindowFocus: false, // 窗口获得焦点时不刷新
-    refetchOnMount: false, // 组件挂载时不重新获取
+    refetchOnMount: true, // 返回首页时刷新已过期的进度
     refetchOnReconnect: false, // 网络重连时不刷新
     refetchInterval: false, // 禁用定期刷新
   });
 
   // Get progress for each level
   const getProgressForLevel = (level: number) => {
-    const levelCards = allCards.filter(card => card.level === level);
-    const progress = progressService.getProgress();
-    
-    if (progress && progress.level === level && progressService.isRecentProgress(progress)) {
-      const completedPercentage = levelCards.length > 0 
-        ? Math.round((progress.completedCards.length / levelCards.length) * 100)
-        : 0;
-      return {
-        completed: progress.completedCards.length,
-        total: levelCards.length,
-        percentage: completedPercentage,
-        hasProgress: true
-      };
-    }
-    
+    const { completed, total, percentage } = progressService.getLevelCompletion(progressSummary, level);
     return {
-      completed: 0,
-      total: levelCards.length,
-      percentage: 0,
-      hasProgress: false
+      completed,
+      total,
+      percentage,
+      hasProgress: completed > 0
     };
   };
 
@@ -94,14 +44,15 @@ export default function CourseSelectionPage() {
         {/* Course Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
           {courses.map((course) => {
-            const Icon = course.icon;
-            const progress = getProgressForLevel(course.level);
+            const Icon = courseIconComponents[course.icon];
+            const style = courseColorClasses[course.color];
+            const progress = getProgressForLevel(course.id);
             
             return (
-              <Card key={course.level} className="group hover:shadow-2xl transition-all duration-500 transform hover:-translate-y-3 bg-white/90 backdrop-blur-sm border-0 shadow-lg">
+              <Card key={course.id} className="group hover:shadow-2xl transition-all duration-500 transform hover:-translate-y-3 bg-white/90 backdrop-blur-sm border-0 shadow-lg">
                 <CardContent className="p-10 text-center">
-                  <div className={`w-20 h-20 ${course.bgColor} rounded-full flex items-center justify-center mx-auto mb-8 group-hover:scale-110 transition-transform duration-300 relative shadow-lg`}>
-                    <Icon className={`w-10 h-10 ${course.textColor}`} />
+                  <div className={`w-20 h-20 ${style.bgColor} rounded-full flex items-center justify-center mx-auto mb-8 group-hover:scale-110 transition-transform duration-300 relative shadow-lg`}>
+                    <Icon className={`w-10 h-10 ${style.textColor}`} />
                     {progress.hasProgress && progress.percentage === 100 && (
                       <div className="absolute -top-1 -right-1 w-7 h-7 bg-green-500 rounded-full flex items-center justify-center shadow-md">
                         <CheckCircle className="w-5 h-5 text-white" />
@@ -121,7 +72,7 @@ export default function CourseSelectionPage() {
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
                         <div 
-                          className={`h-3 rounded-full transition-all duration-500 ${course.color.replace('bg-', 'bg-')}`}
+                          className={`h-3 rounded-full transition-all duration-500 ${style.color}`}
                           style={{ width: `${progress.percentage}%` }}
                         ></div>
                       </div>
@@ -130,7 +81,7 @@ export default function CourseSelectionPage() {
                   )}
                   
                   <div className="flex gap-3">
-                    <Link href={`/cards/${course.level}`} className="flex-1">
+                    <Link href={`/cards/${course.id}`} className="flex-1">
                       <Button 
                         variant="outline"
                         className="w-full border-2 border-gray-300 text-gray-700 hover:bg-gray-50 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-base shadow-sm hover:shadow-md"
@@ -138,9 +89,9 @@ export default function CourseSelectionPage() {
                         浏览卡片
                       </Button>
                     </Link>
-                    <Link href={`/learning/${course.level}`} className="flex-1">
+                    <Link href={`/learning/${course.id}`} className="flex-1">
                       <Button 
-                        className={`w-full ${course.color} hover:opacity-90 text-white font-medium py-3 px-4 rounded-xl transition-all duration-300 text-base shadow-lg hover:shadow-xl`}
+                        className={`w-full ${style.color} hover:opacity-90 text-white font-medium py-3 px-4 rounded-xl transition-all duration-300 text-base shadow-lg hover:shadow-xl`}
                       >
                         {progress.hasProgress ? "继续学习" : "开始学习"}
                       </Button>
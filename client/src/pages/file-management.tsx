@@ -8,95 +8,169 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useQuery } from "@tanstack/react-query";
 import { validateJsonFile } from "@/lib/utils";
 import { Link } from "wouter";
-import { Card as CardType } from "@shared/schema";
-import { downloadService, DownloadProgress } from "@/lib/download";
-import { Progress } from "@/components/ui/progress";
+import { Card as CardType, CardImageTemplate, ExportFormat, ImportBatch, JobDetails, MergeStrategy, TagCount, UploadDiff, cardImageTemplates } from "@shared/schema";
+import { downloadService } from "@/lib/download";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { LoginForm } from "@/components/login-form";
+import { useAuth } from "@/hooks/use-auth";
+import { UserManagement } from "@/components/user-management";
+import { MediaStorage } from "@/components/media-storage";
+import { CourseManagement } from "@/components/course-management";
+import { CourseSelect } from "@/components/course-select";
+import { useCourses } from "@/hooks/use-courses";
+import { CardEditDialog } from "@/components/card-edit-dialog";
+import { useCardPages } from "@/hooks/use-card-pages";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { TagFilter } from "@/components/tag-filter";
+import { partOfSpeechLabels } from "@/lib/card-metadata";
+import { GenerationJobPanel } from "@/components/generation-job-panel";
+import { AnkiImportDialog } from "@/components/anki-import-dialog";
+import { SpreadsheetImportDialog } from "@/components/spreadsheet-import-dialog";
+import { UploadDiffView, countCardsToCreate } from "@/components/upload-diff-view";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
+function isArchiveFile(file: File) {
+  return file.name.toLowerCase().endsWith(".zip");
+}
+
+function isSpreadsheetFile(file: File) {
+  return /\.(csv|tsv|xlsx)$/i.test(file.name);
+}
+
+const CARD_PAGE_SIZE = 50;
+
+const templateLabels: Record<CardImageTemplate, string> = {
+  classic: "经典模板",
+  minimal: "简洁模板",
+  dark: "深色模板",
+};
+
 export default function FileManagementPage() {
   const { toast } = useToast();
+  const { courseTitle } = useCourses();
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
   const [editingCard, setEditingCard] = useState<CardType | null>(null);
   const [selectedCards, setSelectedCards] = useState<Set<number>>(new Set());
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [selectedLevel, setSelectedLevel] = useState(1);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [uploadLevel, setUploadLevel] = useState(1);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [generationJobId, setGenerationJobId] = useState<number | null>(null);
+  const [ankiFile, setAnkiFile] = useState<File | null>(null);
+  const [spreadsheetFile, setSpreadsheetFile] = useState<File | null>(null);
+  const [imageTemplate, setImageTemplate] = useState<CardImageTemplate>("classic");
+  const [uploadDiff, setUploadDiff] = useState<UploadDiff | null>(null);
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>("skip");
+  const { user, isLoading: isAuthLoading, logout, can } = useAuth();
+  const isAuthenticated = !!user;
+  const canWriteCards = can("cards:write");
 
   // Always call hooks first, before any conditional returns
-  const { data: cards = [] } = useQuery<CardType[]>({
-    queryKey: ["/api/cards", selectedLevel, "management"],
-    queryFn: () => fetch(`/api/cards?level=${selectedLevel}`).then(res => res.json()), // No random parameter for management
-    enabled: isAuthenticated, // Only fetch when authenticated
-    staleTime: 5 * 60 * 1000, // 5分钟缓存，避免过度刷新
-    refetchOnWindowFocus: false, // 窗口获得焦点时不刷新
-    refetchOnMount: false, // 组件挂载时不重新获取
-    refetchOnReconnect: false, // 网络重连时不刷新
-    refetchInterval: false, // 禁用定期刷新
+  // Newest first, one page at a time; the tag filter runs on the server so every page is filtered
+  const { cards, total, hasNextPage, isFetchingNextPage, fetchNextPage } = useCardPages<CardType>(
+    ["/api/cards", selectedLevel, "management", selectedTag],
+    { level: selectedLevel, tag: selectedTag ?? undefined, sort: "-id", limit: CARD_PAGE_SIZE },
+    isAuthenticated, // Only fetch when authenticated
+  );
+  const loadMoreRef = useInfiniteScroll(fetchNextPage, hasNextPage && !isFetchingNextPage);
+
+  const { data: tags = [] } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags", selectedLevel],
+    queryFn: () => fetch(`/api/tags?level=${selectedLevel}`).then(res => res.json()),
+    enabled: isAuthenticated,
+  });
+
+  // Search runs on the server across all levels, once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Keyed under /api/cards so every card change also refreshes the results
+  const { data: searchResults = [], isFetching: isSearching } = useQuery<CardType[]>({
+    queryKey: ["/api/cards", "search", searchQuery],
+    queryFn: () => fetch(`/api/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json()),
+    enabled: isAuthenticated && searchQuery !== "",
   });
 
+  // A tag from another course would hide every card
+  useEffect(() => {
+    setSelectedTag(null);
+  }, [selectedLevel]);
+
   // Store uploaded card IDs for later selection
   const [uploadedCardIds, setUploadedCardIds] = useState<Set<number>>(new Set());
 
-  // Track cards count before upload to identify newly uploaded cards
-  const [cardsCountBeforeUpload, setCardsCountBeforeUpload] = useState(0);
+  // The most recent upload; its batch lists exactly which cards it created
+  const [lastImportBatchId, setLastImportBatchId] = useState<number | null>(null);
+  const { data: lastImportBatch } = useQuery<ImportBatch>({
+    queryKey: [`/api/imports/${lastImportBatchId}`],
+    enabled: isAuthenticated && lastImportBatchId !== null,
+  });
 
   // Auto-select only newly uploaded cards
   useEffect(() => {
-    if (cards.length > 0 && uploadSuccess && cardsCountBeforeUpload >= 0) {
-      // Only select cards that were added after the previous count
-      const newlyUploadedCards = cards.slice(cardsCountBeforeUpload);
-      const newCardIds = new Set(newlyUploadedCards.map(card => card.id));
-      setUploadedCardIds(newCardIds);
-      setSelectedCards(newCardIds);
-      // Reset upload success flag after auto-selection
-      setTimeout(() => setUploadSuccess(false), 1000);
-      // Clear highlight after 10 seconds
-      setTimeout(() => setUploadedCardIds(new Set()), 10000);
-    }
-  }, [cards, uploadSuccess, cardsCountBeforeUpload]);
+    if (!lastImportBatch) return;
+    const newCardIds = new Set(lastImportBatch.card_ids);
+    setUploadedCardIds(newCardIds);
+    setSelectedCards(newCardIds);
+    // Reset upload success flag after auto-selection
+    const successTimer = setTimeout(() => setUploadSuccess(false), 1000);
+    // Clear highlight after 10 seconds
+    const highlightTimer = setTimeout(() => setUploadedCardIds(new Set()), 10000);
+    return () => {
+      clearTimeout(successTimer);
+      clearTimeout(highlightTimer);
+    };
+  }, [lastImportBatch]);
 
 
 
-  // Check authentication on component mount
-  useEffect(() => {
-    const authStatus = localStorage.getItem("thai-app-auth");
-    setIsAuthenticated(authStatus === "authenticated");
-  }, []);
-
-  const handleLogout = () => {
-    localStorage.removeItem("thai-app-auth");
-    setIsAuthenticated(false);
-    toast({
-      title: "已退出登录",
-      description: "您已成功退出文件管理系统",
-    });
+  const handleLogout = async () => {
+    try {
+      await logout();
+      toast({
+        title: "已退出登录",
+        description: "您已成功退出文件管理系统",
+      });
+    } catch (error) {
+      toast({
+        title: "退出失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    }
   };
 
-  // Show login form if not authenticated
+  if (isAuthLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">加载中...</span>
+      </div>
+    );
+  }
+
+  // Show login form if there is no active session
   if (!isAuthenticated) {
-    return <LoginForm onLogin={setIsAuthenticated} />;
+    return <LoginForm />;
   }
 
-  // Filter and sort cards - newly uploaded cards first, then by search term
-  const filteredCards = cards
-    .filter(card => 
-      card.thai.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      card.chinese.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      card.pronunciation.toLowerCase().includes(searchTerm.toLowerCase())
-    )
+  // While searching, list the ranked results from every level instead of the selected level
+  const listedCards = searchQuery ? searchResults : cards;
+
+  // Filter and sort cards - newly uploaded cards first; search results keep their ranking
+  const filteredCards = listedCards
+    .filter(card => !selectedTag || card.tags.includes(selectedTag))
     .sort((a, b) => {
+      if (searchQuery) return 0;
       // Sort newly uploaded cards to the top
       const aIsNew = uploadedCardIds.has(a.id);
       const bIsNew = uploadedCardIds.has(b.id);
@@ -106,9 +180,9 @@ export default function FileManagementPage() {
       return 0; // Keep original order for cards of the same type
     });
 
-  const handleBatchDownload = async () => {
+  const handleBatchDownload = (format: ExportFormat = "zip") => {
     const cardsToDownload = selectedCards.size > 0 
-      ? cards.filter(card => selectedCards.has(card.id))
+      ? listedCards.filter(card => selectedCards.has(card.id))
       : cards;
 
     if (cardsToDownload.length === 0) {
@@ -120,30 +194,20 @@ export default function FileManagementPage() {
       return;
     }
 
-    try {
-      setIsDownloading(true);
-      await downloadService.downloadBatch(cardsToDownload, setDownloadProgress);
-      
-      toast({
-        title: "下载完成",
-        description: `已下载 ${cardsToDownload.length} 张卡片和语音文件`,
-      });
-      
-      // Clear selection after successful download
-      setSelectedCards(new Set());
-    } catch (error) {
-      console.error("Batch download failed:", error);
-      toast({
-        title: "下载失败",
-        description: "请检查网络连接后重试",
-        variant: "destructive",
-      });
-    } finally {
-      setIsDownloading(false);
-      setDownloadProgress(null);
-    }
+    downloadService.downloadBatch(selectedCards.size > 0
+      ? { ids: cardsToDownload.map(card => card.id), format }
+      : { level: selectedLevel, format });
+
+    toast({
+      title: "开始下载",
+      description: `正在打包 ${cardsToDownload.length} 张卡片和语音文件`,
+    });
+
+    // Clear selection once the download has started
+    setSelectedCards(new Set());
   };
 
+
   const handleSelectCard = (cardId: number) => {
     const newSelected = new Set(selectedCards);
     if (newSelected.has(cardId)) {
@@ -179,6 +243,7 @@ export default function FileManagementPage() {
       // 删除后自动刷新数据
       queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel, "management"] });
       queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       
       // Remove from selected cards if it was selected
       const newSelected = new Set(selectedCards);
@@ -199,20 +264,59 @@ export default function FileManagementPage() {
   };
 
   const handleFileSelect = async (file: File) => {
-    const isValid = await validateJsonFile(file);
+    // Anki packages go through the field-mapping dialog instead of the JSON upload
+    if (file.name.toLowerCase().endsWith(".apkg")) {
+      setAnkiFile(file);
+      return;
+    }
+
+    // Spreadsheets need a column mapping and per-row validation before import
+    if (isSpreadsheetFile(file)) {
+      setSpreadsheetFile(file);
+      return;
+    }
+
+    // Exported ZIP archives are validated by the server
+    const isValid = isArchiveFile(file) || await validateJsonFile(file);
     if (!isValid) {
       toast({
         title: "文件格式错误",
-        description: "请选择正确格式的JSON文件",
+        description: "请选择正确格式的JSON文件或导出的ZIP文件",
         variant: "destructive",
       });
       return;
     }
 
     setSelectedFile(file);
+    setUploadDiff(null);
     setUploadSuccess(false);
   };
 
+  const buildUploadForm = async (file: File) => {
+    const formData = new FormData();
+    if (isArchiveFile(file)) {
+      // Archives keep the levels recorded in their manifest
+      formData.append("file", file, file.name);
+    } else {
+      // Read file content and add level to each card
+      const fileContent = await file.text();
+      const jsonData = JSON.parse(fileContent);
+
+      // Add level to each card
+      if (jsonData.cards) {
+        jsonData.cards = jsonData.cards.map((card: any) => ({
+          ...card,
+          level: uploadLevel
+        }));
+      }
+
+      const modifiedFile = new Blob([JSON.stringify(jsonData)], { type: 'application/json' });
+      formData.append("file", modifiedFile, file.name);
+    }
+    return formData;
+  };
+
+  // Uploads are checked with a dry run first so the diff can be reviewed before anything is written
   const handleFileUpload = async () => {
     if (!selectedFile) {
       toast({
@@ -223,29 +327,14 @@ export default function FileManagementPage() {
       return;
     }
 
+    const isDryRun = !uploadDiff;
+
     try {
       setIsUploading(true);
-      
-      // Store current cards count before upload
-      setCardsCountBeforeUpload(cards.length);
-      
-      // Read file content and add level to each card
-      const fileContent = await selectedFile.text();
-      const jsonData = JSON.parse(fileContent);
-      
-      // Add level to each card
-      if (jsonData.cards) {
-        jsonData.cards = jsonData.cards.map((card: any) => ({
-          ...card,
-          level: uploadLevel
-        }));
-      }
 
-      const formData = new FormData();
-      const modifiedFile = new Blob([JSON.stringify(jsonData)], { type: 'application/json' });
-      formData.append("file", modifiedFile, selectedFile.name);
-
-      const response = await fetch("/api/cards/upload", {
+      const formData = await buildUploadForm(selectedFile);
+      const query = isDryRun ? "?dryRun=true" : uploadDiff ? `?strategy=${mergeStrategy}` : "";
+      const response = await fetch(`/api/cards/upload${query}`, {
         method: "POST",
         body: formData,
         credentials: "include",
@@ -256,13 +345,21 @@ export default function FileManagementPage() {
       }
 
       const result = await response.json();
+
+      if (isDryRun) {
+        setUploadDiff(result.diff);
+        return;
+      }
       
       // 上传成功后自动刷新数据
       await queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel, "management"] });
       await queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      await queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       
       setUploadSuccess(true);
+      setLastImportBatchId(result.batchId);
       setSelectedFile(null);
+      setUploadDiff(null);
       
       // Reset file input
       if (fileInputRef.current) {
@@ -271,11 +368,10 @@ export default function FileManagementPage() {
       
       toast({
         title: "上传成功",
-        description: `已成功导入 ${result.count} 张学习卡片到基础泰语${uploadLevel}`,
+        description: isArchiveFile(selectedFile)
+          ? `已导入 ${result.count} 张新卡片（含媒体文件），更新 ${result.updated} 张，跳过 ${result.skipped} 张`
+          : `已导入 ${result.count} 张新卡片，更新 ${result.updated} 张，跳过 ${result.skipped} 张`,
       });
-
-      // Store uploaded card count for later reference
-      const uploadedCount = result.count;
     } catch (error) {
       console.error("Upload failed:", error);
       toast({
@@ -288,7 +384,39 @@ export default function FileManagementPage() {
     }
   };
 
+  const handleImported = async (batchId: number) => {
+    await queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    setUploadSuccess(true);
+    setLastImportBatchId(batchId);
+  };
+
+  const handleUndoImport = async () => {
+    if (lastImportBatchId === null || !confirm("确定要撤销最近一次导入吗？导入的卡片将被删除，被覆盖的卡片将恢复原样。")) {
+      return;
+    }
+
+    try {
+      const result = await apiRequest(`/api/imports/${lastImportBatchId}`, "DELETE");
+
+      await queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      await queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setLastImportBatchId(null);
+      setUploadedCardIds(new Set());
+      setSelectedCards(new Set());
 
+      toast({
+        title: "已撤销导入",
+        description: `删除 ${result.deleted} 张卡片，恢复 ${result.restored} 张卡片`,
+      });
+    } catch (error) {
+      toast({
+        title: "撤销失败",
+        description: "请重试或检查网络连接",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleDownloadSample = async () => {
     try {
@@ -344,6 +472,12 @@ export default function FileManagementPage() {
     }
   };
 
+  const resetFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
   const handleInputClick = () => {
     fileInputRef.current?.click();
   };
@@ -358,6 +492,7 @@ export default function FileManagementPage() {
 
       queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel] });
       queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setSelectedCards(new Set()); // Clear selection
       
       toast({
@@ -398,6 +533,7 @@ export default function FileManagementPage() {
       // 批量删除后自动刷新数据
       queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel, "management"] });
       queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setSelectedCards(new Set()); // Clear selection
       
       toast({
@@ -425,31 +561,15 @@ export default function FileManagementPage() {
       return;
     }
 
-    if (!confirm(`确定要为选中的 ${selectedCards.size} 张卡片生成音频和图片吗？`)) {
-      return;
-    }
-
-    setIsGenerating(true);
     try {
-      const result = await apiRequest("/api/cards/generate", "POST", {
-        cardIds: Array.from(selectedCards)
-      }) as { success: boolean; results: any[] };
-
-      const successful = result.results.filter(r => r.success).length;
-      const failed = result.results.filter(r => !r.success).length;
-
-      // 生成完成后自动刷新数据
-      queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel, "management"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
-      
-      toast({
-        title: "生成完成",
-        description: `成功生成 ${successful} 张卡片的音频和图片${failed > 0 ? `，${failed} 张失败` : ''}`,
-      });
+      const { id } = await apiRequest("/api/jobs/generate", "POST", {
+        cardIds: Array.from(selectedCards),
+        template: imageTemplate
+      }) as { id: number };
 
-      // Clear selection after generation
+      setGenerationJobId(id);
+      // Clear selection once the job is queued
       setSelectedCards(new Set());
-      
     } catch (error) {
       console.error("Generation error:", error);
       toast({
@@ -457,11 +577,21 @@ export default function FileManagementPage() {
         description: "请检查网络连接或稍后重试",
         variant: "destructive",
       });
-    } finally {
-      setIsGenerating(false);
     }
   };
 
+  const handleGenerationFinished = (job: JobDetails) => {
+    // 生成完成后自动刷新数据
+    queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel, "management"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+
+    toast({
+      title: job.status === "cancelled" ? "生成已取消" : "生成完成",
+      description: `成功生成 ${job.counts.succeeded} 张卡片的音频和图片${job.counts.failed > 0 ? `，${job.counts.failed} 张失败` : ''}`,
+    });
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       {/* Page Header */}
@@ -471,6 +601,7 @@ export default function FileManagementPage() {
             onClick={() => {
               queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedLevel, "management"] });
               queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
               toast({
                 title: "刷新完成",
                 description: "数据已更新"
@@ -497,6 +628,7 @@ export default function FileManagementPage() {
         <p className="text-lg text-gray-600">上传JSON文件来管理您的泰语学习卡片</p>
       </div>
 
+      {canWriteCards && (
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Upload Section */}
         <Card className="shadow-lg">
@@ -511,17 +643,7 @@ export default function FileManagementPage() {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 上传到课程级别
               </label>
-              <Select value={uploadLevel.toString()} onValueChange={(value) => setUploadLevel(parseInt(value))}>
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder="选择课程级别" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="1">基础泰语1</SelectItem>
-                  <SelectItem value="2">基础泰语2</SelectItem>
-                  <SelectItem value="3">基础泰语3</SelectItem>
-                  <SelectItem value="4">基础泰语4</SelectItem>
-                </SelectContent>
-              </Select>
+              <CourseSelect value={uploadLevel} onChange={(courseId) => { setUploadLevel(courseId); setUploadDiff(null); }} />
             </div>
 
             {/* Upload Zone */}
@@ -540,7 +662,7 @@ export default function FileManagementPage() {
                 ref={fileInputRef}
                 type="file"
                 className="hidden"
-                accept=".json"
+                accept=".json,.zip,.apkg,.csv,.tsv,.xlsx"
                 onChange={(e) => {
                   if (e.target.files && e.target.files[0]) {
                     handleFileSelect(e.target.files[0]);
@@ -551,7 +673,7 @@ export default function FileManagementPage() {
               <p className="text-lg font-medium text-gray-700 mb-2">
                 点击或拖拽文件到此处
               </p>
-              <p className="text-sm text-gray-500">支持 .json 格式文件</p>
+              <p className="text-sm text-gray-500">支持 .json、.csv、.tsv、.xlsx 文件，导出的 .zip 文件或 Anki .apkg 牌组</p>
               
               {selectedFile && (
                 <div className="mt-4 p-3 bg-blue-50 rounded-lg">
@@ -563,6 +685,13 @@ export default function FileManagementPage() {
               )}
             </div>
             
+            {/* Dry-run diff, shown before the upload is committed */}
+            {uploadDiff && (
+              <div className="mb-6">
+                <UploadDiffView diff={uploadDiff} strategy={mergeStrategy} onStrategyChange={setMergeStrategy} />
+              </div>
+            )}
+
             {/* Upload Status */}
             {uploadSuccess && (
               <div className="mb-6 flex items-center justify-center space-x-2 text-emerald-600">
@@ -570,6 +699,15 @@ export default function FileManagementPage() {
                 <span>文件上传成功！</span>
               </div>
             )}
+
+            {lastImportBatchId !== null && (
+              <div className="mb-6 flex justify-center">
+                <Button variant="outline" size="sm" onClick={handleUndoImport}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  撤销最近一次导入
+                </Button>
+              </div>
+            )}
             
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
@@ -579,7 +717,11 @@ export default function FileManagementPage() {
                 className="flex-1"
               >
                 <CloudUpload className="w-4 h-4 mr-2" />
-                {isUploading ? "上传中..." : "上传文件"}
+                {isUploading
+                  ? "上传中..."
+                  : uploadDiff
+                    ? `确认导入 (${countCardsToCreate(uploadDiff, mergeStrategy)} 张新卡片)`
+                    : "上传文件"}
               </Button>
               <Link href="/">
                 <Button variant="outline" className="flex-1 w-full">
@@ -637,6 +779,7 @@ export default function FileManagementPage() {
           </CardContent>
         </Card>
       </div>
+      )}
 
 
 
@@ -649,17 +792,7 @@ export default function FileManagementPage() {
               <div className="flex items-center gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">查看课程</label>
-                  <Select value={selectedLevel.toString()} onValueChange={(value) => setSelectedLevel(parseInt(value))}>
-                    <SelectTrigger className="w-32">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="1">基础泰语1</SelectItem>
-                      <SelectItem value="2">基础泰语2</SelectItem>
-                      <SelectItem value="3">基础泰语3</SelectItem>
-                      <SelectItem value="4">基础泰语4</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <CourseSelect value={selectedLevel} onChange={setSelectedLevel} className="w-40" />
                 </div>
                 {cards.length > 0 && (
                   <div className="flex items-center space-x-4">
@@ -688,6 +821,8 @@ export default function FileManagementPage() {
               </div>
             </div>
             <div className="flex gap-3">
+              {canWriteCards && (
+              <>
               <Button
                 onClick={handleBatchDelete}
                 disabled={selectedCards.size === 0}
@@ -697,32 +832,57 @@ export default function FileManagementPage() {
                 <Trash2 className="w-4 h-4 mr-2" />
                 批量删除 ({selectedCards.size})
               </Button>
+              <Select value={imageTemplate} onValueChange={(value) => setImageTemplate(value as CardImageTemplate)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {cardImageTemplates.map(template => (
+                    <SelectItem key={template} value={template}>{templateLabels[template]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 onClick={handleGenerateFiles}
-                disabled={isGenerating || selectedCards.size === 0}
+                disabled={generationJobId !== null || selectedCards.size === 0}
                 variant="outline"
                 className="inline-flex items-center px-4 py-2"
               >
                 <Wand2 className="w-4 h-4 mr-2" />
-                {isGenerating 
-                  ? "生成中..." 
-                  : `生成音频图片 (${selectedCards.size})`}
+                {`生成音频图片 (${selectedCards.size})`}
               </Button>
+              </>
+              )}
               <Button
-                onClick={handleBatchDownload}
-                disabled={isDownloading || cards.length === 0}
+                onClick={() => handleBatchDownload("apkg")}
+                disabled={cards.length === 0}
+                variant="outline"
                 className="inline-flex items-center px-4 py-2"
               >
                 <Download className="w-4 h-4 mr-2" />
-                {isDownloading 
-                  ? "下载中..." 
-                  : selectedCards.size > 0 
-                    ? `下载选中 (${selectedCards.size})` 
-                    : "下载全部"}
+                导出Anki
+              </Button>
+              <Button
+                onClick={() => handleBatchDownload()}
+                disabled={cards.length === 0}
+                className="inline-flex items-center px-4 py-2"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {selectedCards.size > 0 
+                  ? `下载选中 (${selectedCards.size})` 
+                  : "下载全部"}
               </Button>
             </div>
           </div>
 
+          {generationJobId !== null && (
+            <GenerationJobPanel
+              jobId={generationJobId}
+              onFinished={handleGenerationFinished}
+              onClose={() => setGenerationJobId(null)}
+            />
+          )}
+
           {cards.length > 0 ? (
             <>
             {/* Search Bar */}
@@ -731,35 +891,22 @@ export default function FileManagementPage() {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
                 <Input
                   type="text"
-                  placeholder="搜索泰语单词、中文翻译或发音..."
+                  placeholder="在所有课程中搜索泰语、中文、发音或例句..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
                 />
               </div>
+              <div className="mt-3">
+                <TagFilter tags={tags} selected={selectedTag} onSelect={setSelectedTag} />
+              </div>
               <p className="text-sm text-gray-600 mt-2">
-                基础泰语{selectedLevel} - 找到 {filteredCards.length} 张卡片，共 {cards.length} 张
+                {searchQuery
+                  ? isSearching ? "搜索中..." : `所有课程 - 找到 ${filteredCards.length} 张卡片`
+                  : `${courseTitle(selectedLevel)} - 已显示 ${filteredCards.length} 张卡片，共 ${total} 张`}
               </p>
             </div>
 
-            {/* Download Progress */}
-            {downloadProgress && (
-              <div className="mb-6 bg-blue-50 rounded-lg p-4">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-blue-900">
-                    {downloadProgress.status}
-                  </span>
-                  <span className="text-sm text-blue-700">
-                    {downloadProgress.current} / {downloadProgress.total}
-                  </span>
-                </div>
-                <Progress 
-                  value={(downloadProgress.current / downloadProgress.total) * 100} 
-                  className="h-2"
-                />
-              </div>
-            )}
-
             {/* Cards List */}
             <div className="space-y-3 max-h-96 overflow-y-auto">
                 {filteredCards.map((card, index) => {
@@ -788,21 +935,44 @@ export default function FileManagementPage() {
                         <span className="text-2xl" style={{fontFamily: 'system-ui, -apple-system, sans-serif'}}>{card.thai}</span>
                         <span className="text-gray-600">{card.chinese}</span>
                         <span className="text-sm text-gray-500">({card.pronunciation})</span>
+                        {searchQuery && (
+                          <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded-full">
+                            {courseTitle(card.level)}
+                          </span>
+                        )}
+                        {card.part_of_speech && (
+                          <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
+                            {partOfSpeechLabels[card.part_of_speech]}
+                          </span>
+                        )}
                         {isNewlyUploaded && (
                           <span className="text-xs bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full font-medium">
                             新上传
                           </span>
                         )}
-                        {card.word_audio && card.example_audio && !isNewlyUploaded && (
+                        {card.word_audio && card.example_audio && !card.media_stale && !isNewlyUploaded && (
                           <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full font-medium">
                             已生成音频
                           </span>
                         )}
+                        {card.media_stale && (
+                          <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full font-medium">
+                            需重新生成
+                          </span>
+                        )}
                       </div>
                       {card.example && (
                         <p className="text-sm text-gray-500 mt-1" style={{fontFamily: 'system-ui, -apple-system, sans-serif'}}>{card.example}</p>
                       )}
+                      {card.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {card.tags.map(tag => (
+                            <span key={tag} className="text-xs text-blue-600">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
                     </div>
+                    {canWriteCards && (
                     <div className="flex items-center gap-2">
                       <Button
                         variant="outline"
@@ -821,14 +991,20 @@ export default function FileManagementPage() {
                         <Trash2 className="w-3 h-3" />
                       </Button>
                     </div>
+                    )}
                   </div>
                   );
                 })}
+                {!searchQuery && (
+                  <div ref={loadMoreRef} className="py-2 text-center text-sm text-gray-400">
+                    {isFetchingNextPage ? "加载中..." : hasNextPage ? "" : `已显示全部 ${total} 张卡片`}
+                  </div>
+                )}
             </div>
             </>
           ) : (
             <div className="text-center py-8 text-gray-500">
-              基础泰语{selectedLevel} 暂无卡片，请先上传JSON文件
+              {courseTitle(selectedLevel)} 暂无卡片{canWriteCards ? "，请先上传JSON文件" : ""}
             </div>
           )}
         </CardContent>
@@ -842,12 +1018,39 @@ export default function FileManagementPage() {
             <div>
               <h4 className="text-lg font-medium text-blue-900">当前文件状态</h4>
               <p className="text-blue-700">
-                已加载 <span className="font-semibold">{cards.length}</span> 张卡片
+                {courseTitle(selectedLevel)} 共 <span className="font-semibold">{total}</span> 张卡片
               </p>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <CardEditDialog card={editingCard} onClose={() => setEditingCard(null)} />
+
+      <AnkiImportDialog
+        file={ankiFile}
+        defaultLevel={uploadLevel}
+        onImported={handleImported}
+        onClose={() => {
+          setAnkiFile(null);
+          resetFileInput();
+        }}
+      />
+
+      <SpreadsheetImportDialog
+        file={spreadsheetFile}
+        defaultLevel={uploadLevel}
+        onImported={handleImported}
+        onClose={() => {
+          setSpreadsheetFile(null);
+          resetFileInput();
+        }}
+      />
+
+      {/* Course, User and Media Management Sections */}
+      {can("courses:manage") && <CourseManagement />}
+      {can("users:manage") && user && <UserManagement currentUserId={user.id} />}
+      {can("media:manage") && <MediaStorage />}
     </div>
   );
 }
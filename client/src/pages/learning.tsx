@@ -1,35 +1,65 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { Card } from "@shared/schema";
+import { Card, Lesson, ReviewGrade } from "@shared/schema";
 import { FlashCard } from "@/components/flashcard";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Play, Pause, SkipBack, SkipForward, Moon, Sun, ArrowLeft, CheckCircle, Circle, Settings, Timer, TimerOff } from "lucide-react";
+import { RefreshCw, Play, Pause, SkipBack, SkipForward, Moon, Sun, ArrowLeft, Settings, Timer, TimerOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect, useCallback } from "react";
 import { Link, useParams } from "wouter";
 import { AudioService } from "@/lib/audio";
-import { progressService } from "@/lib/progress";
+import { progressService, progressQueryKey } from "@/lib/progress";
 import { settingsService } from "@/lib/settings";
+import { apiRequest } from "@/lib/queryClient";
+import { useCourses } from "@/hooks/use-courses";
+import { useAuth } from "@/hooks/use-auth";
 // Voice settings removed - only backend audio supported
 
+// wouter only applies decodeURI to the path, which leaves characters such as "/" and "#" escaped
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const gradeButtons: { grade: ReviewGrade; label: string; key: string; className: string }[] = [
+  { grade: "again", label: "重来", key: "1", className: "text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20" },
+  { grade: "hard", label: "困难", key: "2", className: "text-orange-600 dark:text-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/20" },
+  { grade: "good", label: "良好", key: "3", className: "text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20" },
+  { grade: "easy", label: "简单", key: "4", className: "text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20" },
+];
+
 export default function LearningPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { courseTitle } = useCourses();
+  const { can } = useAuth();
+  // Guests study without saving: grades are only kept for the current set
+  const canSaveProgress = can("progress:write");
   const params = useParams();
   const level = params.level ? parseInt(params.level, 10) : 1;
+  // /learning/:level/lessons/:lessonId studies one lesson in textbook order instead of the due queue
+  const lessonId = params.lessonId ? parseInt(params.lessonId, 10) : undefined;
+  // /learning/:level/tags/:tag drills only the due cards carrying one tag
+  const tag = params.tag ? decodeParam(params.tag) : undefined;
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [isDarkMode, setIsDarkMode] = useState(false);
+  const [isDarkMode, setIsDarkMode] = useState(settingsService.getSettings().darkMode);
   const [autoPlay, setAutoPlay] = useState(false);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
-  const [completedCards, setCompletedCards] = useState<number[]>([]);
+  const [completedCards, setCompletedCards] = useState<number[]>([]); // Card IDs graded in this set
   const [showHelp, setShowHelp] = useState(false);
   const [settings, setSettings] = useState(settingsService.getSettings());
   const [autoPageTurn, setAutoPageTurn] = useState(false);
   const [autoPageInterval, setAutoPageInterval] = useState<NodeJS.Timeout | null>(null);
 
   const { data: cards = [], isLoading, refetch } = useQuery<Card[]>({
-    queryKey: ["/api/cards", level, "random"],
-    queryFn: () => fetch(`/api/cards?level=${level}&random=true&limit=10`).then(res => res.json()),
+    queryKey: lessonId ? ["/api/lessons", lessonId, "cards"] : ["/api/review/due", level, tag],
+    queryFn: () => fetch(lessonId
+      ? `/api/lessons/${lessonId}/cards`
+      : `/api/review/due?level=${level}&limit=10${tag ? `&tag=${encodeURIComponent(tag)}` : ""}`
+    ).then(res => res.json()),
     staleTime: 2 * 60 * 1000, // 2分钟缓存，避免学习时意外刷新
     refetchOnWindowFocus: false, // 窗口获得焦点时不刷新
     refetchOnMount: false, // 组件挂载时不重新获取
@@ -37,38 +67,37 @@ export default function LearningPage() {
     refetchInterval: false, // 禁用定期刷新
   });
 
-  // Load progress when cards are loaded
+  const { data: lessons = [] } = useQuery<Lesson[]>({
+    queryKey: [`/api/courses/${level}/lessons`],
+    enabled: lessonId !== undefined,
+  });
+  const lesson = lessons.find(candidate => candidate.id === lessonId);
+
+  // Start each set from the first card and report the level's saved progress
   useEffect(() => {
     if (cards.length > 0) {
-      const savedProgress = progressService.getProgress();
-      
-      if (savedProgress && savedProgress.level === level && progressService.isRecentProgress(savedProgress)) {
-        // Resume from saved progress, but ensure index is within bounds
-        const safeIndex = Math.min(savedProgress.currentIndex, cards.length - 1);
-        setCurrentIndex(safeIndex);
-        setAutoPlay(true); // Always auto-play
-        setIsDarkMode(savedProgress.darkMode);
-        setCompletedCards(savedProgress.completedCards);
-        
-        toast({
-          title: "学习进度已恢复",
-          description: `继续学习第${level}级，从第${safeIndex + 1}张卡片开始`,
-        });
-      } else {
-        // Start fresh or different level
-        setCurrentIndex(0);
-        setCompletedCards([]);
-        setAutoPlay(true); // Always auto-play
-      }
+      setCurrentIndex(0);
+      setCompletedCards([]);
+      setAutoPlay(true); // Always auto-play
+
+      progressService.getProgress(level)
+        .then(summary => {
+          const { completed, total } = progressService.getLevelCompletion(summary, level);
+          if (completed > 0) {
+            toast({
+              title: "学习进度已同步",
+              description: `本课程已完成 ${completed}/${total} 张卡片`,
+            });
+          }
+        })
+        .catch(error => console.error("Failed to load learning progress:", error));
     }
-  }, [cards.length, level, toast]);
+  }, [cards, level, toast]);
 
-  // Save progress whenever current state changes
+  // Remember the theme choice on this device
   useEffect(() => {
-    if (cards.length > 0) {
-      progressService.saveProgress(level, currentIndex, completedCards, true, isDarkMode);
-    }
-  }, [level, currentIndex, completedCards, isDarkMode, cards.length]);
+    settingsService.updateSetting('darkMode', isDarkMode);
+  }, [isDarkMode]);
 
   const audioService = AudioService.getInstance();
   
@@ -98,19 +127,47 @@ export default function LearningPage() {
     }
   }, [currentIndex, cards.length, audioService]);
 
-  // Mark current card as completed
-  const markCurrentCardCompleted = useCallback(() => {
-    if (cards.length > 0 && currentIndex < cards.length && !completedCards.includes(currentIndex)) {
-      const newCompleted = [...completedCards, currentIndex];
-      setCompletedCards(newCompleted);
-      progressService.markCardCompleted(level, currentIndex, newCompleted);
-      
+  // Grade current card, let the server schedule its next review, then move on
+  const gradeCurrentCard = useCallback(async (grade: ReviewGrade) => {
+    const card = cards[currentIndex];
+    if (!card || completedCards.includes(card.id)) {
+      return;
+    }
+
+    if (canSaveProgress) {
+      try {
+        await apiRequest(`/api/review/${card.id}`, "POST", { grade });
+      } catch (error) {
+        console.error("Failed to record review:", error);
+        toast({
+          title: "评分失败",
+          description: "请检查网络连接后重试",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const newCompleted = [...completedCards, card.id];
+    setCompletedCards(newCompleted);
+    if (canSaveProgress) {
+      progressService.markCardsCompleted([card.id])
+        .then(() => queryClient.invalidateQueries({ queryKey: progressQueryKey }))
+        .catch(error => console.error("Failed to save learning progress:", error));
+    }
+
+    if (newCompleted.length === cards.length) {
       toast({
-        title: "卡片已标记为完成",
-        description: `已完成 ${newCompleted.length}/${cards.length} 张卡片`,
+        title: lessonId ? "本课学习完成" : "本组复习完成",
+        description: (lessonId
+          ? `已学习 ${newCompleted.length} 张卡片，按 R 键重新开始本课`
+          : `已复习 ${newCompleted.length} 张卡片，按 R 键获取下一组`
+        ) + (canSaveProgress ? "" : "。登录后才会保存复习进度"),
       });
+    } else {
+      goToNext();
     }
-  }, [currentIndex, completedCards, cards.length, level, toast]);
+  }, [cards, currentIndex, completedCards, lessonId, canSaveProgress, queryClient, toast, goToNext]);
 
 
 
@@ -190,9 +247,12 @@ export default function LearningPage() {
           event.preventDefault();
           setIsDarkMode(prev => !prev);
           break;
-        case 'KeyC':
+        case 'Digit1':
+        case 'Digit2':
+        case 'Digit3':
+        case 'Digit4':
           event.preventDefault();
-          markCurrentCardCompleted();
+          gradeCurrentCard(gradeButtons[parseInt(event.code.slice(-1), 10) - 1].grade);
           break;
         case 'KeyT':
           event.preventDefault();
@@ -209,8 +269,8 @@ export default function LearningPage() {
           setCurrentIndex(0);
           setCompletedCards([]);
           toast({
-            title: "换一组",
-            description: "已重新获取随机卡片",
+            title: lessonId ? "重新开始" : "换一组",
+            description: lessonId ? "已从本课第一张卡片重新开始" : "已重新获取待复习卡片",
           });
           break;
         case 'Escape':
@@ -228,7 +288,7 @@ export default function LearningPage() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [goToNext, goToPrev, autoPageTurn, showHelp, refetch, audioService, setCurrentIndex, setCompletedCards, toast]);
+  }, [goToNext, goToPrev, gradeCurrentCard, autoPageTurn, showHelp, lessonId, refetch, audioService, setCurrentIndex, setCompletedCards, toast]);
 
   // Touch/swipe support
   const handleTouchStart = (e: React.TouchEvent) => {
@@ -288,7 +348,9 @@ export default function LearningPage() {
               </Button>
             </Link>
             <div className="text-sm font-medium">
-              基础泰语{level}
+              {courseTitle(level)}
+              {lesson && <span className="text-gray-500 dark:text-gray-400"> · {lesson.title}</span>}
+              {tag && <span className="text-gray-500 dark:text-gray-400"> · #{tag}</span>}
             </div>
           </div>
           
@@ -364,13 +426,17 @@ export default function LearningPage() {
           <div className="flex-1 flex items-center justify-center text-center px-4">
             <div className="space-y-6">
               <h2 className="text-3xl font-bold text-gray-700 dark:text-gray-300">
-                第{level}级课程
+                {courseTitle(level)}
               </h2>
               <p className="text-xl text-gray-600 dark:text-gray-400">
-                暂无学习卡片
+                {lessonId ? "本课暂无卡片" : "暂无待复习卡片"}
               </p>
               <p className="text-gray-500 dark:text-gray-500">
-                该级别还没有学习内容，请联系管理员添加卡片。
+                {lessonId
+                  ? "该课还没有学习内容。"
+                  : tag
+                    ? "该标签的卡片都已按计划复习完毕，或还没有带此标签的卡片。"
+                    : "该级别的卡片都已按计划复习完毕，或还没有学习内容。"}
               </p>
             </div>
           </div>
@@ -392,25 +458,20 @@ export default function LearningPage() {
                   <SkipBack className="w-4 h-4" />
                 </Button>
 
-                {/* Complete Button */}
-                <Button
-                  variant={completedCards.includes(currentIndex) ? "default" : "ghost"}
-                  onClick={markCurrentCardCompleted}
-                  disabled={completedCards.includes(currentIndex)}
-                  size="sm"
-                  className={`h-10 w-10 rounded-full p-0 transition-all duration-150 hover:scale-105 active:scale-95 ${
-                    completedCards.includes(currentIndex) 
-                      ? 'bg-green-600 text-white hover:bg-green-700' 
-                      : 'hover:bg-green-50 dark:hover:bg-green-900/20 text-green-600 dark:text-green-400'
-                  }`}
-                  title="标记完成 (C 键)"
-                >
-                  {completedCards.includes(currentIndex) ? (
-                    <CheckCircle className="w-4 h-4" />
-                  ) : (
-                    <Circle className="w-4 h-4" />
-                  )}
-                </Button>
+                {/* Grade Buttons */}
+                {gradeButtons.map(({ grade, label, key, className }) => (
+                  <Button
+                    key={grade}
+                    variant="ghost"
+                    onClick={() => gradeCurrentCard(grade)}
+                    disabled={completedCards.includes(cards[currentIndex]?.id)}
+                    size="sm"
+                    className={`h-10 rounded-full px-3 text-xs font-medium transition-all duration-150 hover:scale-105 active:scale-95 ${className}`}
+                    title={`${label} (${key} 键)`}
+                  >
+                    {label}
+                  </Button>
+                ))}
 
                 {/* Auto Page Toggle */}
                 <Button
@@ -442,7 +503,7 @@ export default function LearningPage() {
                     setCompletedCards([]);
                     toast({
                       title: "换一组",
-                      description: "已重新获取随机卡片",
+                      description: "已重新获取待复习卡片",
                     });
                   }}
                   size="sm"
@@ -512,8 +573,8 @@ export default function LearningPage() {
                   <span className="text-xs mt-1">上一张</span>
                 </div>
                 <div className="flex flex-col items-center p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                  <span className="font-mono text-xs bg-gray-200 dark:bg-gray-600 px-2 py-1 rounded">C</span>
-                  <span className="text-xs mt-1">完成</span>
+                  <span className="font-mono text-xs bg-gray-200 dark:bg-gray-600 px-2 py-1 rounded">1-4</span>
+                  <span className="text-xs mt-1">评分</span>
                 </div>
                 <div className="flex flex-col items-center p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
                   <span className="font-mono text-xs bg-gray-200 dark:bg-gray-600 px-2 py-1 rounded">T</span>
@@ -0,0 +1,59 @@
+CREATE TABLE "import_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" text NOT NULL,
+	"filename" text,
+	"created_by" integer,
+	"card_ids" jsonb NOT NULL,
+	"replaced_cards" jsonb NOT NULL,
+	"created_at" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "job_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" integer NOT NULL,
+	"card_id" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"updated_at" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"created_by" integer,
+	"template" text,
+	"created_at" bigint NOT NULL,
+	"updated_at" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "progress" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"card_id" integer NOT NULL,
+	"completed_at" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "review_states" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"card_id" integer NOT NULL,
+	"ease" double precision DEFAULT 2.5 NOT NULL,
+	"interval" double precision DEFAULT 0 NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"lapses" integer DEFAULT 0 NOT NULL,
+	"due_at" bigint NOT NULL,
+	"last_reviewed_at" bigint
+);
+--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "word_audio_provider" text;--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "word_audio_voice" text;--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "example_audio_provider" text;--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "example_audio_voice" text;--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "media_stale" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'learner' NOT NULL;--> statement-breakpoint
+CREATE INDEX "job_items_job_idx" ON "job_items" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "job_items_status_idx" ON "job_items" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "progress_user_card_idx" ON "progress" USING btree ("user_id","card_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "review_states_user_card_idx" ON "review_states" USING btree ("user_id","card_id");
\ No newline at end of file
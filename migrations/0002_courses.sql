@@ -0,0 +1,15 @@
+CREATE TABLE "courses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"color" text DEFAULT 'blue' NOT NULL,
+	"icon" text DEFAULT 'book-open' NOT NULL,
+	"ordering" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "courses" ("id", "title", "description", "color", "icon", "ordering") VALUES
+	(1, '基础泰语1', '入门级泰语，学习基本问候和日常用语', 'green', 'book-open', 1),
+	(2, '基础泰语2', '进阶基础泰语，掌握更多实用对话', 'blue', 'graduation-cap', 2),
+	(3, '基础泰语3', '中级泰语，学习复杂句型和语法', 'purple', 'trophy', 3),
+	(4, '基础泰语4', '高级基础泰语，掌握流利对话技巧', 'orange', 'star', 4);--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('courses', 'id'), (SELECT MAX("id") FROM "courses"));
@@ -0,0 +1,11 @@
+CREATE TABLE "lessons" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"course_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"ordering" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "lesson_id" integer;--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "lesson_position" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "lessons_course_title_idx" ON "lessons" USING btree ("course_id","title");--> statement-breakpoint
+CREATE INDEX "cards_lesson_idx" ON "cards" USING btree ("lesson_id");
\ No newline at end of file
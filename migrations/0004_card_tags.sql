@@ -0,0 +1,2 @@
+ALTER TABLE "cards" ADD COLUMN "part_of_speech" text;--> statement-breakpoint
+ALTER TABLE "cards" ADD COLUMN "tags" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "media_assets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"path" text NOT NULL,
+	"card_id" integer,
+	"kind" text NOT NULL,
+	"provider" text,
+	"size" integer NOT NULL,
+	"checksum" text NOT NULL,
+	"created_at" bigint NOT NULL,
+	CONSTRAINT "media_assets_path_unique" UNIQUE("path")
+);
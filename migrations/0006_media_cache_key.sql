@@ -0,0 +1,2 @@
+ALTER TABLE "media_assets" ADD COLUMN "cache_key" text;--> statement-breakpoint
+CREATE INDEX "media_assets_cache_key_idx" ON "media_assets" USING btree ("cache_key");
\ No newline at end of file
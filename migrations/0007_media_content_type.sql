@@ -0,0 +1,9 @@
+ALTER TABLE "media_assets" ADD COLUMN "content_type" text;--> statement-breakpoint
+UPDATE "media_assets" SET "content_type" = CASE
+  WHEN lower("path") LIKE '%.wav' THEN 'audio/wav'
+  WHEN lower("path") LIKE '%.mp3' THEN 'audio/mpeg'
+  WHEN lower("path") LIKE '%.svg' THEN 'image/svg+xml'
+  WHEN lower("path") LIKE '%.png' THEN 'image/png'
+  ELSE 'application/octet-stream'
+END;--> statement-breakpoint
+ALTER TABLE "media_assets" ALTER COLUMN "content_type" SET NOT NULL;
@@ -0,0 +1,3 @@
+-- Grades every anonymous visitor shared under the guest id; guests can no longer write progress
+DELETE FROM "review_states" WHERE "user_id" = 0;--> statement-breakpoint
+DELETE FROM "progress" WHERE "user_id" = 0;
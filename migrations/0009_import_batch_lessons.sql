@@ -0,0 +1 @@
+ALTER TABLE "import_batches" ADD COLUMN "lesson_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
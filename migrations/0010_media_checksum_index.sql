@@ -0,0 +1 @@
+CREATE INDEX "media_assets_checksum_idx" ON "media_assets" USING btree ("checksum");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "job_items" ADD COLUMN "claimed_by" text;--> statement-breakpoint
+ALTER TABLE "job_items" ADD COLUMN "lease_expires_at" bigint;
\ No newline at end of file
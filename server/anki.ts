@@ -0,0 +1,393 @@
+import JSZip from "jszip";
+import Database from "better-sqlite3";
+import { createHash, randomBytes } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { InvalidArchiveError } from "./archive";
+import { saveImportedMedia, releaseCardMedia } from "./media-assets";
+import { getMediaStore, deferredMediaStream } from "./media-store";
+import { tagSchema, type AnkiImportRequest, type AnkiModelSummary, type Card, type UploadCard } from "@shared/schema";
+
+const FIELD_SEPARATOR = "\x1f";
+const AUDIO_EXTENSIONS = [".mp3", ".wav"];
+
+// Note type written by the exporter; field order matters because Anki stores fields by position
+const EXPORT_FIELDS = ["Thai", "Chinese", "Pronunciation", "Example", "ExampleTranslation", "WordAudio", "ExampleAudio"];
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1, name: "Default", mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+  rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true, hardFactor: 1.2 },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+};
+
+interface AnkiModel {
+  id: number | string;
+  name: string;
+  flds: { name: string; ord: number }[];
+}
+
+interface AnkiNoteRow {
+  mid: number;
+  flds: string;
+  tags: string; // Space-separated, with a leading and trailing space
+}
+
+export interface AnkiPackage {
+  models: AnkiModel[];
+  notes: AnkiNoteRow[];
+  zip: JSZip;
+  // Media filename -> entry name inside the .apkg
+  media: Map<string, string>;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Anki fields are HTML; cards store plain text
+function htmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Audio-only fields would be blank as text; show the sound tag so they can be recognised when mapping
+function sampleText(html: string): string {
+  return htmlToText(html) || (html.match(/\[sound:[^\]]+\]/)?.[0] ?? "");
+}
+
+function checksum(text: string): number {
+  return parseInt(createHash("sha1").update(htmlToText(text)).digest("hex").slice(0, 8), 16);
+}
+
+// Stable per card so re-importing an export into Anki updates notes instead of duplicating them
+function noteGuid(card: Card): string {
+  return createHash("sha1").update(`extthai:${card.id}`).digest("base64").slice(0, 10);
+}
+
+// Anki uses "::" as the subdeck separator, so it cannot appear inside a course title
+function deckName(courseTitle: string): string {
+  return `泰语::${courseTitle.replace(/::/g, ":")}`;
+}
+
+// Anki tags are space-separated, so spaces inside a tag become underscores
+function ankiTags(tags: string[]): string {
+  return tags.length > 0 ? ` ${tags.map(tag => tag.replace(/\s+/g, "_")).join(" ")} ` : "";
+}
+
+// Anki tags that would not pass tagSchema (e.g. contain a comma) are dropped rather than failing the row
+function cardTags(tags: string): string[] {
+  const valid = tags.trim().split(/\s+/).filter(tag => tagSchema.safeParse(tag).success);
+  return Array.from(new Set(valid)).slice(0, 20);
+}
+
+async function withTempDatabase<T>(fn: (dbPath: string) => Promise<T>): Promise<T> {
+  const dbPath = path.join(os.tmpdir(), `anki_${randomBytes(8).toString("hex")}.sqlite`);
+  try {
+    return await fn(dbPath);
+  } finally {
+    await fs.unlink(dbPath).catch(() => {});
+  }
+}
+
+// Build an .apkg (legacy collection.anki2 format, readable by every Anki version).
+// One deck per course; word and example audio are embedded as [sound:] tags.
+export async function buildAnkiPackage(cardList: Card[]): Promise<JSZip> {
+  const zip = new JSZip();
+  const mediaMap: Record<string, string> = {};
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  const modelId = now;
+
+  const addSound = async (stored: string | null): Promise<string> => {
+    if (!stored) return "";
+    const filename = path.basename(stored);
+    // Cards with the same text share one audio file; the package needs it only once
+    if (Object.values(mediaMap).includes(filename)) return `[sound:${filename}]`;
+    const key = `generated/audio/${filename}`;
+    if (!(await getMediaStore().stat(key))) return "";
+    const entry = String(Object.keys(mediaMap).length);
+    mediaMap[entry] = filename;
+    zip.file(entry, deferredMediaStream(key));
+    return `[sound:${filename}]`;
+  };
+
+  const levels = Array.from(new Set(cardList.map(card => card.level))).sort((a, b) => a - b);
+  const deckIds = new Map(levels.map((level, index) => [level, now + 1 + index]));
+  const deck = (id: number, name: string) => ({
+    id, name, mod: nowSeconds, usn: -1, desc: "", dyn: 0, conf: 1, collapsed: false,
+    lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0], extendNew: 10, extendRev: 50,
+  });
+  // Anki expects the built-in Default deck to exist in every collection
+  const decks: Record<string, object> = { 1: deck(1, "Default") };
+  const courseTitles = new Map((await storage.getCourses()).map(course => [course.id, course.title]));
+  for (const [level, id] of Array.from(deckIds.entries())) {
+    decks[id] = deck(id, deckName(courseTitles.get(level) ?? `课程${level}`));
+  }
+
+  const model = {
+    id: modelId,
+    name: "Thai Flashcard",
+    type: 0,
+    mod: nowSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckIds.get(levels[0]),
+    flds: EXPORT_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+    tmpls: [{
+      name: "Card 1",
+      ord: 0,
+      qfmt: "<div class=thai>{{Thai}}</div>{{WordAudio}}",
+      afmt: "{{FrontSide}}<hr id=answer><div>{{Pronunciation}}</div><div class=chinese>{{Chinese}}</div>"
+        + "<br><div class=thai>{{Example}}</div>{{ExampleAudio}}<div>{{ExampleTranslation}}</div>",
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+    }],
+    css: ".card { font-family: sans-serif; font-size: 22px; text-align: center; }\n.thai { font-size: 36px; }\n.chinese { font-size: 28px; }",
+    latexPre: "",
+    latexPost: "",
+    tags: [],
+    vers: [],
+    req: [[0, "any", [0]]],
+  };
+
+  await withTempDatabase(async dbPath => {
+    const db = new Database(dbPath);
+    try {
+      db.exec(ANKI_SCHEMA);
+      db.prepare("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')").run(
+        Math.floor(new Date().setHours(0, 0, 0, 0) / 1000),
+        now,
+        now,
+        JSON.stringify({ nextPos: cardList.length + 1, curModel: modelId, curDeck: deckIds.get(levels[0]), activeDecks: [deckIds.get(levels[0])] }),
+        JSON.stringify({ [modelId]: model }),
+        JSON.stringify(decks),
+        JSON.stringify({ 1: DEFAULT_DECK_CONFIG })
+      );
+
+      const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+      const insertCard = db.prepare("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')");
+
+      for (let index = 0; index < cardList.length; index++) {
+        const card = cardList[index];
+        const fields = [
+          escapeHtml(card.thai),
+          escapeHtml(card.chinese),
+          escapeHtml(card.pronunciation),
+          escapeHtml(card.example),
+          escapeHtml(card.example_translation),
+          await addSound(card.word_audio),
+          await addSound(card.example_audio),
+        ];
+        const noteId = now + index;
+        insertNote.run(noteId, noteGuid(card), modelId, nowSeconds, ankiTags(card.tags), fields.join(FIELD_SEPARATOR), card.thai, checksum(fields[0]));
+        insertCard.run(noteId, noteId, deckIds.get(card.level), nowSeconds, index + 1);
+      }
+    } finally {
+      db.close();
+    }
+    zip.file("collection.anki2", await fs.readFile(dbPath));
+  });
+
+  zip.file("media", JSON.stringify(mediaMap));
+  return zip;
+}
+
+export async function readAnkiPackage(buffer: Buffer): Promise<AnkiPackage> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw new InvalidArchiveError("File is not a valid .apkg package");
+  }
+
+  // Newer Anki writes collection.anki21 next to a placeholder collection.anki2
+  const collection = zip.file("collection.anki21") ?? zip.file("collection.anki2");
+  if (!collection) {
+    if (zip.file("collection.anki21b")) {
+      throw new InvalidArchiveError("This package uses the compressed Anki 2.1.50+ format; export it with \"Support older Anki versions\" enabled");
+    }
+    throw new InvalidArchiveError("Package has no Anki collection");
+  }
+
+  const media = new Map<string, string>();
+  const mediaFile = zip.file("media");
+  if (mediaFile) {
+    try {
+      const entries = JSON.parse(await mediaFile.async("string")) as Record<string, string>;
+      Object.entries(entries).forEach(([entry, filename]) => media.set(filename, entry));
+    } catch (error) {
+      throw new InvalidArchiveError("Package media list is not valid JSON");
+    }
+  }
+
+  return await withTempDatabase(async dbPath => {
+    await fs.writeFile(dbPath, await collection.async("nodebuffer"));
+    let db: Database.Database;
+    try {
+      db = new Database(dbPath, { readonly: true });
+    } catch (error) {
+      throw new InvalidArchiveError("Package collection is not a valid database");
+    }
+    try {
+      const col = db.prepare("SELECT models FROM col LIMIT 1").get() as { models: string } | undefined;
+      const models = col ? Object.values(JSON.parse(col.models) as Record<string, AnkiModel>) : [];
+      const notes = db.prepare("SELECT mid, flds, tags FROM notes ORDER BY id").all() as AnkiNoteRow[];
+      return { models, notes, zip, media };
+    } catch (error) {
+      throw new InvalidArchiveError("Package collection could not be read");
+    } finally {
+      db.close();
+    }
+  });
+}
+
+// Note types in the package, with their fields and a few sample notes for the mapping step
+export function summarizeAnkiModels(pkg: AnkiPackage): AnkiModelSummary[] {
+  return pkg.models.map(model => {
+    const fields = [...model.flds].sort((a, b) => a.ord - b.ord).map(field => field.name);
+    const notes = pkg.notes.filter(note => String(note.mid) === String(model.id));
+    return {
+      id: String(model.id),
+      name: model.name,
+      fields,
+      noteCount: notes.length,
+      samples: notes.slice(0, 3).map(note => note.flds.split(FIELD_SEPARATOR).map(sampleText)),
+    };
+  }).filter(model => model.noteCount > 0);
+}
+
+// Copy the first [sound:] file of a field into generated/audio
+async function extractSound(
+  pkg: AnkiPackage,
+  html: string | undefined,
+  asset: { kind: "word_audio" | "example_audio"; card_id: number }
+): Promise<string | null> {
+  const match = html?.match(/\[sound:([^\]]+)\]/);
+  if (!match) return null;
+  const filename = match[1];
+  const extension = path.extname(filename).toLowerCase();
+  const entry = pkg.media.get(filename);
+  const file = entry !== undefined ? pkg.zip.file(entry) : null;
+  if (!file || !AUDIO_EXTENSIONS.includes(extension)) return null;
+
+  return saveImportedMedia(await file.async("nodebuffer"), extension, { ...asset, provider: "anki" });
+}
+
+export interface AnkiNotes {
+  cards: UploadCard[];
+  sounds: Map<UploadCard, { word_audio?: string; example_audio?: string }>; // Audio field HTML, extracted after the merge
+}
+
+// Read the notes of one note type as upload cards using the chosen field mapping, so they are diffed and
+// merged like any other upload
+export function readAnkiNotes(pkg: AnkiPackage, request: AnkiImportRequest): AnkiNotes {
+  const model = pkg.models.find(candidate => String(candidate.id) === request.modelId);
+  if (!model) {
+    throw new InvalidArchiveError("Note type not found in package");
+  }
+
+  const fieldIndex = new Map(model.flds.map(field => [field.name, field.ord]));
+  const notes = pkg.notes.filter(note => String(note.mid) === request.modelId);
+  const value = (fields: string[], name: string | undefined) =>
+    name !== undefined && fieldIndex.has(name) ? fields[fieldIndex.get(name)!] : undefined;
+
+  const { mapping } = request;
+  const result: AnkiNotes = { cards: [], sounds: new Map() };
+  for (const note of notes) {
+    const fields = note.flds.split(FIELD_SEPARATOR);
+    const card: UploadCard = {
+      thai: htmlToText(value(fields, mapping.thai) ?? ""),
+      chinese: htmlToText(value(fields, mapping.chinese) ?? ""),
+      pronunciation: htmlToText(value(fields, mapping.pronunciation) ?? ""),
+      example: htmlToText(value(fields, mapping.example) ?? ""),
+      example_translation: htmlToText(value(fields, mapping.example_translation) ?? ""),
+      level: request.level,
+      tags: cardTags(note.tags),
+    };
+    // Notes without the two required fields cannot become cards
+    if (!card.thai || !card.chinese) continue;
+
+    result.cards.push(card);
+    result.sounds.set(card, {
+      word_audio: value(fields, mapping.word_audio),
+      example_audio: value(fields, mapping.example_audio),
+    });
+  }
+  return result;
+}
+
+// Attach the notes' audio to cards the upload created or overwrote; returns the updated cards.
+// An overwritten card's earlier audio is released, as with archive media.
+export async function importAnkiSounds(
+  pkg: AnkiPackage,
+  notes: AnkiNotes,
+  imported: Card[],
+  incoming: Map<number, UploadCard>
+): Promise<Card[]> {
+  const result: Card[] = [];
+  for (const card of imported) {
+    const upload = incoming.get(card.id);
+    const sounds = upload && notes.sounds.get(upload);
+    const wordAudio = await extractSound(pkg, sounds?.word_audio, { kind: "word_audio", card_id: card.id });
+    const exampleAudio = await extractSound(pkg, sounds?.example_audio, { kind: "example_audio", card_id: card.id });
+    if (!wordAudio && !exampleAudio) {
+      result.push(card);
+      continue;
+    }
+
+    // A note without one of the sounds leaves an overwritten card's existing file for it in place
+    const changes: Partial<Card> = {};
+    if (wordAudio) Object.assign(changes, { word_audio: wordAudio, word_audio_provider: "anki", word_audio_voice: null });
+    if (exampleAudio) Object.assign(changes, { example_audio: exampleAudio, example_audio_provider: "anki", example_audio_voice: null });
+    result.push(await storage.updateCard(card.id, changes));
+    await releaseCardMedia([card]);
+  }
+  return result;
+}
@@ -0,0 +1,205 @@
+import JSZip from "jszip";
+import path from "path";
+import type { Readable } from "stream";
+import { storage } from "./storage";
+import { findMissingCourses } from "./courses";
+import { renderCardImage } from "./card-image";
+import { defaultCardImageTemplate } from "./media";
+import { saveImportedMedia, releaseCardMedia } from "./media-assets";
+import { getMediaStore, deferredMediaStream } from "./media-store";
+import { cardArchiveManifestSchema, type Card, type MediaKind, type CardArchiveCard, type CardArchiveManifest, type UploadCard } from "@shared/schema";
+
+const MANIFEST_NAME = "manifest.json";
+const AUDIO_EXTENSIONS = [".mp3", ".wav"];
+const IMAGE_EXTENSIONS = [".png", ".svg"];
+
+export class InvalidArchiveError extends Error {}
+
+// Stream of a card's media file, or null when the store no longer has it
+async function generatedMediaStream(kind: "audio" | "images", storedPath: string): Promise<Readable | null> {
+  const key = `generated/${kind}/${path.basename(storedPath)}`;
+  return (await getMediaStore().stat(key)) ? deferredMediaStream(key) : null;
+}
+
+// Archive entry names keep the Thai word for readability but drop characters that are unsafe in paths
+function archiveName(index: number, card: Card, suffix: string): string {
+  const word = card.thai.replace(/[\\/:*?"<>|]/g, "_");
+  return `card_${index + 1}${suffix}_${word}`;
+}
+
+// ZIP with images/, audio/ and a manifest.json that POST /api/cards/upload can re-import.
+// Media files are streamed from the store while the ZIP is written, so large exports are not held in memory.
+export async function buildCardArchive(cardList: Card[]): Promise<JSZip> {
+  const zip = new JSZip();
+  const entries: CardArchiveCard[] = [];
+
+  // Lessons are exported by title so they can be matched or re-created in another database
+  const lessonTitles = new Map<number, string>();
+  for (const lessonId of Array.from(new Set(cardList.map(card => card.lesson_id)))) {
+    if (lessonId === null) continue;
+    const lesson = await storage.getLesson(lessonId);
+    if (lesson) lessonTitles.set(lessonId, lesson.title);
+  }
+
+  for (let index = 0; index < cardList.length; index++) {
+    const card = cardList[index];
+    const entry: CardArchiveCard = {
+      thai: card.thai,
+      chinese: card.chinese,
+      pronunciation: card.pronunciation,
+      example: card.example,
+      example_translation: card.example_translation,
+      level: card.level,
+      lesson: card.lesson_id !== null ? lessonTitles.get(card.lesson_id) : undefined,
+      part_of_speech: card.part_of_speech,
+      tags: card.tags,
+      word_audio: null,
+      example_audio: null,
+      word_audio_provider: card.word_audio_provider,
+      word_audio_voice: card.word_audio_voice,
+      example_audio_provider: card.example_audio_provider,
+      example_audio_voice: card.example_audio_voice,
+      card_image: null,
+      media_stale: card.media_stale,
+    };
+
+    for (const [field, suffix] of [["word_audio", "_word"], ["example_audio", "_example"]] as const) {
+      const stored = card[field];
+      if (!stored) continue;
+      const audio = await generatedMediaStream("audio", stored);
+      if (!audio) continue;
+      const name = `audio/${archiveName(index, card, suffix)}${path.extname(stored).toLowerCase()}`;
+      zip.file(name, audio);
+      entry[field] = name;
+    }
+
+    const imageName = `images/${archiveName(index, card, "")}`;
+    const image = card.card_image ? await generatedMediaStream("images", card.card_image) : null;
+    if (card.card_image && image) {
+      const name = `${imageName}${path.extname(card.card_image).toLowerCase()}`;
+      zip.file(name, image);
+      entry.card_image = name;
+    } else {
+      try {
+        zip.file(`${imageName}.png`, await renderCardImage(card, defaultCardImageTemplate()));
+        entry.card_image = `${imageName}.png`;
+      } catch (error) {
+        console.error(`Failed to render image for card ${card.id}:`, error);
+      }
+    }
+
+    entries.push(entry);
+  }
+
+  const manifest: CardArchiveManifest = {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    cards: entries,
+  };
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  return zip;
+}
+
+export function isZipFile(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50;
+}
+
+// Copy one media file out of the archive into generated/; returns the stored path or null
+async function extractMedia(
+  zip: JSZip,
+  archivePath: string | null | undefined,
+  asset: { kind: MediaKind; card_id: number; provider?: string | null }
+): Promise<string | null> {
+  if (!archivePath) return null;
+  const extension = path.extname(archivePath).toLowerCase();
+  const allowed = asset.kind === "card_image" ? IMAGE_EXTENSIONS : AUDIO_EXTENSIONS;
+  const file = zip.file(archivePath);
+  if (!file || !allowed.includes(extension)) return null;
+
+  return saveImportedMedia(await file.async("nodebuffer"), extension, asset);
+}
+
+export interface CardArchive {
+  zip: JSZip;
+  cards: UploadCard[];
+  entries: Map<UploadCard, CardArchiveCard>; // Media and TTS metadata of each card, looked up after the merge
+}
+
+// Read an exported archive's manifest as upload cards, so it is diffed and merged like any other upload
+export async function readCardArchive(buffer: Buffer): Promise<CardArchive> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw new InvalidArchiveError("File is not a valid ZIP archive");
+  }
+
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) {
+    throw new InvalidArchiveError(`Archive has no ${MANIFEST_NAME}`);
+  }
+
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(await manifestFile.async("string"));
+  } catch (error) {
+    throw new InvalidArchiveError(`${MANIFEST_NAME} is not valid JSON`);
+  }
+  const manifest = cardArchiveManifestSchema.parse(manifestJson);
+
+  const missingCourses = await findMissingCourses(manifest.cards.map(entry => entry.level));
+  if (missingCourses.length > 0) {
+    throw new InvalidArchiveError(`Archive references unknown course: ${missingCourses.join(", ")}`);
+  }
+
+  const entries = new Map<UploadCard, CardArchiveCard>();
+  const cards = manifest.cards.map(entry => {
+    const card: UploadCard = {
+      thai: entry.thai,
+      chinese: entry.chinese,
+      pronunciation: entry.pronunciation,
+      example: entry.example,
+      example_translation: entry.example_translation,
+      level: entry.level,
+      lesson: entry.lesson,
+      part_of_speech: entry.part_of_speech,
+      tags: entry.tags,
+    };
+    entries.set(card, entry);
+    return card;
+  });
+  return { zip, cards, entries };
+}
+
+// Attach the archive's media to cards the upload created or overwrote; returns the updated cards.
+// The media matches the archive's text, so an overwritten card's earlier files are released.
+export async function importArchiveMedia(archive: CardArchive, imported: Card[], incoming: Map<number, UploadCard>): Promise<Card[]> {
+  const result: Card[] = [];
+  for (const card of imported) {
+    const upload = incoming.get(card.id);
+    const entry = upload && archive.entries.get(upload);
+    if (!entry || !(entry.word_audio || entry.example_audio || entry.card_image)) {
+      result.push(card);
+      continue;
+    }
+
+    const wordAudio = await extractMedia(archive.zip, entry.word_audio,
+      { kind: "word_audio", card_id: card.id, provider: entry.word_audio_provider });
+    const exampleAudio = await extractMedia(archive.zip, entry.example_audio,
+      { kind: "example_audio", card_id: card.id, provider: entry.example_audio_provider });
+    const cardImage = await extractMedia(archive.zip, entry.card_image, { kind: "card_image", card_id: card.id });
+
+    result.push(await storage.updateCard(card.id, {
+      word_audio: wordAudio,
+      word_audio_provider: wordAudio ? entry.word_audio_provider ?? null : null,
+      word_audio_voice: wordAudio ? entry.word_audio_voice ?? null : null,
+      example_audio: exampleAudio,
+      example_audio_provider: exampleAudio ? entry.example_audio_provider ?? null : null,
+      example_audio_voice: exampleAudio ? entry.example_audio_voice ?? null : null,
+      card_image: cardImage,
+      media_stale: entry.media_stale ?? false,
+    }));
+    await releaseCardMedia([card]);
+  }
+  return result;
+}
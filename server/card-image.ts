@@ -0,0 +1,166 @@
+import path from "path";
+import type { CanvasRenderingContext2D } from "canvas";
+import type { Card, CardImageTemplate } from "@shared/schema";
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const FONT_DIR = path.join(process.cwd(), "server", "assets", "fonts");
+const THAI_FONT = "Noto Sans Thai";
+// Thai text always uses the bundled font; Chinese and Latin fall back to whatever fonts the host has installed
+const FONT_STACK = `"${THAI_FONT}", "Noto Sans CJK SC", "Noto Sans SC", sans-serif`;
+
+interface TemplateStyle {
+  background: string;
+  border: string;
+  text: string;
+  muted: string;
+  divider: string;
+  exampleBackground: string | null;
+  exampleBorder: string | null;
+  exampleTitle: string;
+  exampleText: string;
+  exampleTranslation: string;
+}
+
+const templateStyles: Record<CardImageTemplate, TemplateStyle> = {
+  classic: {
+    background: "#ffffff",
+    border: "#e5e7eb",
+    text: "#1f2937",
+    muted: "#6b7280",
+    divider: "#d1d5db",
+    exampleBackground: "#fef3c7",
+    exampleBorder: "#f59e0b",
+    exampleTitle: "#92400e",
+    exampleText: "#78350f",
+    exampleTranslation: "#92400e",
+  },
+  minimal: {
+    background: "#ffffff",
+    border: "#ffffff",
+    text: "#111827",
+    muted: "#9ca3af",
+    divider: "#e5e7eb",
+    exampleBackground: null,
+    exampleBorder: null,
+    exampleTitle: "#6b7280",
+    exampleText: "#374151",
+    exampleTranslation: "#6b7280",
+  },
+  dark: {
+    background: "#111827",
+    border: "#374151",
+    text: "#f9fafb",
+    muted: "#9ca3af",
+    divider: "#374151",
+    exampleBackground: "#1f2937",
+    exampleBorder: "#3b82f6",
+    exampleTitle: "#93c5fd",
+    exampleText: "#f3f4f6",
+    exampleTranslation: "#d1d5db",
+  },
+};
+
+type CanvasModule = typeof import("canvas");
+let canvasModule: Promise<CanvasModule> | null = null;
+
+// canvas is a native module; load it on first use so the server still starts where it is not built
+function loadCanvas(): Promise<CanvasModule> {
+  if (!canvasModule) {
+    canvasModule = import("canvas").then(mod => {
+      mod.registerFont(path.join(FONT_DIR, "NotoSansThai-Regular.ttf"), { family: THAI_FONT, weight: "normal" });
+      mod.registerFont(path.join(FONT_DIR, "NotoSansThai-Bold.ttf"), { family: THAI_FONT, weight: "bold" });
+      return mod;
+    });
+    canvasModule.catch(() => {
+      canvasModule = null;
+    });
+  }
+  return canvasModule;
+}
+
+// Break text into lines no wider than maxWidth.
+// Thai has no spaces between words, so split on ICU word boundaries instead of whitespace.
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const segmenter = new Intl.Segmenter("th", { granularity: "word" });
+  const lines: string[] = [];
+  let line = "";
+
+  for (const { segment } of Array.from(segmenter.segment(text))) {
+    const candidate = line + segment;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line.trimEnd());
+      line = segment.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line.trimEnd());
+  return lines;
+}
+
+function drawCentered(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  font: string,
+  color: string,
+  y: number,
+  maxWidth: number,
+  lineHeight: number,
+  maxLines: number
+): number {
+  ctx.font = font;
+  ctx.fillStyle = color;
+  const lines = wrapText(ctx, text, maxWidth).slice(0, maxLines);
+  lines.forEach((line, index) => ctx.fillText(line, WIDTH / 2, y + index * lineHeight));
+  return y + lines.length * lineHeight;
+}
+
+// Render a card as an 800x600 PNG. Thai glyphs look the same on every machine; Chinese glyphs depend on
+// the host's CJK fonts, so images rendered on different servers can differ.
+export async function renderCardImage(card: Card, template: CardImageTemplate = "classic"): Promise<Buffer> {
+  const { createCanvas } = await loadCanvas();
+  const style = templateStyles[template];
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = style.background;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.strokeStyle = style.border;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(1, 1, WIDTH - 2, HEIGHT - 2);
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "alphabetic";
+
+  drawCentered(ctx, card.thai, `bold 64px ${FONT_STACK}`, style.text, 150, 680, 72, 1);
+  drawCentered(ctx, card.pronunciation, `italic 24px ${FONT_STACK}`, style.muted, 190, 680, 28, 1);
+
+  ctx.strokeStyle = style.divider;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(100, 220);
+  ctx.lineTo(700, 220);
+  ctx.stroke();
+
+  drawCentered(ctx, card.chinese, `bold 36px ${FONT_STACK}`, style.text, 280, 680, 40, 1);
+
+  if (style.exampleBackground && style.exampleBorder) {
+    ctx.fillStyle = style.exampleBackground;
+    ctx.fillRect(60, 320, 680, 220);
+    ctx.strokeStyle = style.exampleBorder;
+    ctx.lineWidth = 4;
+    ctx.strokeRect(60, 320, 680, 220);
+  }
+
+  ctx.textAlign = "left";
+  ctx.font = `bold 20px ${FONT_STACK}`;
+  ctx.fillStyle = style.exampleTitle;
+  ctx.fillText("例句 Example:", 80, 350);
+
+  ctx.textAlign = "center";
+  const afterExample = drawCentered(ctx, card.example, `bold 28px ${FONT_STACK}`, style.exampleText, 395, 640, 36, 2);
+  drawCentered(ctx, card.example_translation, `24px ${FONT_STACK}`, style.exampleTranslation, afterExample + 14, 640, 30, 2);
+
+  return canvas.toBuffer("image/png");
+}
@@ -0,0 +1,61 @@
+import { getTableColumns } from "drizzle-orm";
+import { cards, cardSortFields, type Card, type CardSortField } from "@shared/schema";
+import type { CardCursor, CardPageRequest } from "./storage";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const cardFields = Object.keys(getTableColumns(cards)) as (keyof Card)[];
+const numericSortFields: CardSortField[] = ["id", "level"];
+
+// A malformed sort, fields or cursor parameter; reported to the client as a 400
+export class InvalidCardQueryError extends Error {}
+
+// "thai" sorts ascending and "-thai" descending; no sort means id order
+export function parseCardSort(sort: unknown): Pick<CardPageRequest, "sort" | "descending"> {
+  if (sort === undefined || sort === "") return { sort: "id", descending: false };
+  const text = String(sort);
+  const descending = text.startsWith("-");
+  const field = descending ? text.slice(1) : text;
+  if (!(cardSortFields as readonly string[]).includes(field)) {
+    throw new InvalidCardQueryError(`Invalid sort. Must be one of: ${cardSortFields.join(", ")} (prefix with - for descending)`);
+  }
+  return { sort: field as CardSortField, descending };
+}
+
+// Comma-separated card columns to return; null returns whole cards. The id is always included.
+export function parseCardFields(fields: unknown): (keyof Card)[] | null {
+  if (fields === undefined || fields === "") return null;
+  const requested = String(fields).split(",").map(field => field.trim()).filter(Boolean);
+  const unknown = requested.filter(field => !cardFields.includes(field as keyof Card));
+  if (unknown.length > 0) {
+    throw new InvalidCardQueryError(`Unknown fields: ${unknown.join(", ")}`);
+  }
+  return Array.from(new Set<keyof Card>(["id", ...requested as (keyof Card)[]]));
+}
+
+export function pickCardFields(card: Card, fields: (keyof Card)[] | null): Partial<Card> {
+  if (!fields) return card;
+  return Object.fromEntries(fields.map(field => [field, card[field]])) as Partial<Card>;
+}
+
+// Cursors are opaque to clients: the sort field, the last card's value in it and its id
+export function encodeCardCursor(card: Card, sort: CardSortField): string {
+  return Buffer.from(JSON.stringify({ sort, value: card[sort], id: card.id })).toString("base64url");
+}
+
+export function decodeCardCursor(cursor: string, sort: CardSortField): CardCursor {
+  let decoded: { sort?: unknown; value?: unknown; id?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCardQueryError("Invalid cursor");
+  }
+
+  const valueType = numericSortFields.includes(sort) ? "number" : "string";
+  if (decoded.sort !== sort || typeof decoded.value !== valueType || typeof decoded.id !== "number") {
+    // Also catches a cursor from a request with a different sort
+    throw new InvalidCardQueryError("Invalid cursor");
+  }
+  return { value: decoded.value as string | number, id: decoded.id };
+}
@@ -0,0 +1,99 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { insertCourseSchema, updateCourseSchema } from "@shared/schema";
+
+// Course IDs among `ids` that have no course row; used to reject cards pointing at a missing course
+export async function findMissingCourses(ids: number[]): Promise<number[]> {
+  const known = new Set((await storage.getCourses()).map(course => course.id));
+  return Array.from(new Set(ids)).filter(id => !known.has(id));
+}
+
+export function registerCourseRoutes(app: Express) {
+  // Public: the course selection page lists courses before anyone logs in
+  app.get("/api/courses", async (req, res) => {
+    try {
+      res.json(await storage.getCourses());
+    } catch (error) {
+      console.error("Get courses error:", error);
+      res.status(500).json({ error: "Failed to fetch courses" });
+    }
+  });
+
+  app.get("/api/courses/:id", async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      res.json(course);
+    } catch (error) {
+      console.error("Get course error:", error);
+      res.status(500).json({ error: "Failed to fetch course" });
+    }
+  });
+
+  app.post("/api/courses", requirePermission("courses:manage"), async (req, res) => {
+    try {
+      const course = await storage.createCourse(insertCourseSchema.parse(req.body));
+      res.status(201).json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid course data", details: error.errors });
+      }
+      console.error("Create course error:", error);
+      res.status(500).json({ error: "Failed to create course" });
+    }
+  });
+
+  app.patch("/api/courses/:id", requirePermission("courses:manage"), async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      const course = await storage.updateCourse(courseId, updateCourseSchema.parse(req.body));
+      if (!course) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      res.json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid course data", details: error.errors });
+      }
+      console.error("Update course error:", error);
+      res.status(500).json({ error: "Failed to update course" });
+    }
+  });
+
+  // Only empty courses can be deleted, so no card is left pointing at a missing course
+  app.delete("/api/courses/:id", requirePermission("courses:manage"), async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      const courseCards = await storage.getCardsByLevel(courseId);
+      if (courseCards.length > 0) {
+        return res.status(409).json({ error: "Course still has cards", count: courseCards.length });
+      }
+
+      const deleted = await storage.deleteCourse(courseId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      res.json({ message: "Course deleted successfully" });
+    } catch (error) {
+      console.error("Delete course error:", error);
+      res.status(500).json({ error: "Failed to delete course" });
+    }
+  });
+}
@@ -0,0 +1,242 @@
+import type { Express } from "express";
+import { EventEmitter } from "events";
+import { randomBytes } from "crypto";
+import os from "os";
+import { z } from "zod";
+import { storage } from "./storage";
+import { generateCardMedia } from "./media";
+import { requirePermission } from "./auth";
+import { createGenerateJobSchema, type JobDetails, type JobItem, type JobItemCounts } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 5000;
+// A running item's lease; the worker renews it while generating, so only a stopped worker lets it lapse
+const LEASE_MS = 60_000;
+const LEASE_RENEW_MS = 20_000;
+
+export async function getJobDetails(jobId: number): Promise<JobDetails | undefined> {
+  const job = await storage.getJob(jobId);
+  if (!job) return undefined;
+
+  const items = await storage.getJobItems(jobId);
+  const counts: JobItemCounts = { pending: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+  items.forEach(item => counts[item.status]++);
+  return { ...job, total: items.length, counts, items };
+}
+
+// A job is finished once nothing is left to run, including an item that was mid-flight when cancelled
+export function isJobFinished(details: JobDetails): boolean {
+  return (details.status === "completed" || details.status === "cancelled") && details.counts.running === 0;
+}
+
+// In-process worker that drains job items one card at a time.
+// State lives in the database, so queued work resumes after a restart. Items are claimed under a lease
+// in this worker's name: servers sharing a database never take each other's running items, and an item
+// whose worker crashed or restarted is picked up again, by any server, once its lease runs out.
+// Emits "update" with the job ID whenever a job or one of its items changes.
+export class JobQueue extends EventEmitter {
+  private draining = false;
+  private timer: NodeJS.Timeout | null = null;
+  readonly workerId = `${os.hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+  constructor() {
+    super();
+    // Every open SSE stream adds a listener
+    this.setMaxListeners(0);
+  }
+
+  async start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.kick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.kick();
+  }
+
+  // Wake the worker; a no-op while it is already draining
+  kick() {
+    if (this.draining) return;
+    this.draining = true;
+    this.drain()
+      .catch(error => console.error("Job queue error:", error))
+      .finally(() => {
+        this.draining = false;
+      });
+  }
+
+  notify(jobId: number) {
+    this.emit("update", jobId);
+  }
+
+  private async drain() {
+    let item: JobItem | undefined;
+    while ((item = await storage.claimNextJobItem(this.workerId, LEASE_MS))) {
+      this.notify(item.job_id);
+      const claimed = item;
+      const renewal = setInterval(() => {
+        storage.renewJobItemLease(claimed.id, this.workerId, LEASE_MS)
+          .catch(error => console.error(`Failed to renew lease of job item ${claimed.id}:`, error));
+      }, LEASE_RENEW_MS);
+      try {
+        await this.processItem(item);
+      } finally {
+        clearInterval(renewal);
+      }
+      await storage.completeJobIfDone(item.job_id);
+      this.notify(item.job_id);
+    }
+  }
+
+  private async processItem(item: JobItem) {
+    try {
+      const card = await storage.getCardById(item.card_id);
+      if (!card) {
+        await storage.updateJobItem(item.id, { status: "failed", error: "Card not found" });
+        return;
+      }
+
+      const job = await storage.getJob(item.job_id);
+      const result = await generateCardMedia(card, job?.template ?? undefined);
+      const error = result.error ?? result.errors?.join("; ") ?? null;
+      await storage.updateJobItem(item.id, { status: result.success ? "succeeded" : "failed", error });
+    } catch (error) {
+      console.error(`Job item ${item.id} failed:`, error);
+      await storage.updateJobItem(item.id, { status: "failed", error: String(error) });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
+
+export function registerJobRoutes(app: Express) {
+  // Queue media generation for the given cards; returns immediately with the job ID
+  app.post("/api/jobs/generate", requirePermission("cards:write"), async (req, res) => {
+    try {
+      const { cardIds, template } = createGenerateJobSchema.parse(req.body);
+      const job = await storage.createJob(
+        { type: "generate", created_by: req.user?.id ?? null, template: template ?? null },
+        Array.from(new Set(cardIds))
+      );
+      jobQueue.kick();
+      res.status(202).json({ id: job.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid job request", details: error.errors });
+      }
+      console.error("Create job error:", error);
+      res.status(500).json({ error: "Failed to create job" });
+    }
+  });
+
+  app.get("/api/jobs/:id", requirePermission("cards:write"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
+
+      const details = await getJobDetails(jobId);
+      if (!details) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(details);
+    } catch (error) {
+      console.error("Get job error:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  // Pending items are cancelled; an item already being generated is allowed to finish
+  app.post("/api/jobs/:id/cancel", requirePermission("cards:write"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
+
+      const job = await storage.cancelJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      jobQueue.notify(jobId);
+      res.json(await getJobDetails(jobId));
+    } catch (error) {
+      console.error("Cancel job error:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
+  // Put failed items back in the queue
+  app.post("/api/jobs/:id/retry", requirePermission("cards:write"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
+
+      if (!(await storage.getJob(jobId))) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const retried = await storage.retryFailedJobItems(jobId);
+      if (retried > 0) {
+        jobQueue.notify(jobId);
+        jobQueue.kick();
+      }
+      res.json(await getJobDetails(jobId));
+    } catch (error) {
+      console.error("Retry job error:", error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+
+  // Server-sent events: a snapshot on connect, then one after every change until the job finishes
+  app.get("/api/jobs/:id/events", requirePermission("cards:write"), async (req, res) => {
+    const jobId = parseInt(req.params.id, 10);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    try {
+      const initial = await getJobDetails(jobId);
+      if (!initial) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      let closed = false;
+      const send = (details: JobDetails) => {
+        res.write(`data: ${JSON.stringify(details)}\n\n`);
+        if (isJobFinished(details)) close();
+      };
+      const onUpdate = async (updatedJobId: number) => {
+        if (updatedJobId !== jobId || closed) return;
+        try {
+          const details = await getJobDetails(jobId);
+          if (details && !closed) send(details);
+        } catch (error) {
+          console.error("Job events error:", error);
+        }
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        jobQueue.off("update", onUpdate);
+        res.end();
+      };
+
+      jobQueue.on("update", onUpdate);
+      req.on("close", close);
+      send(initial);
+    } catch (error) {
+      console.error("Job events error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to stream job events" });
+      } else {
+        res.end();
+      }
+    }
+  });
+}
@@ -0,0 +1,155 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage, type ImportPlan, type PlannedCard } from "./storage";
+import { requirePermission } from "./auth";
+import { insertLessonSchema, updateLessonSchema, type UploadCard } from "@shared/schema";
+
+// Turns lesson titles on uploaded cards into lesson_id/lesson_position. Lessons that do not exist yet
+// are planned for applyImport to create, in file order, and cards are appended after a lesson's existing cards.
+export class LessonPlanner {
+  readonly newLessons: ImportPlan["newLessons"] = [];
+  private targets = new Map<string, { lessonId?: number; newLesson?: number; nextPosition: number }>(); // "course:title"
+
+  async place({ lesson, ...card }: UploadCard): Promise<PlannedCard> {
+    if (!lesson) return { card };
+
+    const courseId = card.level ?? 1;
+    const key = `${courseId}:${lesson}`;
+    let target = this.targets.get(key);
+    if (!target) {
+      const courseLessons = await storage.getLessons(courseId);
+      const existing = courseLessons.find(candidate => candidate.title === lesson);
+      if (existing) {
+        const lessonCards = await storage.getCardsByLesson(existing.id);
+        target = {
+          lessonId: existing.id,
+          nextPosition: lessonCards.reduce((max, lessonCard) => Math.max(max, lessonCard.lesson_position ?? 0), 0) + 1,
+        };
+      } else {
+        const orderings = [
+          ...courseLessons.map(courseLesson => courseLesson.ordering),
+          ...this.newLessons.filter(planned => planned.course_id === courseId).map(planned => planned.lesson.ordering ?? 0),
+        ];
+        this.newLessons.push({ course_id: courseId, lesson: { title: lesson, ordering: Math.max(0, ...orderings) + 1 } });
+        target = { newLesson: this.newLessons.length - 1, nextPosition: 1 };
+      }
+      this.targets.set(key, target);
+    }
+
+    const position = target.nextPosition++;
+    return target.lessonId !== undefined
+      ? { card: { ...card, lesson_id: target.lessonId, lesson_position: position } }
+      : { card: { ...card, lesson_position: position }, newLesson: target.newLesson };
+  }
+}
+
+export function registerLessonRoutes(app: Express) {
+  app.get("/api/courses/:id/lessons", async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      res.json(await storage.getLessons(courseId));
+    } catch (error) {
+      console.error("Get lessons error:", error);
+      res.status(500).json({ error: "Failed to fetch lessons" });
+    }
+  });
+
+  app.post("/api/courses/:id/lessons", requirePermission("courses:manage"), async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      const data = insertLessonSchema.parse(req.body);
+      if (!(await storage.getCourse(courseId))) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      const courseLessons = await storage.getLessons(courseId);
+      if (courseLessons.some(lesson => lesson.title === data.title)) {
+        return res.status(409).json({ error: "Lesson already exists" });
+      }
+
+      // New lessons go to the end of the course unless an ordering is given
+      const ordering = data.ordering ?? courseLessons.reduce((max, lesson) => Math.max(max, lesson.ordering), 0) + 1;
+      const lesson = await storage.createLesson(courseId, { ...data, ordering });
+      res.status(201).json(lesson);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid lesson data", details: error.errors });
+      }
+      console.error("Create lesson error:", error);
+      res.status(500).json({ error: "Failed to create lesson" });
+    }
+  });
+
+  app.patch("/api/lessons/:id", requirePermission("courses:manage"), async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id, 10);
+      if (isNaN(lessonId)) {
+        return res.status(400).json({ error: "Invalid lesson ID" });
+      }
+
+      const changes = updateLessonSchema.parse(req.body);
+      const existing = await storage.getLesson(lessonId);
+      if (!existing) {
+        return res.status(404).json({ error: "Lesson not found" });
+      }
+      if (changes.title !== undefined && changes.title !== existing.title) {
+        const courseLessons = await storage.getLessons(existing.course_id);
+        if (courseLessons.some(lesson => lesson.title === changes.title)) {
+          return res.status(409).json({ error: "Lesson already exists" });
+        }
+      }
+
+      res.json(await storage.updateLesson(lessonId, changes));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid lesson data", details: error.errors });
+      }
+      console.error("Update lesson error:", error);
+      res.status(500).json({ error: "Failed to update lesson" });
+    }
+  });
+
+  // Cards of a deleted lesson stay in the course without a lesson
+  app.delete("/api/lessons/:id", requirePermission("courses:manage"), async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id, 10);
+      if (isNaN(lessonId)) {
+        return res.status(400).json({ error: "Invalid lesson ID" });
+      }
+
+      const deleted = await storage.deleteLesson(lessonId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Lesson not found" });
+      }
+      res.json({ message: "Lesson deleted successfully" });
+    } catch (error) {
+      console.error("Delete lesson error:", error);
+      res.status(500).json({ error: "Failed to delete lesson" });
+    }
+  });
+
+  // A lesson's cards in textbook order
+  app.get("/api/lessons/:id/cards", async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id, 10);
+      if (isNaN(lessonId)) {
+        return res.status(400).json({ error: "Invalid lesson ID" });
+      }
+
+      if (!(await storage.getLesson(lessonId))) {
+        return res.status(404).json({ error: "Lesson not found" });
+      }
+      res.json(await storage.getCardsByLesson(lessonId));
+    } catch (error) {
+      console.error("Get lesson cards error:", error);
+      res.status(500).json({ error: "Failed to fetch lesson cards" });
+    }
+  });
+}
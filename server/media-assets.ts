@@ -0,0 +1,208 @@
+import type { Express } from "express";
+import { createHash } from "crypto";
+import path from "path";
+import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { getMediaStore, mediaContentType, type MediaObjectInfo } from "./media-store";
+import type { Card, MediaKind, MediaUsage, MediaStorageReport, MediaGcResult } from "@shared/schema";
+
+const MEDIA_DIRS = ["audio", "images"] as const;
+
+// Unreferenced files younger than this are kept: generation writes a file before the card points at it
+const GC_GRACE_MS = 10 * 60 * 1000;
+
+interface MediaReference {
+  path: string;
+  kind: MediaKind;
+  card_id: number;
+  provider: string | null;
+}
+
+function mediaDir(kind: MediaKind): typeof MEDIA_DIRS[number] {
+  return kind === "card_image" ? "images" : "audio";
+}
+
+export function checksum(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Media a card points at, as generated/<dir>/<file> paths; only the file name of the stored value is trusted
+function cardMedia(card: Card): MediaReference[] {
+  const fields = [
+    { kind: "word_audio", stored: card.word_audio, provider: card.word_audio_provider },
+    { kind: "example_audio", stored: card.example_audio, provider: card.example_audio_provider },
+    { kind: "card_image", stored: card.card_image, provider: null },
+  ] as const;
+  return fields
+    .filter(field => field.stored)
+    .map(field => ({
+      path: `generated/${mediaDir(field.kind)}/${path.basename(field.stored!)}`,
+      kind: field.kind,
+      card_id: card.id,
+      provider: field.provider,
+    }));
+}
+
+// Files still in use. Undoing an import only restores card text, so overwritten cards' old media is not kept.
+async function mediaReferences(): Promise<Map<string, MediaReference>> {
+  const current = await storage.getAllCards();
+  return new Map(current.flatMap(cardMedia).map(reference => [reference.path, reference]));
+}
+
+async function scanMediaFiles(): Promise<MediaObjectInfo[]> {
+  const store = getMediaStore();
+  const listings = await Promise.all(MEDIA_DIRS.map(dir => store.list(`generated/${dir}/`)));
+  return listings.flat();
+}
+
+// Write a media file to the media store and record it in media_assets; returns the stored path
+export async function saveMediaFile(
+  data: Buffer,
+  filename: string,
+  asset: { kind: MediaKind; card_id: number | null; provider?: string | null; cache_key?: string }
+): Promise<string> {
+  const storedPath = `generated/${mediaDir(asset.kind)}/${filename}`;
+  await getMediaStore().put(storedPath, data, mediaContentType(filename));
+  await storage.saveMediaAsset({
+    path: storedPath,
+    card_id: asset.card_id,
+    kind: asset.kind,
+    provider: asset.provider ?? null,
+    size: data.length,
+    checksum: checksum(data),
+    content_type: mediaContentType(filename),
+    cache_key: asset.cache_key ?? null,
+  });
+  return storedPath;
+}
+
+// Stored path of audio already synthesized for this cache key, if its file is still there
+export async function findCachedMedia(cacheKey: string): Promise<string | null> {
+  const asset = await storage.getMediaAssetByCacheKey(cacheKey);
+  if (!asset) return null;
+  return (await getMediaStore().stat(asset.path)) ? asset.path : null;
+}
+
+// Save media taken from an imported file, named after the hash of its bytes. A stored file with the same
+// bytes (imported before, or synthesized audio an export carried) is reused instead of written again.
+export async function saveImportedMedia(
+  data: Buffer,
+  extension: string,
+  asset: { kind: MediaKind; card_id: number; provider?: string | null }
+): Promise<string> {
+  const hash = checksum(data);
+  const dir = `generated/${mediaDir(asset.kind)}/`;
+  for (const existing of await storage.getMediaAssetsByChecksum(hash)) {
+    if (existing.path.startsWith(dir) && await getMediaStore().stat(existing.path)) return existing.path;
+  }
+  return saveMediaFile(data, `${hash}${extension}`, asset);
+}
+
+async function deleteMediaFile(storedPath: string): Promise<void> {
+  await getMediaStore().delete(storedPath);
+  console.log(`🗑️ Deleted media: ${storedPath}`);
+  await storage.deleteMediaAssets([storedPath]);
+}
+
+// Delete the media of cards that were removed or replaced, unless another card still uses it
+export async function releaseCardMedia(cardList: Card[]): Promise<void> {
+  const candidates = cardList.flatMap(cardMedia);
+  if (candidates.length === 0) return;
+
+  const references = await mediaReferences();
+  for (const candidate of candidates) {
+    if (!references.has(candidate.path)) await deleteMediaFile(candidate.path);
+  }
+}
+
+export async function getMediaReport(): Promise<MediaStorageReport> {
+  const [files, assets, references] = await Promise.all([scanMediaFiles(), storage.getMediaAssets(), mediaReferences()]);
+  const assetKinds = new Map(assets.map(asset => [asset.path, asset.kind]));
+  const stored = new Set(files.map(file => file.key));
+
+  const kinds = new Map<MediaKind | "other", MediaUsage>();
+  const orphaned: MediaUsage = { files: 0, bytes: 0 };
+  for (const file of files) {
+    const kind = references.get(file.key)?.kind ?? assetKinds.get(file.key) ?? "other";
+    const usage = kinds.get(kind) ?? { files: 0, bytes: 0 };
+    usage.files++;
+    usage.bytes += file.size;
+    kinds.set(kind, usage);
+    if (!references.has(file.key)) {
+      orphaned.files++;
+      orphaned.bytes += file.size;
+    }
+  }
+
+  return {
+    files: files.length,
+    bytes: files.reduce((total, file) => total + file.size, 0),
+    kinds: Array.from(kinds, ([kind, usage]) => ({ kind, ...usage })),
+    orphaned,
+    untracked: files.filter(file => !assetKinds.has(file.key)).length,
+    missing: assets.filter(asset => !stored.has(asset.path)).length,
+  };
+}
+
+// Delete files no card references, record referenced files media_assets does not know about
+// (e.g. written before the registry existed) and drop records whose file is gone
+export async function collectMediaGarbage(dryRun: boolean): Promise<MediaGcResult> {
+  const [files, assets, references] = await Promise.all([scanMediaFiles(), storage.getMediaAssets(), mediaReferences()]);
+  const tracked = new Set(assets.map(asset => asset.path));
+  const stored = new Set(files.map(file => file.key));
+  const now = Date.now();
+  const result: MediaGcResult = { dryRun, deleted: [], freedBytes: 0, registered: 0, forgotten: 0 };
+
+  for (const file of files) {
+    const reference = references.get(file.key);
+    if (!reference) {
+      if (now - file.modified < GC_GRACE_MS) continue;
+      result.deleted.push(file.key);
+      result.freedBytes += file.size;
+      if (!dryRun) await deleteMediaFile(file.key);
+    } else if (!tracked.has(file.key)) {
+      result.registered++;
+      const data = dryRun ? null : await getMediaStore().get(file.key);
+      if (data) {
+        await storage.saveMediaAsset({
+          path: file.key,
+          card_id: reference.card_id,
+          kind: reference.kind,
+          provider: reference.provider,
+          size: data.length,
+          checksum: checksum(data),
+          content_type: mediaContentType(file.key),
+        });
+      }
+    }
+  }
+
+  const forgotten = assets.filter(asset => !stored.has(asset.path)).map(asset => asset.path);
+  result.forgotten = forgotten.length;
+  if (!dryRun) await storage.deleteMediaAssets(forgotten);
+
+  console.log(`🧹 Media GC${dryRun ? " (dry run)" : ""}: ${result.deleted.length} files, ${result.freedBytes} bytes`);
+  return result;
+}
+
+export function registerMediaRoutes(app: Express) {
+  // Space used by generated media and how much of it is unreferenced
+  app.get("/api/admin/media", requirePermission("media:manage"), async (_req, res) => {
+    try {
+      res.json(await getMediaReport());
+    } catch (error) {
+      console.error("Media report error:", error);
+      res.status(500).json({ error: "Failed to build media report" });
+    }
+  });
+
+  // ?dryRun=true lists what would be deleted without touching anything
+  app.post("/api/admin/media/gc", requirePermission("media:manage"), async (req, res) => {
+    try {
+      res.json(await collectMediaGarbage(req.query.dryRun === "true"));
+    } catch (error) {
+      console.error("Media GC error:", error);
+      res.status(500).json({ error: "Failed to collect unreferenced media" });
+    }
+  });
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import express from "express";
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { checksum } from "./media-assets";
+import { LocalMediaStore, setMediaStore } from "./media-store";
+import { generatedMediaKey, InvalidMediaPathError, registerMediaServingRoutes } from "./media-serving";
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+// The store root is a directory inside tempDir, next to a secret file no request may reach
+let tempDir: string;
+let store: LocalMediaStore;
+let server: http.Server;
+
+// Raw http rather than fetch, which adds Cache-Control: no-cache to conditional requests
+function request(urlPath: string, headers: Record<string, string> = {}): Promise<Response> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    http.get({ host: "127.0.0.1", port, path: urlPath, headers }, res => {
+      const chunks: Buffer[] = [];
+      res.on("data", chunk => chunks.push(chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks) }));
+    }).on("error", reject);
+  });
+}
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "media-serving-test-"));
+  await fs.writeFile(path.join(tempDir, "secret.txt"), "secret");
+  await fs.mkdir(path.join(tempDir, "store"));
+  store = new LocalMediaStore(path.join(tempDir, "store"));
+  setMediaStore(store);
+
+  const app = express();
+  registerMediaServingRoutes(app);
+  server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  setMediaStore(null);
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe("ETags", () => {
+  it("gives unregistered files a weak ETag from size and modification time without reading them", async () => {
+    const audio = Buffer.alloc(2048, 1);
+    await store.put("generated/audio/legacy.wav", audio);
+    const info = (await store.stat("generated/audio/legacy.wav"))!;
+    const get = vi.spyOn(store, "get");
+
+    const full = await request("/api/audio/generated/legacy.wav");
+    expect(full.status).toBe(200);
+    expect(full.headers.etag).toBe(`W/"${info.size.toString(16)}-${Math.floor(info.modified).toString(16)}"`);
+    expect(full.body.equals(audio)).toBe(true);
+
+    const cached = await request("/api/audio/generated/legacy.wav", { "If-None-Match": full.headers.etag! });
+    expect(cached.status).toBe(304);
+    expect(get).not.toHaveBeenCalled();
+    get.mockRestore();
+  });
+
+  it("changes the weak ETag when the file is rewritten", async () => {
+    await store.put("generated/audio/rewritten.wav", Buffer.alloc(10));
+    const before = await request("/api/audio/generated/rewritten.wav");
+    await store.put("generated/audio/rewritten.wav", Buffer.alloc(20));
+    const after = await request("/api/audio/generated/rewritten.wav", { "If-None-Match": before.headers.etag! });
+
+    expect(after.status).toBe(200);
+    expect(after.headers.etag).not.toBe(before.headers.etag);
+  });
+
+  it("never honours If-Range with a weak ETag", async () => {
+    await store.put("generated/audio/ranged.wav", Buffer.alloc(100, 2));
+    const { headers } = await request("/api/audio/generated/ranged.wav");
+
+    const ranged = await request("/api/audio/generated/ranged.wav", { Range: "bytes=0-9", "If-Range": headers.etag! });
+    expect(ranged.status).toBe(200);
+    expect(ranged.body).toHaveLength(100);
+  });
+
+  it("serves registered files by ID with the recorded type and checksum, and their file URLs the same way", async () => {
+    const audio = Buffer.from("registered audio bytes");
+    await store.put("generated/audio/registered.mp3", audio);
+    const asset = await storage.saveMediaAsset({
+      path: "generated/audio/registered.mp3",
+      card_id: null,
+      kind: "word_audio",
+      provider: "stub",
+      size: audio.length,
+      checksum: checksum(audio),
+      content_type: "audio/mpeg",
+    });
+
+    const byId = await request(`/api/media/${asset.id}`);
+    expect(byId.status).toBe(200);
+    expect(byId.headers.etag).toBe(`"${asset.checksum}"`);
+    expect(byId.headers["content-type"]).toBe("audio/mpeg");
+    expect(byId.body.equals(audio)).toBe(true);
+
+    const byName = await request("/api/audio/generated/registered.mp3");
+    expect(byName.headers.etag).toBe(byId.headers.etag);
+    expect(byName.headers["content-type"]).toBe("audio/mpeg");
+
+    const download = await request(`/api/media/${asset.id}?download=true`);
+    expect(download.headers["content-disposition"]).toBe('attachment; filename="registered.mp3"');
+
+    const ranged = await request("/api/audio/generated/registered.mp3", { Range: "bytes=0-9", "If-Range": `"${asset.checksum}"` });
+    expect(ranged.status).toBe(206);
+    expect(ranged.body.equals(audio.subarray(0, 10))).toBe(true);
+  });
+});
+
+describe("path traversal", () => {
+  it("refuses file names that are not a single plain path segment", () => {
+    for (const filename of ["", ".", "..", "../secret.txt", "a/b.mp3", "a\\b.mp3", "/etc/passwd", "x\0.mp3"]) {
+      expect(() => generatedMediaKey("audio", filename), filename).toThrow(InvalidMediaPathError);
+    }
+    expect(generatedMediaKey("images", "card_1.png")).toBe("generated/images/card_1.png");
+  });
+
+  it("keeps the local store inside its root", async () => {
+    for (const key of ["../secret.txt", "generated/audio/../../../secret.txt", path.join(tempDir, "secret.txt"), "/etc/passwd"]) {
+      await expect(store.get(key)).rejects.toThrow("Media key is outside the media folders");
+      await expect(store.stat(key)).rejects.toThrow("Media key is outside the media folders");
+      await expect(store.stream(key)).rejects.toThrow("Media key is outside the media folders");
+      await expect(store.put(key, Buffer.from("overwritten"))).rejects.toThrow("Media key is outside the media folders");
+    }
+    expect(await fs.readFile(path.join(tempDir, "secret.txt"), "utf8")).toBe("secret");
+  });
+
+  it("refuses keys inside the root but outside generated/audio and generated/images", async () => {
+    await fs.writeFile(path.join(tempDir, "store", "database.sqlite"), "database");
+    for (const key of ["database.sqlite", "server/index.ts", "generated/audio/../../database.sqlite", "generated/other.txt", "generated"]) {
+      await expect(store.get(key), key).rejects.toThrow("Media key is outside the media folders");
+      await expect(store.stat(key), key).rejects.toThrow("Media key is outside the media folders");
+      await expect(store.put(key, Buffer.from("overwritten")), key).rejects.toThrow("Media key is outside the media folders");
+    }
+    expect(await fs.readFile(path.join(tempDir, "store", "database.sqlite"), "utf8")).toBe("database");
+  });
+
+  it("answers encoded traversal in media URLs with 400", async () => {
+    for (const name of ["..%2F..%2Fsecret.txt", "%2e%2e", "%2E%2E%2F..%2Fsecret.txt", "..%5C..%5Csecret.txt", "%2Fetc%2Fpasswd"]) {
+      for (const dir of ["audio", "images"]) {
+        const res = await request(`/api/${dir}/generated/${name}`);
+        expect(res.status, `${dir}/${name}`).toBe(400);
+        expect(res.body.toString()).not.toBe("secret");
+      }
+    }
+  });
+
+  it("does not route literal ../ segments to a media file", async () => {
+    const res = await request("/api/audio/generated/../../secret.txt");
+    expect(res.status).toBe(404);
+    expect(res.body.toString()).not.toBe("secret");
+  });
+
+  it("only accepts plain numbers as media IDs", async () => {
+    for (const id of ["abc", "1x", "..%2Fsecret.txt", "-1"]) {
+      expect((await request(`/api/media/${id}`)).status, id).toBe(400);
+    }
+    expect((await request("/api/media/999999")).status).toBe(404);
+  });
+});
@@ -0,0 +1,155 @@
+import type { Express, Request, Response } from "express";
+import path from "path";
+import { storage } from "./storage";
+import { getMediaStore, mediaContentType, type MediaByteRange, type MediaObjectInfo } from "./media-store";
+import type { MediaAsset } from "@shared/schema";
+
+const GENERATED_DIRS = ["audio", "images"] as const;
+
+// A file name in a media URL that is not a single plain path segment; reported to the client as a 400
+export class InvalidMediaPathError extends Error {}
+
+// Key for a file name taken from a URL. Express has already decoded the parameter, so an encoded
+// "..%2F" or "%2e%2e" arrives here as "../" or ".." and is refused like the literal form.
+export function generatedMediaKey(dir: typeof GENERATED_DIRS[number], filename: string): string {
+  if (
+    !filename ||
+    filename === "." ||
+    filename === ".." ||
+    filename.includes("/") ||
+    filename.includes("\\") ||
+    filename.includes("\0")
+  ) {
+    throw new InvalidMediaPathError("Invalid media file name");
+  }
+  return `generated/${dir}/${filename}`;
+}
+
+// Strong validator from the recorded content hash. Files written before the registry existed get a weak
+// one from size and modification time, so serving them never reads the whole file.
+function mediaEtag(info: MediaObjectInfo, asset: MediaAsset | undefined): string {
+  if (asset) return `"${asset.checksum}"`;
+  return `W/"${info.size.toString(16)}-${Math.floor(info.modified).toString(16)}"`;
+}
+
+// Send a media object with ETag, Last-Modified and Range support: redirect to the store when it serves
+// objects publicly, otherwise stream it. Downloads (attachment set) are always streamed so the file name
+// header applies. Returns false when the object does not exist, leaving the 404 response to the caller.
+async function sendStoredMedia(
+  req: Request,
+  res: Response,
+  key: string,
+  options: { asset?: MediaAsset; attachment?: string } = {}
+): Promise<boolean> {
+  const store = getMediaStore();
+  const info = await store.stat(key);
+  if (!info) return false;
+
+  const url = options.attachment ? null : store.publicUrl(key);
+  if (url) {
+    res.redirect(url);
+    return true;
+  }
+
+  const { asset } = options;
+  const etag = mediaEtag(info, asset);
+
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", new Date(info.modified).toUTCString());
+  // Cached audio is named after a hash of what it says, so its content never changes; anything else is revalidated
+  res.setHeader("Cache-Control", asset?.cache_key ? "public, max-age=31536000, immutable" : "no-cache");
+  if (options.attachment) {
+    res.setHeader("Content-Disposition", `attachment; filename="${options.attachment}"`);
+  }
+  if (req.fresh) {
+    res.status(304).end();
+    return true;
+  }
+
+  // A single range is served as 206; several ranges, a malformed header or a stale If-Range get the whole file.
+  // If-Range needs a strong match, so a weak ETag never satisfies it.
+  let range: MediaByteRange | undefined;
+  const ifRange = req.headers["if-range"];
+  if (req.headers.range && (!ifRange || (ifRange === etag && !etag.startsWith("W/")))) {
+    const ranges = req.range(info.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${info.size}`);
+      res.status(416).end();
+      return true;
+    }
+    if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  // Unregistered files (written before the registry existed) fall back to the extension
+  res.setHeader("Content-Type", asset?.content_type ?? mediaContentType(key));
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${info.size}`);
+    res.setHeader("Content-Length", (range.end - range.start + 1).toString());
+  } else {
+    res.setHeader("Content-Length", info.size.toString());
+  }
+  if (req.method === "HEAD") {
+    res.end();
+    return true;
+  }
+
+  const body = await store.stream(key, range);
+  if (!body) return false;
+  body.on("error", error => {
+    console.error(`Media stream error for ${key}:`, error);
+    res.destroy(error);
+  });
+  body.pipe(res);
+  return true;
+}
+
+// A registered media file, with the Content-Type and ETag recorded for it; ?download=true sends it as an attachment
+function sendMediaAsset(req: Request, res: Response, asset: MediaAsset): Promise<boolean> {
+  const attachment = req.query.download === "true" ? path.posix.basename(asset.path) : undefined;
+  return sendStoredMedia(req, res, asset.path, { asset, attachment });
+}
+
+export function registerMediaServingRoutes(app: Express) {
+  // Any media file by media_assets ID
+  app.get("/api/media/:id", async (req, res) => {
+    try {
+      if (!/^\d+$/.test(req.params.id)) {
+        return res.status(400).json({ error: "Invalid media ID" });
+      }
+
+      const asset = await storage.getMediaAssetById(Number(req.params.id));
+      if (!asset || !(await sendMediaAsset(req, res, asset))) {
+        return res.status(404).json({ error: "Media file not found" });
+      }
+    } catch (error) {
+      console.error("Media serve error:", error);
+      res.status(500).json({ error: "Failed to serve media file" });
+    }
+  });
+
+  // The URLs cards have always used: /api/audio/generated/<file> and /api/images/generated/<file>. They only
+  // look the file up in media_assets and serve it as /api/media/:id does. Files written before the registry
+  // existed have no row yet and are served from the store with a weak ETag and a type from their extension.
+  for (const dir of GENERATED_DIRS) {
+    app.get(`/api/${dir}/generated/:filename`, async (req, res) => {
+      try {
+        const key = generatedMediaKey(dir, req.params.filename);
+        const asset = await storage.getMediaAsset(key);
+        const served = asset ? await sendMediaAsset(req, res, asset) : await sendStoredMedia(req, res, key);
+        if (!served) {
+          return res.status(404).json({ error: "Media file not found" });
+        }
+      } catch (error) {
+        if (error instanceof InvalidMediaPathError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error("Media serve error:", error);
+        res.status(500).json({ error: "Failed to serve media file" });
+      }
+    });
+  }
+}
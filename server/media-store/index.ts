@@ -0,0 +1,92 @@
+import path from "path";
+import { Readable } from "stream";
+import type { MediaStore } from "./types";
+import { LocalMediaStore } from "./local";
+import { S3MediaStore } from "./s3";
+
+export type { MediaStore, MediaObjectInfo, MediaByteRange } from "./types";
+export { LocalMediaStore, S3MediaStore };
+
+let activeStore: MediaStore | null = null;
+
+// Selected with MEDIA_STORE=local|s3 (default local). The s3 store reads MEDIA_S3_BUCKET (required),
+// MEDIA_S3_REGION, MEDIA_S3_ENDPOINT, MEDIA_S3_FORCE_PATH_STYLE, MEDIA_S3_ACCESS_KEY_ID,
+// MEDIA_S3_SECRET_ACCESS_KEY, MEDIA_S3_PREFIX and MEDIA_S3_PUBLIC_URL.
+export function createMediaStore(env: NodeJS.ProcessEnv = process.env): MediaStore {
+  const storeName = (env.MEDIA_STORE || "local").toLowerCase();
+
+  switch (storeName) {
+    case "local":
+      return new LocalMediaStore();
+    case "s3":
+      if (!env.MEDIA_S3_BUCKET) {
+        throw new Error("MEDIA_STORE=s3 requires MEDIA_S3_BUCKET");
+      }
+      return new S3MediaStore({
+        bucket: env.MEDIA_S3_BUCKET,
+        region: env.MEDIA_S3_REGION,
+        endpoint: env.MEDIA_S3_ENDPOINT,
+        forcePathStyle: env.MEDIA_S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: env.MEDIA_S3_ACCESS_KEY_ID,
+        secretAccessKey: env.MEDIA_S3_SECRET_ACCESS_KEY,
+        prefix: env.MEDIA_S3_PREFIX,
+        publicUrl: env.MEDIA_S3_PUBLIC_URL,
+      });
+    default:
+      throw new Error(`Unknown MEDIA_STORE "${storeName}". Use local or s3.`);
+  }
+}
+
+export function getMediaStore(): MediaStore {
+  if (!activeStore) {
+    activeStore = createMediaStore();
+    console.log(`🗄️ Using media store: ${activeStore.name}`);
+  }
+  return activeStore;
+}
+
+// Lets tests swap in another store without environment variables
+export function setMediaStore(store: MediaStore | null) {
+  activeStore = store;
+}
+
+// A stored object as a stream that only opens when first read. JSZip reads the entries of an export one
+// after another, so an S3 store has one request open at a time instead of one per file in the archive.
+export function deferredMediaStream(key: string): Readable {
+  let source: Readable | null = null;
+  return new Readable({
+    read() {
+      if (source) {
+        source.resume();
+        return;
+      }
+      getMediaStore().stream(key).then(body => {
+        if (!body) {
+          this.destroy(new Error(`Media file ${key} disappeared during export`));
+          return;
+        }
+        source = body;
+        body.on("data", chunk => {
+          if (!this.push(chunk)) body.pause();
+        });
+        body.on("end", () => this.push(null));
+        body.on("error", error => this.destroy(error));
+      }, error => this.destroy(error));
+    },
+    destroy(error, callback) {
+      source?.destroy();
+      callback(error);
+    },
+  });
+}
+
+// Local TTS engines write WAV, SoundofText returns MP3; cards generated before PNG rendering still point at SVG files
+export function mediaContentType(key: string): string {
+  switch (path.extname(key).toLowerCase()) {
+    case ".wav": return "audio/wav";
+    case ".mp3": return "audio/mpeg";
+    case ".svg": return "image/svg+xml";
+    case ".png": return "image/png";
+    default: return "application/octet-stream";
+  }
+}
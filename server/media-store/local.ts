@@ -0,0 +1,65 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import type { MediaStore, MediaObjectInfo, MediaByteRange } from "./types";
+
+// The only directories under the root that hold media; the rest of the app directory is never reachable by key
+const MEDIA_DIRS = [path.join("generated", "audio"), path.join("generated", "images")];
+
+// Files under a directory on this machine (the working directory by default)
+export class LocalMediaStore implements MediaStore {
+  readonly name = "local";
+  private root: string;
+
+  constructor(root: string = process.cwd()) {
+    this.root = root;
+  }
+
+  // Keys come from stored card paths and URLs; one that resolves outside generated/audio and generated/images
+  // (the database, the source, or anywhere beyond the root) is refused rather than read
+  private filePath(key: string): string {
+    const file = path.resolve(this.root, key);
+    const relative = path.relative(path.resolve(this.root), file);
+    if (!MEDIA_DIRS.some(dir => relative === dir || relative.startsWith(dir + path.sep))) {
+      throw new Error(`Media key is outside the media folders: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath(key)), { recursive: true });
+    await fs.writeFile(this.filePath(key), data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return fs.readFile(this.filePath(key)).catch(() => null);
+  }
+
+  async stream(key: string, range?: MediaByteRange): Promise<Readable | null> {
+    return (await this.stat(key)) ? createReadStream(this.filePath(key), range) : null;
+  }
+
+  async stat(key: string): Promise<MediaObjectInfo | null> {
+    const stat = await fs.stat(this.filePath(key)).catch(() => null);
+    return stat?.isFile() ? { key, size: stat.size, modified: stat.mtimeMs } : null;
+  }
+
+  async list(prefix: string): Promise<MediaObjectInfo[]> {
+    const names = await fs.readdir(this.filePath(prefix)).catch(() => [] as string[]);
+    const objects: MediaObjectInfo[] = [];
+    for (const name of names) {
+      const info = await this.stat(path.posix.join(prefix, name));
+      if (info) objects.push(info);
+    }
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.filePath(key)).catch(() => {});
+  }
+
+  publicUrl(): string | null {
+    return null;
+  }
+}
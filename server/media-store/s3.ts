@@ -0,0 +1,127 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectCommand,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import type { Readable } from "stream";
+import type { MediaStore, MediaObjectInfo, MediaByteRange } from "./types";
+
+export interface S3MediaStoreConfig {
+  bucket: string;
+  region?: string;
+  endpoint?: string; // For S3-compatible services such as MinIO or Aliyun OSS
+  forcePathStyle?: boolean; // MinIO needs bucket-in-path URLs
+  accessKeyId?: string; // Both keys unset: the AWS SDK's default credential chain
+  secretAccessKey?: string;
+  prefix?: string; // Prepended to every key, so several deployments can share a bucket
+  publicUrl?: string; // Base URL the objects are publicly readable at; unset streams them through the server
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404;
+}
+
+// Objects in an S3-compatible bucket, shared by every server instance
+export class S3MediaStore implements MediaStore {
+  readonly name = "s3";
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+  private publicBaseUrl: string | null;
+
+  constructor(config: S3MediaStoreConfig) {
+    this.bucket = config.bucket;
+    this.prefix = config.prefix ?? "";
+    this.publicBaseUrl = config.publicUrl ? config.publicUrl.replace(/\/+$/, "") : null;
+    this.client = new S3Client({
+      region: config.region || "us-east-1",
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: MediaByteRange): Promise<Readable | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return (result.Body as Readable | undefined) ?? null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<MediaObjectInfo | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return { key, size: result.ContentLength ?? 0, modified: result.LastModified?.getTime() ?? 0 };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<MediaObjectInfo[]> {
+    const objects: MediaObjectInfo[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.objectKey(prefix),
+        Delimiter: "/",
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key.slice(this.prefix.length),
+          size: object.Size ?? 0,
+          modified: object.LastModified?.getTime() ?? 0,
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+
+  publicUrl(key: string): string | null {
+    return this.publicBaseUrl ? `${this.publicBaseUrl}/${this.objectKey(key).split("/").map(encodeURIComponent).join("/")}` : null;
+  }
+}
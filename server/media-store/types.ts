@@ -0,0 +1,28 @@
+import type { Readable } from "stream";
+
+export interface MediaObjectInfo {
+  key: string;
+  size: number; // Bytes
+  modified: number; // Timestamp (ms)
+}
+
+export interface MediaByteRange {
+  start: number;
+  end: number;
+}
+
+// Where generated media lives. Keys are the stored paths cards hold, e.g. generated/audio/<file>.
+// Reads of a missing key return null and deleting one is not an error.
+export interface MediaStore {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  // range limits the stream to bytes start..end (inclusive), as in an HTTP Range header
+  stream(key: string, range?: MediaByteRange): Promise<Readable | null>;
+  stat(key: string): Promise<MediaObjectInfo | null>;
+  // Objects directly under a prefix such as "generated/audio/"
+  list(prefix: string): Promise<MediaObjectInfo[]>;
+  delete(key: string): Promise<void>;
+  // URL clients can fetch the object from directly; null when the server has to stream it
+  publicUrl(key: string): string | null;
+}
@@ -0,0 +1,167 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { saveMediaFile, findCachedMedia, releaseCardMedia } from "./media-assets";
+import { getTtsProvider, getTtsSpeed } from "./tts";
+import { renderCardImage } from "./card-image";
+import { cardImageTemplates, type Card, type CardImageTemplate } from "@shared/schema";
+
+export interface CardGenerationResult {
+  cardId: number;
+  success: boolean;
+  wordAudio?: string | null;
+  exampleAudio?: string | null;
+  cardImage?: string | null;
+  errors?: string[];
+  error?: string;
+}
+
+// Layout used when a generate request does not pick one (CARD_IMAGE_TEMPLATE)
+export function defaultCardImageTemplate(): CardImageTemplate {
+  const configured = process.env.CARD_IMAGE_TEMPLATE as CardImageTemplate | undefined;
+  return configured && cardImageTemplates.includes(configured) ? configured : "classic";
+}
+
+// Synthesize word/example audio and render the card image, then delete the files they replace
+export async function generateCardMedia(
+  card: Card,
+  template: CardImageTemplate = defaultCardImageTemplate()
+): Promise<CardGenerationResult> {
+  const cardId = card.id;
+
+  try {
+    // Generate new audio files with better error handling
+    let wordAudio: GeneratedAudio | null = null;
+    let exampleAudio: GeneratedAudio | null = null;
+    let wordError = null;
+    let exampleError = null;
+    
+    try {
+      wordAudio = await generateAudio(card.thai, { kind: "word_audio", card_id: cardId });
+    } catch (error) {
+      wordError = String(error);
+      console.error(`Failed to generate word audio for card ${cardId}:`, error);
+    }
+    
+    try {
+      exampleAudio = await generateAudio(card.example, { kind: "example_audio", card_id: cardId });
+    } catch (error) {
+      exampleError = String(error);
+      console.error(`Failed to generate example audio for card ${cardId}:`, error);
+    }
+    
+    // Generate card image
+    let cardImagePath: string | null = null;
+    let imageError = null;
+    try {
+      cardImagePath = await generateCardImage(card, `card_${cardId}_${Date.now()}.png`, template);
+    } catch (error) {
+      imageError = String(error);
+    }
+    
+    // Update card with new file paths (only if generation was successful)
+    const updateData: Partial<Card> = { media_stale: false };
+    if (cardImagePath) {
+      updateData.card_image = cardImagePath;
+    }
+    if (wordAudio) {
+      updateData.word_audio = wordAudio.path;
+      updateData.word_audio_provider = wordAudio.provider;
+      updateData.word_audio_voice = wordAudio.voice;
+    }
+    if (exampleAudio) {
+      updateData.example_audio = exampleAudio.path;
+      updateData.example_audio_provider = exampleAudio.provider;
+      updateData.example_audio_voice = exampleAudio.voice;
+    }
+    
+    await storage.updateCard(cardId, updateData);
+
+    // Delete the files the card no longer points at, unless another card still uses them
+    await releaseCardMedia([card]);
+    
+    const errors = [];
+    if (wordError) errors.push(`Word audio: ${wordError}`);
+    if (exampleError) errors.push(`Example audio: ${exampleError}`);
+    if (imageError) errors.push(`Card image: ${imageError}`);
+    
+    console.log(`✅ Updated card ${cardId} - Word: ${wordAudio?.path || 'FAILED'}, Example: ${exampleAudio?.path || 'FAILED'}`);
+    
+    return { 
+      cardId, 
+      success: errors.length === 0, // Success only if both audio files and the image were generated
+      wordAudio: wordAudio?.path ?? null,
+      exampleAudio: exampleAudio?.path ?? null,
+      cardImage: cardImagePath,
+      errors: errors.length > 0 ? errors : undefined
+    };
+    
+  } catch (error) {
+    console.error(`Error generating files for card ${cardId}:`, error);
+    return { cardId, success: false, error: String(error) };
+  }
+}
+
+interface GeneratedAudio {
+  path: string;
+  provider: string;
+  voice: string;
+}
+
+// Whitespace and Unicode form differences do not change what is spoken
+function normalizeSpeechText(text: string): string {
+  return text.normalize("NFC").trim().replace(/\s+/g, " ");
+}
+
+// Audio is named by this key, so cards and imports with the same text share one file
+function audioCacheKey(text: string, provider: string, voice: string, speed: number): string {
+  return createHash("sha256").update(JSON.stringify([normalizeSpeechText(text), provider, voice, speed])).digest("hex");
+}
+
+// Helper function to synthesize audio with the configured TTS provider and save it under generated/audio;
+// text already synthesized with the same provider, voice and speed reuses the existing file
+async function generateAudio(
+  text: string,
+  asset: { kind: "word_audio" | "example_audio"; card_id: number }
+): Promise<GeneratedAudio> {
+  try {
+    const provider = getTtsProvider();
+    const voice = provider.defaultVoice;
+    const speed = getTtsSpeed();
+    const cacheKey = audioCacheKey(text, provider.name, voice, speed);
+
+    const cached = await findCachedMedia(cacheKey);
+    if (cached) {
+      console.log(`♻️ Reusing audio for "${text}": ${cached}`);
+      return { path: cached, provider: provider.name, voice };
+    }
+
+    console.log(`🎵 Generating audio with ${provider.name} for: "${text}"`);
+    
+    const result = await provider.synthesize(normalizeSpeechText(text), { voice, speed });
+    const filename = `${cacheKey}.${result.extension}`;
+    const storedPath = await saveMediaFile(result.audio, filename, { ...asset, provider: provider.name, cache_key: cacheKey });
+    
+    console.log(`✅ Generated audio: ${filename} (${result.audio.length} bytes, ${provider.name}/${result.voice})`);
+    return {
+      path: storedPath,
+      provider: provider.name,
+      voice: result.voice,
+    };
+    
+  } catch (error) {
+    console.error("Error generating audio:", error);
+    throw error;
+  }
+}
+
+// Helper function to render the card image to PNG and save it under generated/images
+async function generateCardImage(card: Card, filename: string, template: CardImageTemplate): Promise<string> {
+  try {
+    const png = await renderCardImage(card, template);
+    return await saveMediaFile(png, filename, { kind: "card_image", card_id: card.id });
+    
+  } catch (error) {
+    console.error("Error generating card image:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,332 @@
+import type Database from "better-sqlite3";
+import { registerSearchFunctions } from "./search-text";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(sqlite: Database.Database): void;
+}
+
+export class SchemaVersionError extends Error {}
+
+function ensureColumn(sqlite: Database.Database, table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(col => col.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Append new migrations with the next version number; never edit one that has shipped.
+// Version 1 is the schema from before migrations existed. It only uses IF NOT EXISTS and
+// ensureColumn so databases created by older builds are brought up to date instead of failing.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          password TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'learner'
+        );
+
+        CREATE TABLE IF NOT EXISTS cards (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          thai TEXT NOT NULL,
+          chinese TEXT NOT NULL,
+          pronunciation TEXT NOT NULL,
+          example TEXT NOT NULL,
+          example_translation TEXT NOT NULL,
+          level INTEGER NOT NULL DEFAULT 1,
+          word_audio TEXT,
+          example_audio TEXT,
+          word_audio_provider TEXT,
+          word_audio_voice TEXT,
+          example_audio_provider TEXT,
+          example_audio_voice TEXT,
+          card_image TEXT,
+          media_stale INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS review_states (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          card_id INTEGER NOT NULL,
+          ease REAL NOT NULL DEFAULT 2.5,
+          interval REAL NOT NULL DEFAULT 0,
+          repetitions INTEGER NOT NULL DEFAULT 0,
+          lapses INTEGER NOT NULL DEFAULT 0,
+          due_at INTEGER NOT NULL,
+          last_reviewed_at INTEGER
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS review_states_user_card_idx ON review_states (user_id, card_id);
+
+        CREATE TABLE IF NOT EXISTS progress (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          card_id INTEGER NOT NULL,
+          completed_at INTEGER NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS progress_user_card_idx ON progress (user_id, card_id);
+
+        CREATE TABLE IF NOT EXISTS jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'queued',
+          created_by INTEGER,
+          template TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS job_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER NOT NULL,
+          card_id INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          error TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS job_items_job_idx ON job_items (job_id);
+        CREATE INDEX IF NOT EXISTS job_items_status_idx ON job_items (status);
+
+        CREATE TABLE IF NOT EXISTS import_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source TEXT NOT NULL,
+          filename TEXT,
+          created_by INTEGER,
+          card_ids TEXT NOT NULL,
+          replaced_cards TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+      `);
+
+      ensureColumn(sqlite, "users", "role", "TEXT NOT NULL DEFAULT 'learner'");
+      ensureColumn(sqlite, "cards", "media_stale", "INTEGER NOT NULL DEFAULT 0");
+      for (const column of ["word_audio_provider", "word_audio_voice", "example_audio_provider", "example_audio_voice"]) {
+        ensureColumn(sqlite, "cards", column, "TEXT");
+      }
+      ensureColumn(sqlite, "jobs", "template", "TEXT");
+    },
+  },
+  {
+    version: 2,
+    name: "courses",
+    up(sqlite) {
+      // Seed the four original levels so existing cards keep pointing at a course
+      sqlite.exec(`
+        CREATE TABLE courses (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          color TEXT NOT NULL DEFAULT 'blue',
+          icon TEXT NOT NULL DEFAULT 'book-open',
+          ordering INTEGER NOT NULL DEFAULT 0
+        );
+
+        INSERT INTO courses (id, title, description, color, icon, ordering) VALUES
+          (1, '基础泰语1', '入门级泰语，学习基本问候和日常用语', 'green', 'book-open', 1),
+          (2, '基础泰语2', '进阶基础泰语，掌握更多实用对话', 'blue', 'graduation-cap', 2),
+          (3, '基础泰语3', '中级泰语，学习复杂句型和语法', 'purple', 'trophy', 3),
+          (4, '基础泰语4', '高级基础泰语，掌握流利对话技巧', 'orange', 'star', 4);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "lessons",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE lessons (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          course_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          ordering INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE UNIQUE INDEX lessons_course_title_idx ON lessons (course_id, title);
+
+        ALTER TABLE cards ADD COLUMN lesson_id INTEGER;
+        ALTER TABLE cards ADD COLUMN lesson_position INTEGER;
+        CREATE INDEX cards_lesson_idx ON cards (lesson_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "card_tags",
+    up(sqlite) {
+      sqlite.exec(`
+        ALTER TABLE cards ADD COLUMN part_of_speech TEXT;
+        ALTER TABLE cards ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "card_search",
+    up(sqlite) {
+      // Columns hold text already split by search-text.ts (Thai needs a word segmenter), so the
+      // tokenizer only splits on spaces; marks are token characters so Thai vowels stay in words.
+      // The triggers call functions from registerSearchFunctions, which every connection must register.
+      registerSearchFunctions(sqlite);
+      sqlite.exec(`
+        CREATE VIRTUAL TABLE cards_fts USING fts5(
+          thai, chinese, pronunciation, example, example_translation,
+          tokenize = "unicode61 remove_diacritics 0 categories 'L* N* Co M*'"
+        );
+
+        CREATE TRIGGER cards_fts_insert AFTER INSERT ON cards BEGIN
+          INSERT INTO cards_fts (rowid, thai, chinese, pronunciation, example, example_translation) VALUES (
+            new.id, search_joined_tokens(new.thai), search_tokens(new.chinese),
+            search_joined_tokens(new.pronunciation), search_tokens(new.example), search_tokens(new.example_translation)
+          );
+        END;
+
+        CREATE TRIGGER cards_fts_delete AFTER DELETE ON cards BEGIN
+          DELETE FROM cards_fts WHERE rowid = old.id;
+        END;
+
+        CREATE TRIGGER cards_fts_update AFTER UPDATE OF thai, chinese, pronunciation, example, example_translation ON cards BEGIN
+          DELETE FROM cards_fts WHERE rowid = old.id;
+          INSERT INTO cards_fts (rowid, thai, chinese, pronunciation, example, example_translation) VALUES (
+            new.id, search_joined_tokens(new.thai), search_tokens(new.chinese),
+            search_joined_tokens(new.pronunciation), search_tokens(new.example), search_tokens(new.example_translation)
+          );
+        END;
+
+        INSERT INTO cards_fts (rowid, thai, chinese, pronunciation, example, example_translation)
+        SELECT id, search_joined_tokens(thai), search_tokens(chinese),
+          search_joined_tokens(pronunciation), search_tokens(example), search_tokens(example_translation)
+        FROM cards;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "media_assets",
+    up(sqlite) {
+      // Files written before this version are recorded by the first media GC run
+      sqlite.exec(`
+        CREATE TABLE media_assets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          path TEXT NOT NULL UNIQUE,
+          card_id INTEGER,
+          kind TEXT NOT NULL,
+          provider TEXT,
+          size INTEGER NOT NULL,
+          checksum TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "media_cache_key",
+    up(sqlite) {
+      sqlite.exec(`
+        ALTER TABLE media_assets ADD COLUMN cache_key TEXT;
+        CREATE INDEX media_assets_cache_key_idx ON media_assets (cache_key);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "media_content_type",
+    up(sqlite) {
+      // Same mapping as mediaContentType() for the file types generation and imports write
+      sqlite.exec(`
+        ALTER TABLE media_assets ADD COLUMN content_type TEXT NOT NULL DEFAULT 'application/octet-stream';
+        UPDATE media_assets SET content_type = CASE
+          WHEN lower(path) LIKE '%.wav' THEN 'audio/wav'
+          WHEN lower(path) LIKE '%.mp3' THEN 'audio/mpeg'
+          WHEN lower(path) LIKE '%.svg' THEN 'image/svg+xml'
+          WHEN lower(path) LIKE '%.png' THEN 'image/png'
+          ELSE content_type
+        END;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "guest_progress_cleanup",
+    up(sqlite) {
+      // Grades every anonymous visitor shared under the guest id; guests can no longer write progress
+      sqlite.exec(`
+        DELETE FROM review_states WHERE user_id = 0;
+        DELETE FROM progress WHERE user_id = 0;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "import_batch_lessons",
+    up(sqlite) {
+      sqlite.exec(`
+        ALTER TABLE import_batches ADD COLUMN lesson_ids TEXT NOT NULL DEFAULT '[]';
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "media_checksum_index",
+    up(sqlite) {
+      // Imported files are matched to stored ones by content
+      sqlite.exec(`
+        CREATE INDEX media_assets_checksum_idx ON media_assets (checksum);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "job_item_leases",
+    up(sqlite) {
+      // Items already running have no lease, so the next worker to poll takes them over
+      sqlite.exec(`
+        ALTER TABLE job_items ADD COLUMN claimed_by TEXT;
+        ALTER TABLE job_items ADD COLUMN lease_expires_at INTEGER;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function getSchemaVersion(sqlite: Database.Database): number {
+  const row = sqlite.prepare("SELECT MAX(version) AS version FROM schema_version").get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+// Bring the database up to LATEST_SCHEMA_VERSION. Each migration and its schema_version row
+// commit together, so a failed migration leaves the database at the previous version.
+export function runMigrations(sqlite: Database.Database): void {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const current = getSchemaVersion(sqlite);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new SchemaVersionError(
+      `Database schema version ${current} is newer than this build supports (${LATEST_SCHEMA_VERSION}); upgrade the application or restore a matching database backup`
+    );
+  }
+
+  for (const migration of migrations.filter(m => m.version > current)) {
+    sqlite.transaction(() => {
+      migration.up(sqlite);
+      sqlite.prepare("INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)")
+        .run(migration.version, migration.name, Date.now());
+    })();
+    console.log(`🗄️ Applied database migration ${migration.version} (${migration.name})`);
+  }
+}
@@ -0,0 +1,565 @@
+import { courses, lessons, users, cards, reviewStates, progress, jobs, jobItems, importBatches, mediaAssets } from "@shared/pg-schema";
+import type { User, InsertUser, Card, InsertCard, ReviewState, InsertReviewState, Progress, LevelProgress, Job, InsertJob, JobItem, ImportBatch, InsertImportBatch, MediaAsset, InsertMediaAsset, Course, InsertCourse, UpdateCourse, Lesson, InsertLesson, UpdateLesson, TagCount } from "@shared/schema";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { eq, and, or, isNull, lte, asc, desc, inArray, sql } from "drizzle-orm";
+import pg from "pg";
+import path from "path";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { restoredCardChanges, withPlannedLesson, type IStorage, type CardFilter, type CardPageRequest, type CardCursor, type ImportPlan, type ImportResult } from "./storage";
+import { rankCards } from "./search-text";
+import type { UserRole } from "@shared/permissions";
+
+const PgSessionStore = connectPgSimple(session);
+
+// cards.tags is a jsonb array of strings
+function hasTag(tag: string) {
+  return sql`${cards.tags} @> ${JSON.stringify([tag])}::jsonb`;
+}
+
+// Text sorts by code point, as in SQLite and the in-memory storage, whatever the database locale;
+// a locale order would also disagree with the cursors clients send back
+const sortColumns = {
+  id: sql`${cards.id}`,
+  thai: sql`${cards.thai} COLLATE "C"`,
+  chinese: sql`${cards.chinese} COLLATE "C"`,
+  level: sql`${cards.level}`,
+};
+
+function matchesFilter(filter: CardFilter) {
+  return and(
+    filter.level !== undefined ? eq(cards.level, filter.level) : undefined,
+    filter.tag !== undefined ? hasTag(filter.tag) : undefined,
+    filter.partOfSpeech !== undefined ? eq(cards.part_of_speech, filter.partOfSpeech) : undefined
+  );
+}
+
+function sortsAfter(page: CardPageRequest, after: CardCursor) {
+  const column = sortColumns[page.sort];
+  return page.descending
+    ? sql`(${column}, ${cards.id}) < (${after.value}, ${after.id})`
+    : sql`(${column}, ${cards.id}) > (${after.value}, ${after.id})`;
+}
+
+// An item a worker may take: pending, or running under a lease its worker stopped renewing
+function isClaimable(now: number) {
+  return or(
+    eq(jobItems.status, "pending"),
+    and(eq(jobItems.status, "running"), or(isNull(jobItems.lease_expires_at), lte(jobItems.lease_expires_at, now)))
+  );
+}
+
+// PostgreSQL storage, used when DATABASE_URL is set (e.g. the docker-compose setup).
+// Tables come from the drizzle-kit migrations in migrations/, applied by initialize().
+export class PgStorage implements IStorage {
+  private pool: pg.Pool;
+  private db: NodePgDatabase;
+  sessionStore: session.Store;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    this.db = drizzle(this.pool);
+    this.sessionStore = new PgSessionStore({ pool: this.pool, createTableIfMissing: true });
+  }
+
+  async initialize(): Promise<void> {
+    await migrate(this.db, { migrationsFolder: path.join(process.cwd(), "migrations") });
+
+    const [existing] = await this.db.select({ count: sql<number>`count(*)::int` }).from(cards);
+    if (existing.count > 0) return;
+
+    await this.bulkCreateCards([
+      {
+        thai: "สวัสดี",
+        chinese: "你好",
+        pronunciation: "sà-wàt-dii",
+        example: "สวัสดีครับ ผมชื่อจอห์น",
+        example_translation: "你好，我叫约翰",
+        level: 1
+      },
+      {
+        thai: "ขอบคุณ",
+        chinese: "谢谢",
+        pronunciation: "kɔ̀ɔp-kun",
+        example: "ขอบคุณมากครับ",
+        example_translation: "非常感谢",
+        level: 1
+      }
+    ]);
+  }
+
+  // Ends the connection pool; the server never does, but tests open one storage per database
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await this.db.insert(users).values(user).returning();
+    return result[0];
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async countUsers(): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return result[0].count;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const result = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async getCourses(): Promise<Course[]> {
+    return await this.db.select().from(courses).orderBy(asc(courses.ordering), asc(courses.id));
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    const result = await this.db.select().from(courses).where(eq(courses.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createCourse(course: InsertCourse): Promise<Course> {
+    const result = await this.db.insert(courses).values(course).returning();
+    return result[0];
+  }
+
+  async updateCourse(id: number, changes: UpdateCourse): Promise<Course | undefined> {
+    const result = await this.db.update(courses).set(changes).where(eq(courses.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      await tx.delete(lessons).where(eq(lessons.course_id, id));
+      const result = await tx.delete(courses).where(eq(courses.id, id)).returning({ id: courses.id });
+      return result.length > 0;
+    });
+  }
+
+  async getLessons(courseId: number): Promise<Lesson[]> {
+    return await this.db.select().from(lessons)
+      .where(eq(lessons.course_id, courseId))
+      .orderBy(asc(lessons.ordering), asc(lessons.id));
+  }
+
+  async getLesson(id: number): Promise<Lesson | undefined> {
+    const result = await this.db.select().from(lessons).where(eq(lessons.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createLesson(courseId: number, lesson: InsertLesson): Promise<Lesson> {
+    const result = await this.db.insert(lessons).values({ ...lesson, course_id: courseId }).returning();
+    return result[0];
+  }
+
+  async updateLesson(id: number, changes: UpdateLesson): Promise<Lesson | undefined> {
+    const result = await this.db.update(lessons).set(changes).where(eq(lessons.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteLesson(id: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      await tx.update(cards).set({ lesson_id: null, lesson_position: null }).where(eq(cards.lesson_id, id));
+      const result = await tx.delete(lessons).where(eq(lessons.id, id)).returning({ id: lessons.id });
+      return result.length > 0;
+    });
+  }
+
+  async getAllCards(): Promise<Card[]> {
+    return await this.db.select().from(cards).orderBy(asc(cards.id));
+  }
+
+  async getCardsByLevel(level: number): Promise<Card[]> {
+    return await this.db.select().from(cards).where(eq(cards.level, level)).orderBy(asc(cards.id));
+  }
+
+  async getCardsByLesson(lessonId: number): Promise<Card[]> {
+    return await this.db.select().from(cards)
+      .where(eq(cards.lesson_id, lessonId))
+      .orderBy(asc(cards.lesson_position), asc(cards.id));
+  }
+
+  async getCards(filter: CardFilter, page?: CardPageRequest): Promise<Card[]> {
+    const direction = page?.descending ? desc : asc;
+    let query = this.db.select().from(cards)
+      .where(and(matchesFilter(filter), page?.after ? sortsAfter(page, page.after) : undefined))
+      .orderBy(direction(sortColumns[page?.sort ?? "id"]), direction(cards.id))
+      .$dynamic();
+    if (page?.limit !== undefined) query = query.limit(page.limit).offset(page.offset ?? 0);
+    return await query;
+  }
+
+  async countCards(filter: CardFilter): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` }).from(cards).where(matchesFilter(filter));
+    return result[0].count;
+  }
+
+  async getTags(level?: number): Promise<TagCount[]> {
+    const result = await this.db.execute<{ tag: string; count: number }>(sql`
+      SELECT card_tags.tag, count(*)::int AS count
+      FROM cards, jsonb_array_elements_text(cards.tags) AS card_tags(tag)
+      ${level !== undefined ? sql`WHERE cards.level = ${level}` : sql``}
+      GROUP BY card_tags.tag
+      ORDER BY count DESC, card_tags.tag
+    `);
+    return result.rows;
+  }
+
+  // PostgreSQL full-text search has no Thai segmenter, so rank in memory with the same tokens as SQLite
+  async searchCards(query: string, limit: number): Promise<Card[]> {
+    return rankCards(await this.getAllCards(), query, limit);
+  }
+
+  async createCard(card: InsertCard): Promise<Card> {
+    const { id, ...cardWithoutId } = card as any;
+    const result = await this.db.insert(cards).values(cardWithoutId).returning();
+    return result[0];
+  }
+
+  async getCardById(id: number): Promise<Card | null> {
+    const result = await this.db.select().from(cards).where(eq(cards.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async updateCard(id: number, updateData: Partial<Card>): Promise<Card> {
+    const result = await this.db.update(cards).set(updateData).where(eq(cards.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCard(id: number): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx.delete(reviewStates).where(eq(reviewStates.card_id, id));
+      await tx.delete(progress).where(eq(progress.card_id, id));
+      await tx.delete(cards).where(eq(cards.id, id));
+    });
+  }
+
+  async clearCards(): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx.delete(reviewStates);
+      await tx.delete(progress);
+      await tx.delete(cards);
+    });
+  }
+
+  async clearCardsByLevel(level: number): Promise<void> {
+    const levelCardIds = this.db.select({ id: cards.id }).from(cards).where(eq(cards.level, level));
+    await this.db.transaction(async tx => {
+      await tx.delete(reviewStates).where(inArray(reviewStates.card_id, levelCardIds));
+      await tx.delete(progress).where(inArray(progress.card_id, levelCardIds));
+      await tx.delete(cards).where(eq(cards.level, level));
+    });
+  }
+
+  async bulkCreateCards(cardList: InsertCard[]): Promise<Card[]> {
+    if (cardList.length === 0) return [];
+
+    // A single multi-row INSERT is atomic on its own and keeps input order in RETURNING
+    const rows = cardList.map(card => {
+      const { id, ...cardWithoutId } = card as any;
+      return cardWithoutId;
+    });
+    return await this.db.insert(cards).values(rows).returning();
+  }
+
+  async createImportBatch(batch: InsertImportBatch): Promise<ImportBatch> {
+    const result = await this.db.insert(importBatches).values({ ...batch, created_at: Date.now() }).returning();
+    return result[0];
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    const result = await this.db.select().from(importBatches).where(eq(importBatches.id, id)).limit(1);
+    return result[0];
+  }
+
+  async applyImport(plan: ImportPlan): Promise<ImportResult> {
+    return await this.db.transaction(async tx => {
+      const lessonIds: number[] = [];
+      for (const { course_id, lesson } of plan.newLessons) {
+        const [created] = await tx.insert(lessons).values({ ...lesson, course_id }).returning();
+        lessonIds.push(created.id);
+      }
+
+      const replaced: Card[] = [];
+      const updated: Card[] = [];
+      for (const { id, changes, newLesson } of plan.updates) {
+        const [previous] = await tx.select().from(cards).where(eq(cards.id, id)).for("update");
+        if (!previous) throw new Error(`Card with id ${id} not found`);
+        replaced.push(previous);
+        const [card] = await tx.update(cards).set(withPlannedLesson(changes, newLesson, lessonIds)).where(eq(cards.id, id)).returning();
+        updated.push(card);
+      }
+
+      const rows = plan.creates.map(({ card, newLesson }) => {
+        const { id, ...cardWithoutId } = withPlannedLesson(card, newLesson, lessonIds) as any;
+        return cardWithoutId;
+      });
+      const created = rows.length > 0 ? await tx.insert(cards).values(rows).returning() : [];
+
+      const [batch] = await tx.insert(importBatches).values({
+        ...plan.batch,
+        card_ids: created.map(card => card.id),
+        replaced_cards: replaced,
+        lesson_ids: lessonIds,
+        created_at: Date.now(),
+      }).returning();
+      return { batch, created, updated, replaced };
+    });
+  }
+
+  async undoImportBatch(id: number): Promise<ImportBatch | undefined> {
+    return await this.db.transaction(async tx => {
+      const [batch] = await tx.select().from(importBatches).where(eq(importBatches.id, id)).for("update");
+      if (!batch) return undefined;
+
+      if (batch.card_ids.length > 0) {
+        await tx.delete(reviewStates).where(inArray(reviewStates.card_id, batch.card_ids));
+        await tx.delete(progress).where(inArray(progress.card_id, batch.card_ids));
+        await tx.delete(cards).where(inArray(cards.id, batch.card_ids));
+      }
+      for (const previous of batch.replaced_cards) {
+        const [current] = await tx.select().from(cards).where(eq(cards.id, previous.id)).for("update");
+        if (current) await tx.update(cards).set(restoredCardChanges(current, previous)).where(eq(cards.id, previous.id));
+      }
+      // Cards added to the batch's lessons since stay in the course, unassigned, as with deleteLesson
+      for (const lessonId of batch.lesson_ids) {
+        await tx.update(cards).set({ lesson_id: null, lesson_position: null }).where(eq(cards.lesson_id, lessonId));
+        await tx.delete(lessons).where(eq(lessons.id, lessonId));
+      }
+      await tx.delete(importBatches).where(eq(importBatches.id, id));
+      return batch;
+    });
+  }
+
+  async getMediaAssets(): Promise<MediaAsset[]> {
+    return await this.db.select().from(mediaAssets).orderBy(asc(mediaAssets.id));
+  }
+
+  async getMediaAsset(path: string): Promise<MediaAsset | undefined> {
+    const result = await this.db.select().from(mediaAssets).where(eq(mediaAssets.path, path)).limit(1);
+    return result[0];
+  }
+
+  async getMediaAssetById(id: number): Promise<MediaAsset | undefined> {
+    const result = await this.db.select().from(mediaAssets).where(eq(mediaAssets.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getMediaAssetByCacheKey(cacheKey: string): Promise<MediaAsset | undefined> {
+    const result = await this.db.select().from(mediaAssets).where(eq(mediaAssets.cache_key, cacheKey)).limit(1);
+    return result[0];
+  }
+
+  async getMediaAssetsByChecksum(checksum: string): Promise<MediaAsset[]> {
+    return await this.db.select().from(mediaAssets).where(eq(mediaAssets.checksum, checksum)).orderBy(asc(mediaAssets.id));
+  }
+
+  async saveMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    const values = { ...asset, created_at: Date.now() };
+    const result = await this.db.insert(mediaAssets).values(values)
+      .onConflictDoUpdate({ target: mediaAssets.path, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async deleteMediaAssets(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    await this.db.delete(mediaAssets).where(inArray(mediaAssets.path, paths));
+  }
+
+  async getReviewState(userId: number, cardId: number): Promise<ReviewState | undefined> {
+    const result = await this.db.select().from(reviewStates)
+      .where(and(eq(reviewStates.user_id, userId), eq(reviewStates.card_id, cardId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async saveReviewState(state: InsertReviewState): Promise<ReviewState> {
+    const { id, user_id, card_id, ...schedule } = state;
+    const result = await this.db.insert(reviewStates)
+      .values({ user_id, card_id, ...schedule })
+      .onConflictDoUpdate({
+        target: [reviewStates.user_id, reviewStates.card_id],
+        set: schedule,
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getDueCards(userId: number, level: number, now: number, limit: number, tag?: string): Promise<Card[]> {
+    // Overdue reviews first (most overdue at the top), then cards never graded
+    const rows = await this.db.select({ card: cards })
+      .from(cards)
+      .leftJoin(reviewStates, and(eq(reviewStates.card_id, cards.id), eq(reviewStates.user_id, userId)))
+      .where(and(
+        eq(cards.level, level),
+        tag !== undefined ? hasTag(tag) : undefined,
+        or(isNull(reviewStates.id), lte(reviewStates.due_at, now))
+      ))
+      .orderBy(sql`${reviewStates.due_at} IS NULL`, asc(reviewStates.due_at), asc(cards.id))
+      .limit(limit);
+    return rows.map(row => row.card);
+  }
+
+  async getProgress(userId: number, level?: number): Promise<Progress[]> {
+    const rows = await this.db.select({ progress })
+      .from(progress)
+      .innerJoin(cards, eq(cards.id, progress.card_id))
+      .where(and(
+        eq(progress.user_id, userId),
+        level !== undefined ? eq(cards.level, level) : undefined
+      ));
+    return rows.map(row => row.progress);
+  }
+
+  async getLevelProgress(userId: number): Promise<LevelProgress[]> {
+    // count() is bigint in Postgres, which node-postgres returns as a string
+    return await this.db.select({
+      level: cards.level,
+      completed: sql<number>`count(${progress.id})::int`,
+      total: sql<number>`count(${cards.id})::int`,
+    })
+      .from(cards)
+      .leftJoin(progress, and(eq(progress.card_id, cards.id), eq(progress.user_id, userId)))
+      .groupBy(cards.level)
+      .orderBy(asc(cards.level));
+  }
+
+  async setCardsCompleted(userId: number, cardIds: number[], completed: boolean): Promise<void> {
+    if (cardIds.length === 0) return;
+
+    if (!completed) {
+      await this.db.delete(progress)
+        .where(and(eq(progress.user_id, userId), inArray(progress.card_id, cardIds)));
+      return;
+    }
+
+    // Ignore IDs of cards that no longer exist
+    const existing = await this.db.select({ id: cards.id }).from(cards).where(inArray(cards.id, cardIds));
+    if (existing.length === 0) return;
+
+    const now = Date.now();
+    await this.db.insert(progress)
+      .values(existing.map(card => ({ user_id: userId, card_id: card.id, completed_at: now })))
+      .onConflictDoNothing();
+  }
+
+  async createJob(insertJob: InsertJob, cardIds: number[]): Promise<Job> {
+    const now = Date.now();
+    return await this.db.transaction(async tx => {
+      const [job] = await tx.insert(jobs)
+        .values({ ...insertJob, status: "queued", created_at: now, updated_at: now })
+        .returning();
+      if (cardIds.length > 0) {
+        await tx.insert(jobItems)
+          .values(cardIds.map(cardId => ({ job_id: job.id, card_id: cardId, updated_at: now })));
+      }
+      return job;
+    });
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const result = await this.db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getJobItems(jobId: number): Promise<JobItem[]> {
+    return await this.db.select().from(jobItems).where(eq(jobItems.job_id, jobId)).orderBy(asc(jobItems.id));
+  }
+
+  async claimNextJobItem(owner: string, leaseMs: number): Promise<JobItem | undefined> {
+    // Oldest claimable item first; repeating the check in the UPDATE keeps the claim atomic across servers
+    const now = Date.now();
+    const [next] = await this.db.select({ id: jobItems.id, job_id: jobItems.job_id })
+      .from(jobItems)
+      .innerJoin(jobs, eq(jobs.id, jobItems.job_id))
+      .where(and(isClaimable(now), inArray(jobs.status, ["queued", "running"])))
+      .orderBy(asc(jobItems.id))
+      .limit(1);
+    if (!next) return undefined;
+
+    const [claimed] = await this.db.update(jobItems)
+      .set({
+        status: "running",
+        claimed_by: owner,
+        lease_expires_at: now + leaseMs,
+        attempts: sql`${jobItems.attempts} + 1`,
+        updated_at: now,
+      })
+      .where(and(eq(jobItems.id, next.id), isClaimable(now)))
+      .returning();
+    if (claimed) {
+      await this.db.update(jobs).set({ status: "running", updated_at: now })
+        .where(and(eq(jobs.id, next.job_id), eq(jobs.status, "queued")));
+    }
+    return claimed;
+  }
+
+  async renewJobItemLease(id: number, owner: string, leaseMs: number): Promise<boolean> {
+    const renewed = await this.db.update(jobItems)
+      .set({ lease_expires_at: Date.now() + leaseMs })
+      .where(and(eq(jobItems.id, id), eq(jobItems.status, "running"), eq(jobItems.claimed_by, owner)))
+      .returning({ id: jobItems.id });
+    return renewed.length > 0;
+  }
+
+  async updateJobItem(id: number, changes: Partial<JobItem>): Promise<JobItem | undefined> {
+    const result = await this.db.update(jobItems)
+      .set({ ...changes, updated_at: Date.now() })
+      .where(eq(jobItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async completeJobIfDone(jobId: number): Promise<Job | undefined> {
+    const [open] = await this.db.select({ count: sql<number>`count(*)::int` })
+      .from(jobItems)
+      .where(and(eq(jobItems.job_id, jobId), inArray(jobItems.status, ["pending", "running"])));
+    if (open.count > 0) return this.getJob(jobId);
+
+    // A cancelled job stays cancelled even after its last running item finishes
+    const result = await this.db.update(jobs)
+      .set({ status: "completed", updated_at: Date.now() })
+      .where(and(eq(jobs.id, jobId), inArray(jobs.status, ["queued", "running"])))
+      .returning();
+    return result[0] ?? this.getJob(jobId);
+  }
+
+  async cancelJob(id: number): Promise<Job | undefined> {
+    const now = Date.now();
+    await this.db.update(jobItems)
+      .set({ status: "cancelled", updated_at: now })
+      .where(and(eq(jobItems.job_id, id), eq(jobItems.status, "pending")));
+    const result = await this.db.update(jobs)
+      .set({ status: "cancelled", updated_at: now })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ["queued", "running"])))
+      .returning();
+    return result[0] ?? this.getJob(id);
+  }
+
+  async retryFailedJobItems(jobId: number): Promise<number> {
+    const now = Date.now();
+    const retried = await this.db.update(jobItems)
+      .set({ status: "pending", error: null, updated_at: now })
+      .where(and(eq(jobItems.job_id, jobId), eq(jobItems.status, "failed")))
+      .returning({ id: jobItems.id });
+    if (retried.length > 0) {
+      await this.db.update(jobs).set({ status: "queued", updated_at: now }).where(eq(jobs.id, jobId));
+    }
+    return retried.length;
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import fs from "fs/promises";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { LocalMediaStore, setMediaStore } from "./media-store";
+import { registerRoutes } from "./routes";
+import { buildAnkiPackage } from "./anki";
+import type { InsertCard } from "@shared/schema";
+
+let tempDir: string;
+let store: LocalMediaStore;
+let server: Server;
+let cookie: string;
+
+function api(urlPath: string, init: RequestInit = {}): Promise<globalThis.Response> {
+  const { port } = server.address() as AddressInfo;
+  return fetch(`http://127.0.0.1:${port}${urlPath}`, { ...init, headers: { cookie, ...init.headers } });
+}
+
+function card(thai: string, overrides: Partial<InsertCard> = {}): InsertCard {
+  return {
+    thai,
+    chinese: "中文",
+    pronunciation: "-",
+    example: "-",
+    example_translation: "-",
+    level: 1,
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "routes-test-"));
+  store = new LocalMediaStore(tempDir);
+  setMediaStore(store);
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  server.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+
+  // The first account registered is the admin
+  const registered = await api("/api/auth/register", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ username: "admin", password: "correct horse" }),
+  });
+  expect(registered.status).toBe(201);
+  cookie = registered.headers.get("set-cookie")!.split(";")[0];
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  setMediaStore(null);
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe("DELETE /api/imports/:batchId", () => {
+  it("deletes the media of the cards the import created unless another card still uses it", async () => {
+    for (const key of ["generated/audio/imported_word.mp3", "generated/images/imported_card.png", "generated/audio/shared.mp3"]) {
+      await store.put(key, Buffer.from(key));
+    }
+    const keeper = await storage.createCard(card("กา"));
+    await storage.updateCard(keeper.id, { word_audio: "/api/audio/generated/shared.mp3" });
+    const { batch, created } = await storage.applyImport({
+      batch: { source: "archive", filename: "cards.zip", created_by: null },
+      newLessons: [],
+      updates: [],
+      creates: [{ card: card("ไก่") }],
+    });
+    // Media is attached after the cards are written, as archive imports and generation do
+    await storage.updateCard(created[0].id, {
+      word_audio: "/api/audio/generated/imported_word.mp3",
+      example_audio: "/api/audio/generated/shared.mp3",
+      card_image: "/api/images/generated/imported_card.png",
+    });
+
+    const undone = await api(`/api/imports/${batch.id}`, { method: "DELETE" });
+    expect(undone.status).toBe(200);
+    expect(await undone.json()).toMatchObject({ deleted: 1, restored: 0 });
+
+    expect(await store.stat("generated/audio/imported_word.mp3")).toBeNull();
+    expect(await store.stat("generated/images/imported_card.png")).toBeNull();
+    expect(await store.stat("generated/audio/shared.mp3")).not.toBeNull();
+
+    expect((await api(`/api/imports/${batch.id}`, { method: "DELETE" })).status).toBe(404);
+  });
+});
+
+describe("POST /api/anki/import", () => {
+  function packageForm(pkg: Buffer, options?: object): FormData {
+    const form = new FormData();
+    form.append("file", new Blob([pkg]), "deck.apkg");
+    if (options) form.append("options", JSON.stringify(options));
+    return form;
+  }
+
+  function postPackage(query: string, pkg: Buffer, options: object): Promise<globalThis.Response> {
+    return api(`/api/anki/import${query}`, { method: "POST", body: packageForm(pkg, options) });
+  }
+
+  it("diffs notes against existing cards and writes the merge as one undoable batch", async () => {
+    await store.put("generated/audio/zebra_word.mp3", Buffer.from("zebra"));
+    const sparrow = await storage.createCard(card("นกกระจอก", { chinese: "麻雀", level: 4 }));
+    const zebra = await storage.createCard(card("ม้าลาย", { chinese: "斑马", level: 4 }));
+    await storage.updateCard(zebra.id, { word_audio: "/api/audio/generated/zebra_word.mp3" });
+    const zip = await buildAnkiPackage([sparrow, (await storage.getCardById(zebra.id))!]);
+    const pkg = await zip.generateAsync({ type: "nodebuffer" });
+
+    // Since the export the sparrow card was edited and the zebra card deleted
+    await storage.updateCard(sparrow.id, { chinese: "小麻雀" });
+    await storage.deleteCard(zebra.id);
+
+    const preview = await api("/api/anki/preview", { method: "POST", body: packageForm(pkg) });
+    const [model] = (await preview.json()).models;
+    const options = { modelId: model.id, level: 4, mapping: { thai: "Thai", chinese: "Chinese", word_audio: "WordAudio" } };
+
+    const dryRun = await (await postPackage("?dryRun=true", pkg, options)).json();
+    expect(dryRun.diff.new.map((c: InsertCard) => c.thai)).toEqual(["ม้าลาย"]);
+    expect(dryRun.diff.changed.map((c: { existing: { id: number } }) => c.existing.id)).toEqual([sparrow.id]);
+    expect((await storage.getCardsByLevel(4)).filter(c => c.thai === "ม้าลาย")).toHaveLength(0);
+
+    const imported = await (await postPackage("?strategy=overwrite", pkg, options)).json();
+    expect(imported).toMatchObject({ count: 1, updated: 1, skipped: 0 });
+    expect((await storage.getCardById(sparrow.id))?.chinese).toBe("麻雀");
+    const [createdZebra] = imported.cards;
+    expect(createdZebra).toMatchObject({ thai: "ม้าลาย", word_audio_provider: "anki" });
+    expect(await store.stat(createdZebra.word_audio)).not.toBeNull();
+
+    const batch = await storage.getImportBatch(imported.batchId);
+    expect(batch).toMatchObject({ source: "anki", card_ids: [createdZebra.id] });
+    expect(batch?.replaced_cards.map(c => c.chinese)).toEqual(["小麻雀"]);
+
+    expect((await api(`/api/imports/${imported.batchId}`, { method: "DELETE" })).status).toBe(200);
+    expect((await storage.getCardById(sparrow.id))?.chinese).toBe("小麻雀");
+    expect(await storage.getCardById(createdZebra.id)).toBeNull();
+  });
+});
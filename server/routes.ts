@@ -1,12 +1,26 @@
 import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertCardSchema, cardFileSchema } from "@shared/schema";
+import { storage, type CardFilter } from "./storage";
+import { insertCardSchema, cardFileSchema, partsOfSpeech, cardImageTemplates, exportFormats, mergeStrategies, ankiImportRequestSchema, spreadsheetImportOptionsSchema, type SpreadsheetPreview, reviewGradeSchema, updateCardSchema, updateProgressSchema, type Card, type CardPage, type UploadCard, type ImportSource, type ProgressSummary } from "@shared/schema";
+import { scheduleReview } from "./srs";
+import { setupAuth, requirePermission } from "./auth";
+import { defaultCardImageTemplate } from "./media";
+import { renderCardImage } from "./card-image";
+import { buildCardArchive, readCardArchive, importArchiveMedia, isZipFile, InvalidArchiveError, type CardArchive } from "./archive";
+import { isSpreadsheetFile, parseSpreadsheet, mapSpreadsheetRows, isBlankRow, InvalidSpreadsheetError } from "./spreadsheet";
+import { diffUpload, applyUpload } from "./upload-merge";
+import { buildAnkiPackage, readAnkiPackage, summarizeAnkiModels, readAnkiNotes, importAnkiSounds } from "./anki";
+import { jobQueue, registerJobRoutes } from "./jobs";
+import { registerCourseRoutes, findMissingCourses } from "./courses";
+import { registerLessonRoutes } from "./lessons";
+import { registerSearchRoutes } from "./search";
+import { registerMediaRoutes, releaseCardMedia } from "./media-assets";
+import { registerMediaServingRoutes } from "./media-serving";
+import { getMediaStore } from "./media-store";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, InvalidCardQueryError, parseCardSort, parseCardFields, pickCardFields, encodeCardCursor, decodeCardCursor } from "./card-pages";
 import multer from "multer";
 import { z } from "zod";
 
-import axios from "axios";
-import fs from "fs/promises";
 import path from "path";
 
 interface MulterRequest extends Request {
@@ -15,44 +29,89 @@ interface MulterRequest extends Request {
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Review state and progress are stored per user. Guests read as this id but cannot write under it,
+// so one visitor's grades never reorder another's due queue.
+const GUEST_USER_ID = 0;
+
+function getLearnerId(req: Request): number {
+  return req.isAuthenticated() ? req.user.id : GUEST_USER_ID;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Serve generated audio files
-  app.get("/api/audio/generated/:filename", async (req, res) => {
-    try {
-      const filename = req.params.filename;
-      const audioPath = path.join(process.cwd(), "generated", "audio", filename);
-      
-      // Check if file exists
-      const exists = await fs.access(audioPath).then(() => true).catch(() => false);
-      if (!exists) {
-        return res.status(404).json({ error: "Generated audio file not found" });
-      }
-      
-      res.setHeader("Content-Type", "audio/mpeg");
-      const fileStream = await fs.readFile(audioPath);
-      res.send(fileStream);
-      
-    } catch (error) {
-      console.error("Generated audio serve error:", error);
-      res.status(500).json({ error: "Failed to serve generated audio" });
-    }
-  });
-  // Get all cards or cards by level with optional random sampling
+  await storage.initialize();
+
+  // Sessions and /api/auth/* routes
+  setupAuth(app);
+
+  // Course list and course management: /api/courses/*
+  registerCourseRoutes(app);
+  registerLessonRoutes(app);
+  registerSearchRoutes(app);
+
+  // Media storage report and cleanup: /api/admin/media/*
+  registerMediaRoutes(app);
+
+  // Background media generation: /api/jobs/* plus the worker that drains the queue
+  registerJobRoutes(app);
+  await jobQueue.start();
+
+  // Generated audio and images, by media ID or by the file names cards store
+  registerMediaServingRoutes(app);
+
+  // Get all cards, optionally filtered by level, tag and part of speech, with optional random sampling
   app.get("/api/cards", async (req, res) => {
     try {
-      const { level, random, limit } = req.query;
-      let cards;
-      
+      const { level, tag, pos, random, limit, cursor, offset, sort, fields } = req.query;
+      const filter: CardFilter = {};
+
       if (level) {
         const levelNum = parseInt(level as string, 10);
-        if (isNaN(levelNum) || levelNum < 1 || levelNum > 4) {
-          return res.status(400).json({ error: "Invalid level. Must be between 1 and 4." });
+        if (isNaN(levelNum) || levelNum < 1) {
+          return res.status(400).json({ error: "Invalid level. Must be a course ID." });
         }
-        cards = await storage.getCardsByLevel(levelNum);
-      } else {
-        cards = await storage.getAllCards();
+        filter.level = levelNum;
+      }
+      if (tag) {
+        filter.tag = String(tag);
+      }
+      if (pos) {
+        const partOfSpeech = z.enum(partsOfSpeech).safeParse(pos);
+        if (!partOfSpeech.success) {
+          return res.status(400).json({ error: "Invalid part of speech" });
+        }
+        filter.partOfSpeech = partOfSpeech.data;
+      }
+
+      const order = parseCardSort(sort);
+      const projection = parseCardFields(fields);
+
+      // Without limit, cursor or offset every matching card is returned as a plain array
+      if (random !== 'true' && (limit || cursor || offset)) {
+        const pageSize = limit ? parseInt(limit as string, 10) : DEFAULT_PAGE_SIZE;
+        if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+          return res.status(400).json({ error: `Invalid limit. Must be between 1 and ${MAX_PAGE_SIZE}.` });
+        }
+        const skip = offset ? parseInt(offset as string, 10) : 0;
+        if (isNaN(skip) || skip < 0) {
+          return res.status(400).json({ error: "Invalid offset" });
+        }
+        const after = cursor ? decodeCardCursor(String(cursor), order.sort) : undefined;
+
+        // One extra card tells whether another page follows
+        const [found, total] = await Promise.all([
+          storage.getCards(filter, { ...order, limit: pageSize + 1, offset: skip, after }),
+          storage.countCards(filter),
+        ]);
+        const items = found.slice(0, pageSize);
+        const page: CardPage<Partial<Card>> = {
+          items: items.map(card => pickCardFields(card, projection)),
+          total,
+          nextCursor: found.length > pageSize ? encodeCardCursor(items[items.length - 1], order.sort) : null,
+        };
+        return res.json(page);
       }
+
+      let cards = await storage.getCards(filter, order);
       
       // If random sampling is requested and we have cards
       if (random === 'true' && cards.length > 0) {
@@ -70,15 +129,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`🎲 Random sampling: ${cards.length} cards selected from ${shuffled.length} total cards for level ${level}`);
       }
       
-      res.json(cards);
+      res.json(cards.map(card => pickCardFields(card, projection)));
     } catch (error) {
+      if (error instanceof InvalidCardQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Get cards error:", error);
       res.status(500).json({ error: "Failed to fetch cards" });
     }
   });
 
+  // Tags used in a level (or all levels) with their card counts, most used first
+  app.get("/api/tags", async (req, res) => {
+    try {
+      const { level } = req.query;
+      let levelNum: number | undefined;
+      if (level) {
+        levelNum = parseInt(level as string, 10);
+        if (isNaN(levelNum) || levelNum < 1) {
+          return res.status(400).json({ error: "Invalid level. Must be a course ID." });
+        }
+      }
+
+      res.json(await storage.getTags(levelNum));
+    } catch (error) {
+      console.error("Get tags error:", error);
+      res.status(500).json({ error: "Failed to fetch tags" });
+    }
+  });
+
+  // Get cards that are due for review (spaced repetition) for a level, optionally only those with one tag
+  app.get("/api/review/due", async (req, res) => {
+    try {
+      const { level, limit, tag } = req.query;
+      const levelNum = parseInt(level as string, 10);
+      if (isNaN(levelNum) || levelNum < 1) {
+        return res.status(400).json({ error: "Invalid level. Must be a course ID." });
+      }
+
+      const maxCards = limit ? parseInt(limit as string, 10) : 10;
+      if (isNaN(maxCards) || maxCards < 1) {
+        return res.status(400).json({ error: "Invalid limit" });
+      }
+
+      const cards = await storage.getDueCards(getLearnerId(req), levelNum, Date.now(), maxCards, tag ? String(tag) : undefined);
+      res.json(cards);
+    } catch (error) {
+      console.error("Get due cards error:", error);
+      res.status(500).json({ error: "Failed to fetch due cards" });
+    }
+  });
+
+  // Grade a card and schedule its next review
+  app.post("/api/review/:cardId", requirePermission("progress:write"), async (req, res) => {
+    try {
+      const cardId = parseInt(req.params.cardId, 10);
+      if (isNaN(cardId)) {
+        return res.status(400).json({ error: "Invalid card ID" });
+      }
+
+      const { grade } = reviewGradeSchema.parse(req.body);
+
+      const card = await storage.getCardById(cardId);
+      if (!card) {
+        return res.status(404).json({ error: "Card not found" });
+      }
+
+      const userId = getLearnerId(req);
+      const previous = await storage.getReviewState(userId, cardId);
+      const next = scheduleReview(previous, grade);
+      const state = await storage.saveReviewState({ user_id: userId, card_id: cardId, ...next });
+
+      res.json(state);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid grade", details: error.errors });
+      }
+      console.error("Review card error:", error);
+      res.status(500).json({ error: "Failed to record review" });
+    }
+  });
+
+  // Get learning progress: per-level completion plus completed card IDs (optionally for one level)
+  app.get("/api/progress", async (req, res) => {
+    try {
+      const { level } = req.query;
+      let levelNum: number | undefined;
+      if (level) {
+        levelNum = parseInt(level as string, 10);
+        if (isNaN(levelNum) || levelNum < 1) {
+          return res.status(400).json({ error: "Invalid level. Must be a course ID." });
+        }
+      }
+
+      const userId = getLearnerId(req);
+      const [levels, completed] = await Promise.all([
+        storage.getLevelProgress(userId),
+        storage.getProgress(userId, levelNum),
+      ]);
+
+      const summary: ProgressSummary = {
+        levels,
+        completedCardIds: completed.map(entry => entry.card_id),
+      };
+      res.json(summary);
+    } catch (error) {
+      console.error("Get progress error:", error);
+      res.status(500).json({ error: "Failed to fetch progress" });
+    }
+  });
+
+  // Mark cards as completed (or not completed) for the current learner
+  app.put("/api/progress", requirePermission("progress:write"), async (req, res) => {
+    try {
+      const { cardIds, completed } = updateProgressSchema.parse(req.body);
+      await storage.setCardsCompleted(getLearnerId(req), cardIds, completed);
+      res.json({ message: "Progress updated successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid progress data", details: error.errors });
+      }
+      console.error("Update progress error:", error);
+      res.status(500).json({ error: "Failed to update progress" });
+    }
+  });
+
   // Upload JSON file and update cards
-  app.post("/api/cards/upload", upload.single("file"), async (req: MulterRequest, res) => {
+  app.post("/api/cards/upload", requirePermission("cards:write"), upload.single("file"), async (req: MulterRequest, res) => {
     try {
       console.log("📁 File upload request received");
       
@@ -93,34 +270,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mimetype: req.file.mimetype
       });
 
-      const fileContent = req.file.buffer.toString("utf8");
-      console.log("📖 File content preview:", fileContent.substring(0, 200));
-      
-      const jsonData = JSON.parse(fileContent);
-      console.log("🔍 JSON parsed successfully, validating...");
-      
-      // Validate JSON structure
-      const validatedData = cardFileSchema.parse(jsonData);
-      console.log("✅ JSON validation passed, creating cards...");
-      
-      // Remove id fields from cards and add new cards without clearing existing ones (accumulative upload)
-      const cardsToCreate = validatedData.cards.map(card => {
-        const { id, ...cardWithoutId } = card;
-        return cardWithoutId;
+      // ?dryRun=true only reports what would change; ?strategy= decides how matching cards are merged
+      const dryRun = req.query.dryRun === "true";
+      const strategy = z.enum(mergeStrategies).default("keep_both").safeParse(req.query.strategy || undefined);
+      if (!strategy.success) {
+        return res.status(400).json({ error: "Invalid merge strategy", details: strategy.error.errors });
+      }
+
+      let incomingCards: UploadCard[];
+      let source: ImportSource = "json";
+      let archive: CardArchive | null = null;
+
+      // CSV/TSV/XLSX need the column mapping chosen in the preview step, sent as a JSON "options" field
+      if (isSpreadsheetFile(req.file.originalname)) {
+        const options = spreadsheetImportOptionsSchema.parse(JSON.parse(req.body.options ?? "{}"));
+        const rows = await parseSpreadsheet(req.file.buffer, req.file.originalname);
+        const { cards, errors } = mapSpreadsheetRows(rows, options);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: "Invalid rows", rowErrors: errors });
+        }
+        incomingCards = cards;
+        source = "spreadsheet";
+      } else if (isZipFile(req.file.buffer)) {
+        // ZIP archives from GET /api/export carry their own media (checked after XLSX, which is also a ZIP)
+        archive = await readCardArchive(req.file.buffer);
+        incomingCards = archive.cards;
+        source = "archive";
+      } else {
+        const fileContent = req.file.buffer.toString("utf8");
+        console.log("📖 File content preview:", fileContent.substring(0, 200));
+
+        const jsonData = JSON.parse(fileContent);
+        console.log("🔍 JSON parsed successfully, validating...");
+
+        // Validate JSON structure
+        const validatedData = cardFileSchema.parse(jsonData);
+        console.log("✅ JSON validation passed");
+
+        // Remove id fields; cards are matched to existing ones by Thai text and level instead
+        incomingCards = validatedData.cards.map(card => {
+          const { id, ...cardWithoutId } = card;
+          return cardWithoutId;
+        });
+      }
+
+      const missingCourses = await findMissingCourses(incomingCards.map(card => card.level ?? 1));
+      if (missingCourses.length > 0) {
+        return res.status(400).json({ error: `Unknown course: ${missingCourses.join(", ")}` });
+      }
+
+      const diff = await diffUpload(incomingCards);
+      if (dryRun) {
+        return res.json({ dryRun: true, diff });
+      }
+
+      const merged = await applyUpload(diff, strategy.data, {
+        source,
+        filename: req.file.originalname,
+        created_by: req.user?.id ?? null,
       });
-      const createdCards = await storage.bulkCreateCards(cardsToCreate);
-      console.log(`🎯 Created ${createdCards.length} cards successfully`);
-      
+      const { batch, skipped } = merged;
+      let { created, updated } = merged;
+      if (archive) {
+        created = await importArchiveMedia(archive, created, merged.incoming);
+        updated = await importArchiveMedia(archive, updated, merged.incoming);
+      }
+      console.log(`🎯 Upload merged with "${strategy.data}": ${created.length} created, ${updated.length} updated, ${skipped} skipped`);
+
       const allCards = await storage.getAllCards();
-      
-      res.json({ 
-        message: "Cards uploaded successfully", 
-        count: createdCards.length,
+
+      res.json({
+        message: "Cards uploaded successfully",
+        batchId: batch.id,
+        count: created.length,
+        updated: updated.length,
+        skipped,
         total: allCards.length,
-        cards: createdCards
+        cards: created
       });
     } catch (error) {
-      if (error instanceof z.ZodError) {
+      if (error instanceof InvalidArchiveError || error instanceof InvalidSpreadsheetError) {
+        res.status(400).json({ error: error.message });
+      } else if (error instanceof SyntaxError) {
+        res.status(400).json({ error: "Invalid JSON", details: error.message });
+      } else if (error instanceof z.ZodError) {
         console.error("❌ JSON validation error:", error.errors);
         res.status(400).json({ error: "Invalid JSON format", details: error.errors });
       } else {
@@ -140,7 +373,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           chinese: "你好",
           pronunciation: "sà-wàt-dii",
           example: "สวัสดีครับ ผมชื่อจอห์น",
-          example_translation: "你好，我叫约翰"
+          example_translation: "你好，我叫约翰",
+          lesson: "第一课 问候",
+          part_of_speech: "interjection",
+          tags: ["问候"]
         },
         {
           id: 2,
@@ -148,7 +384,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           chinese: "谢谢",
           pronunciation: "kɔ̀ɔp-kun",
           example: "ขอบคุณมากครับ",
-          example_translation: "非常感谢"
+          example_translation: "非常感谢",
+          lesson: "第一课 问候",
+          part_of_speech: "phrase",
+          tags: ["问候", "礼貌"]
         }
       ]
     };
@@ -158,10 +397,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(sampleData);
   });
 
+  app.get("/api/cards/:id", async (req, res) => {
+    try {
+      const cardId = parseInt(req.params.id, 10);
+      if (isNaN(cardId)) {
+        return res.status(400).json({ error: "Invalid card ID" });
+      }
+
+      const projection = parseCardFields(req.query.fields);
+      const card = await storage.getCardById(cardId);
+      if (!card) {
+        return res.status(404).json({ error: "Card not found" });
+      }
+      res.json(pickCardFields(card, projection));
+    } catch (error) {
+      if (error instanceof InvalidCardQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Get card error:", error);
+      res.status(500).json({ error: "Failed to fetch card" });
+    }
+  });
+
   // Clear all cards (must be before :id route)
-  app.delete("/api/cards/clear", async (req, res) => {
+  app.delete("/api/cards/clear", requirePermission("cards:clear"), async (req, res) => {
     try {
+      const cleared = await storage.getAllCards();
       await storage.clearCards();
+      await releaseCardMedia(cleared);
       res.json({ message: "All cards cleared successfully" });
     } catch (error) {
       console.error("Clear cards error:", error);
@@ -170,7 +433,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a specific card
-  app.delete("/api/cards/:id", async (req, res) => {
+  app.delete("/api/cards/:id", requirePermission("cards:write"), async (req, res) => {
     try {
       const { id } = req.params;
       const cardId = parseInt(id, 10);
@@ -179,7 +442,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid card ID" });
       }
       
+      const card = await storage.getCardById(cardId);
       await storage.deleteCard(cardId);
+      if (card) await releaseCardMedia([card]);
       res.json({ message: "Card deleted successfully" });
     } catch (error) {
       console.error("Delete card error:", error);
@@ -187,397 +452,316 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-
-
-  // Remove old SoundofText generation endpoint - we now generate files locally
-
-  // Remove old SoundofText routes - we now serve local files only
-
-  // Delete a single card
-  app.delete("/api/cards/:id", async (req, res) => {
+  // Edit a card's content
+  app.patch("/api/cards/:id", requirePermission("cards:write"), async (req, res) => {
     try {
-      const cardId = parseInt(req.params.id);
+      const cardId = parseInt(req.params.id, 10);
       if (isNaN(cardId)) {
         return res.status(400).json({ error: "Invalid card ID" });
       }
 
-      await storage.deleteCard(cardId);
-      
-      res.json({ 
-        message: "Card deleted successfully"
-      });
+      const changes = updateCardSchema.parse(req.body);
+
+      const existingCard = await storage.getCardById(cardId);
+      if (!existingCard) {
+        return res.status(404).json({ error: "Card not found" });
+      }
+      if (changes.level !== undefined && (await findMissingCourses([changes.level])).length > 0) {
+        return res.status(400).json({ error: `Unknown course: ${changes.level}` });
+      }
+
+      // Audio and images are rendered from the text, so they no longer match once it changes
+      const updateData: Partial<Card> = { ...changes };
+      if (hasMediaAffectingChange(existingCard, changes)) {
+        updateData.media_stale = true;
+      }
+      // Lessons belong to one course, so a card moved to another course leaves its lesson
+      if (changes.level !== undefined && changes.level !== existingCard.level) {
+        updateData.lesson_id = null;
+        updateData.lesson_position = null;
+      }
+
+      const updatedCard = await storage.updateCard(cardId, updateData);
+      res.json(updatedCard);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete card" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid card data", details: error.errors });
+      }
+      console.error("Update card error:", error);
+      res.status(500).json({ error: "Failed to update card" });
     }
   });
 
-  // Clear all cards and sync to OSS
-  app.delete("/api/cards/clear", async (req, res) => {
+
+
+  // Columns and first rows of a CSV/TSV/XLSX; with an "options" field the whole sheet is validated too
+  app.post("/api/cards/upload/preview", requirePermission("cards:write"), upload.single("file"), async (req: MulterRequest, res) => {
     try {
-      await storage.clearCards();
-      
-      res.json({ 
-        message: "All cards cleared successfully"
-      });
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+      if (!isSpreadsheetFile(req.file.originalname)) {
+        return res.status(400).json({ error: "Only CSV, TSV and XLSX files can be previewed" });
+      }
+
+      const rows = await parseSpreadsheet(req.file.buffer, req.file.originalname);
+      const nonBlank = rows.filter(row => !isBlankRow(row));
+      const width = Math.max(0, ...nonBlank.map(row => row.length));
+      const header = nonBlank[0] ?? [];
+      const preview: SpreadsheetPreview = {
+        columns: Array.from({ length: width }, (_, index) => header[index]?.trim() || `列 ${index + 1}`),
+        rows: nonBlank.slice(0, 10),
+        totalRows: nonBlank.length,
+      };
+
+      if (req.body.options) {
+        const options = spreadsheetImportOptionsSchema.parse(JSON.parse(req.body.options));
+        const { cards: validCards, errors } = mapSpreadsheetRows(rows, options);
+        preview.validation = { validCount: validCards.length, errors };
+      }
+      res.json(preview);
     } catch (error) {
-      res.status(500).json({ error: "Failed to clear cards" });
+      if (error instanceof InvalidSpreadsheetError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid column mapping", details: error.errors });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      console.error("Spreadsheet preview error:", error);
+      res.status(500).json({ error: "Failed to read spreadsheet" });
     }
   });
 
+  // List the note types of an .apkg so the client can map Anki fields to card fields
+  app.post("/api/anki/preview", requirePermission("cards:write"), upload.single("file"), async (req: MulterRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
 
-
-  // Health check endpoint
-  app.get("/health", (req, res) => {
-    res.status(200).json({ 
-      status: "ok", 
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime()
-    });
+      const pkg = await readAnkiPackage(req.file.buffer);
+      res.json({ models: summarizeAnkiModels(pkg) });
+    } catch (error) {
+      if (error instanceof InvalidArchiveError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Anki preview error:", error);
+      res.status(500).json({ error: "Failed to read Anki package" });
+    }
   });
 
-  // Generate card images and audio for selected cards
-  app.post("/api/cards/generate", async (req, res) => {
+  // Import the notes of one note type; the multipart body carries the file plus a JSON "options" field.
+  // Like /api/cards/upload, ?dryRun=true only reports what would change and ?strategy= merges matching cards.
+  app.post("/api/anki/import", requirePermission("cards:write"), upload.single("file"), async (req: MulterRequest, res) => {
     try {
-      const { cardIds } = req.body;
-      
-      if (!cardIds || !Array.isArray(cardIds)) {
-        return res.status(400).json({ error: "Card IDs array is required" });
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const results = [];
-      
-      for (const cardId of cardIds) {
-        const card = await storage.getCardById(cardId);
-        if (!card) {
-          results.push({ cardId, success: false, error: "Card not found" });
-          continue;
-        }
+      const dryRun = req.query.dryRun === "true";
+      const strategy = z.enum(mergeStrategies).default("keep_both").safeParse(req.query.strategy || undefined);
+      if (!strategy.success) {
+        return res.status(400).json({ error: "Invalid merge strategy", details: strategy.error.errors });
+      }
 
-        try {
-          // Delete old audio files before generating new ones
-          if (card.word_audio) {
-            const fileName = card.word_audio.split('/').pop();
-            if (fileName) {
-              const oldWordPath = path.join(process.cwd(), "generated", "audio", fileName);
-              try {
-                await fs.unlink(oldWordPath);
-                console.log(`🗑️ Deleted old word audio: ${card.word_audio}`);
-              } catch (err) {
-                // File might not exist, ignore error
-              }
-            }
-          }
-          
-          if (card.example_audio) {
-            const fileName = card.example_audio.split('/').pop();
-            if (fileName) {
-              const oldExamplePath = path.join(process.cwd(), "generated", "audio", fileName);
-              try {
-                await fs.unlink(oldExamplePath);
-                console.log(`🗑️ Deleted old example audio: ${card.example_audio}`);
-              } catch (err) {
-                // File might not exist, ignore error
-              }
-            }
-          }
-          
-          // Generate new audio files with better error handling
-          let wordAudioPath = null;
-          let exampleAudioPath = null;
-          let wordError = null;
-          let exampleError = null;
-          
-          try {
-            wordAudioPath = await generateAudio(card.thai, `word_${cardId}_${Date.now()}.mp3`);
-          } catch (error) {
-            wordError = String(error);
-            console.error(`Failed to generate word audio for card ${cardId}:`, error);
-          }
-          
-          try {
-            exampleAudioPath = await generateAudio(card.example, `example_${cardId}_${Date.now()}.mp3`);
-          } catch (error) {
-            exampleError = String(error);
-            console.error(`Failed to generate example audio for card ${cardId}:`, error);
-          }
-          
-          // Generate card image
-          const cardImagePath = await generateCardImage(card, `card_${cardId}_${Date.now()}.svg`);
-          
-          // Update card with new file paths (only if generation was successful)
-          const updateData: any = { card_image: cardImagePath };
-          if (wordAudioPath) updateData.word_audio = wordAudioPath;
-          if (exampleAudioPath) updateData.example_audio = exampleAudioPath;
-          
-          await storage.updateCard(cardId, updateData);
-          
-          const errors = [];
-          if (wordError) errors.push(`Word audio: ${wordError}`);
-          if (exampleError) errors.push(`Example audio: ${exampleError}`);
-          
-          console.log(`✅ Updated card ${cardId} - Word: ${wordAudioPath || 'FAILED'}, Example: ${exampleAudioPath || 'FAILED'}`);
-          
-          results.push({ 
-            cardId, 
-            success: !wordError && !exampleError, // Success only if both audio files generated
-            wordAudio: wordAudioPath,
-            exampleAudio: exampleAudioPath,
-            cardImage: cardImagePath,
-            errors: errors.length > 0 ? errors : undefined
-          });
-          
-        } catch (error) {
-          console.error(`Error generating files for card ${cardId}:`, error);
-          results.push({ cardId, success: false, error: String(error) });
-        }
+      const options = ankiImportRequestSchema.parse(JSON.parse(req.body.options ?? "{}"));
+      if ((await findMissingCourses([options.level])).length > 0) {
+        return res.status(400).json({ error: `Unknown course: ${options.level}` });
       }
-      
-      res.json({ success: true, results });
-      
+      const pkg = await readAnkiPackage(req.file.buffer);
+      const notes = readAnkiNotes(pkg, options);
+
+      const diff = await diffUpload(notes.cards);
+      if (dryRun) {
+        return res.json({ dryRun: true, diff });
+      }
+
+      const merged = await applyUpload(diff, strategy.data, {
+        source: "anki",
+        filename: req.file.originalname,
+        created_by: req.user?.id ?? null,
+      });
+      const { batch, skipped } = merged;
+      const created = await importAnkiSounds(pkg, notes, merged.created, merged.incoming);
+      const updated = await importAnkiSounds(pkg, notes, merged.updated, merged.incoming);
+      console.log(`🎯 Anki package merged with "${strategy.data}": ${created.length} created, ${updated.length} updated, ${skipped} skipped`);
+
+      const allCards = await storage.getAllCards();
+      res.json({
+        message: "Cards uploaded successfully",
+        batchId: batch.id,
+        count: created.length,
+        updated: updated.length,
+        skipped,
+        total: allCards.length,
+        cards: created
+      });
     } catch (error) {
-      console.error("Error in card generation:", error);
-      res.status(500).json({ error: "Failed to generate card files" });
+      if (error instanceof InvalidArchiveError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid field mapping", details: error.errors });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      console.error("Anki import error:", error);
+      res.status(500).json({ error: "Failed to import Anki package" });
     }
   });
 
-  // Direct audio file download - serve existing files only
-  app.get("/api/audio/:filepath(*)", async (req, res) => {
+  app.get("/api/imports/:batchId", requirePermission("cards:write"), async (req, res) => {
     try {
-      const { filepath } = req.params;
-      console.log(`🎵 Direct audio request: ${filepath}`);
-      
-      // Extract filename from path (remove "generated/audio/" prefix if present)
-      const filename = filepath.replace(/^generated\/audio\//, '');
-      const audioPath = path.join(process.cwd(), "generated", "audio", filename);
-      
-      console.log(`🔍 Looking for audio file: ${audioPath}`);
-      
-      const exists = await fs.access(audioPath).then(() => true).catch(() => false);
-      if (!exists) {
-        console.log(`❌ Audio file not found: ${filename}`);
-        return res.status(404).json({ 
-          error: "音频文件不存在", 
-          message: "请先生成音频文件后再下载",
-          requested: filename 
-        });
+      const batchId = parseInt(req.params.batchId, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid import batch ID" });
       }
-      
-      // Check file size to avoid serving tiny/corrupted files
-      const stats = await fs.stat(audioPath);
-      if (stats.size < 1000) { // Less than 1KB is probably not a valid audio file
-        console.log(`⚠️ Audio file too small: ${filename} (${stats.size} bytes)`);
-        return res.status(404).json({ 
-          error: "音频文件无效", 
-          message: "音频文件损坏或未正确生成，请重新生成",
-          size: stats.size 
-        });
+
+      const batch = await storage.getImportBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ error: "Import batch not found" });
       }
-      
-      // Set headers for audio download
-      res.setHeader("Content-Type", "audio/mpeg");
-      res.setHeader("Content-Length", stats.size.toString());
-      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-      res.setHeader("Cache-Control", "public, max-age=86400");
-      
-      const fileStream = await fs.readFile(audioPath);
-      console.log(`✅ Serving audio file: ${filename} (${fileStream.length} bytes)`);
-      res.send(fileStream);
-      
+      res.json(batch);
     } catch (error) {
-      console.error("Error serving audio file:", error);
-      res.status(500).json({ error: "Failed to serve audio file" });
+      console.error("Get import batch error:", error);
+      res.status(500).json({ error: "Failed to get import batch" });
     }
   });
 
-  // Serve generated card images
-  app.get("/api/images/generated/:filename", async (req, res) => {
+  // Undo an upload: delete the cards it created and restore the cards it overwrote. The created cards'
+  // audio and images are deleted with them unless another card still uses the files.
+  app.delete("/api/imports/:batchId", requirePermission("cards:write"), async (req, res) => {
     try {
-      const { filename } = req.params;
-      const imagePath = path.join(process.cwd(), "generated", "images", filename);
-      
-      const exists = await fs.access(imagePath).then(() => true).catch(() => false);
-      if (!exists) {
-        return res.status(404).json({ error: "Image file not found" });
+      const batchId = parseInt(req.params.batchId, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid import batch ID" });
       }
-      
-      res.setHeader("Content-Type", "image/svg+xml");
-      const fileStream = await fs.readFile(imagePath);
-      res.send(fileStream);
-      
+
+      const pending = await storage.getImportBatch(batchId);
+      if (!pending) {
+        return res.status(404).json({ error: "Import batch not found" });
+      }
+      const created = await Promise.all(pending.card_ids.map(id => storage.getCardById(id)));
+
+      const batch = await storage.undoImportBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ error: "Import batch not found" });
+      }
+      await releaseCardMedia(created.filter((card): card is Card => card !== null));
+      res.json({
+        message: "Import undone successfully",
+        deleted: batch.card_ids.length,
+        restored: batch.replaced_cards.length,
+      });
     } catch (error) {
-      console.error("Error serving image file:", error);
-      res.status(500).json({ error: "Failed to serve image file" });
+      console.error("Undo import error:", error);
+      res.status(500).json({ error: "Failed to undo import" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
-
-// Helper function to generate audio using SoundofText API
-async function generateAudio(text: string, filename: string): Promise<string> {
-  try {
-    // Create directories if they don't exist
-    const audioDir = path.join(process.cwd(), "generated", "audio");
-    await fs.mkdir(audioDir, { recursive: true });
-    
-    console.log(`🎵 Generating high-quality audio for: "${text}"`);
-    
-    // Try SoundofText API with improved error handling and retries
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        console.log(`🔄 Attempt ${attempt}/3 for SoundofText API`);
-        
-        const generateResponse = await fetch('https://api.soundoftext.com/sounds', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            engine: 'Google',
-            data: {
-              text: text,
-              voice: 'th-TH'
-            }
-          })
-        });
+  // Stream a ZIP of cards with their images, audio and a re-importable manifest.json,
+  // or an Anki .apkg with format=apkg
+  app.get("/api/export", async (req, res) => {
+    try {
+      const format = z.enum(exportFormats).default("zip").parse(req.query.format);
+      const { level, ids } = req.query;
 
-        if (generateResponse.ok) {
-          const result = await generateResponse.json();
-          console.log(`📝 SoundofText response:`, result);
-          
-          if (result.success && result.id) {
-            // Poll for completion with longer timeout
-            const audioUrl = await pollForAudioCompletion(result.id, 20);
-            
-            if (audioUrl) {
-              // Download and save the audio file
-              const audioResponse = await fetch(audioUrl);
-              if (audioResponse.ok) {
-                const audioBuffer = await audioResponse.arrayBuffer();
-                
-                // Verify we got actual audio data
-                if (audioBuffer.byteLength > 1000) { // At least 1KB for valid audio
-                  const audioPath = path.join(audioDir, filename);
-                  await fs.writeFile(audioPath, Buffer.from(audioBuffer));
-                  
-                  console.log(`✅ Generated high-quality audio: ${filename} (${audioBuffer.byteLength} bytes)`);
-                  return `generated/audio/${filename}`;
-                } else {
-                  console.warn(`⚠️  Audio file too small: ${audioBuffer.byteLength} bytes`);
-                }
-              }
-            }
-          }
-        } else {
-          console.warn(`❌ SoundofText API failed: ${generateResponse.status} ${generateResponse.statusText}`);
+      let cardList: Card[];
+      if (ids) {
+        const cardIds = String(ids).split(",").map(id => parseInt(id, 10));
+        if (cardIds.some(id => isNaN(id))) {
+          return res.status(400).json({ error: "Invalid card IDs" });
         }
-      } catch (apiError) {
-        console.warn(`❌ SoundofText API attempt ${attempt} failed:`, apiError);
-        if (attempt < 3) {
-          await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s before retry
+        const found = await Promise.all(cardIds.map(id => storage.getCardById(id)));
+        cardList = found.filter((card): card is Card => card !== null);
+      } else if (level) {
+        const levelNum = parseInt(level as string, 10);
+        if (isNaN(levelNum) || levelNum < 1) {
+          return res.status(400).json({ error: "Invalid level. Must be a course ID." });
         }
+        cardList = await storage.getCardsByLevel(levelNum);
+      } else {
+        cardList = await storage.getAllCards();
+      }
+
+      if (cardList.length === 0) {
+        return res.status(404).json({ error: "No cards to export" });
+      }
+
+      const zip = format === "apkg" ? await buildAnkiPackage(cardList) : await buildCardArchive(cardList);
+      const filename = `thai_cards_${new Date().toISOString().split('T')[0]}.${format}`;
+      res.setHeader("Content-Type", format === "apkg" ? "application/apkg" : "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      zip.generateNodeStream({ type: "nodebuffer", streamFiles: true })
+        .on("error", (error) => {
+          console.error("Export stream error:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid export format", details: error.errors });
       }
+      console.error("Export error:", error);
+      res.status(500).json({ error: "Failed to export cards" });
     }
-    
-    // If all attempts failed, throw an error instead of creating fallback
-    throw new Error(`Failed to generate audio for "${text}" after 3 attempts`);
-    
-  } catch (error) {
-    console.error("Error generating audio:", error);
-    throw error;
-  }
-}
+  });
 
-// Helper function to poll SoundofText API for completion
-async function pollForAudioCompletion(id: string, maxAttempts: number = 15): Promise<string | null> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+  // PNG of a card: the generated image when there is one, otherwise rendered on the fly.
+  // Passing ?template= always renders with that layout.
+  app.get("/api/cards/:id/image", async (req, res) => {
     try {
-      const statusResponse = await fetch(`https://api.soundoftext.com/sounds/${id}`);
-      
-      if (statusResponse.ok) {
-        const statusResult = await statusResponse.json();
-        
-        if (statusResult.status === 'Done') {
-          return statusResult.location;
-        }
-        
-        if (statusResult.status === 'Error') {
-          throw new Error('SoundofText generation failed');
+      const cardId = parseInt(req.params.id, 10);
+      if (isNaN(cardId)) {
+        return res.status(400).json({ error: "Invalid card ID" });
+      }
+      const template = z.enum(cardImageTemplates).optional().parse(req.query.template);
+
+      const card = await storage.getCardById(cardId);
+      if (!card) {
+        return res.status(404).json({ error: "Card not found" });
+      }
+
+      if (!template && card.card_image?.endsWith(".png")) {
+        const image = await getMediaStore().get(`generated/images/${path.basename(card.card_image)}`);
+        if (image) {
+          res.setHeader("Content-Type", "image/png");
+          return res.send(image);
         }
-        
-        // Wait before next attempt
-        await new Promise(resolve => setTimeout(resolve, 2000));
       }
+
+      const png = await renderCardImage(card, template ?? defaultCardImageTemplate());
+      res.setHeader("Content-Type", "image/png");
+      res.send(png);
     } catch (error) {
-      console.warn(`Audio polling attempt ${attempt + 1} failed:`, error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid template", details: error.errors });
+      }
+      console.error("Card image error:", error);
+      res.status(500).json({ error: "Failed to render card image" });
     }
-  }
-  
-  return null;
+  });
+
+  // Health check endpoint
+  app.get("/health", (req, res) => {
+    res.status(200).json({ 
+      status: "ok", 
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime()
+    });
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
 
-// Helper function to generate card image using SVG
-async function generateCardImage(card: any, filename: string): Promise<string> {
-  try {
-    // Create directories if they don't exist
-    const imageDir = path.join(process.cwd(), "generated", "images");
-    await fs.mkdir(imageDir, { recursive: true });
-    
-    // Generate SVG content
-    const svgContent = `
-      <svg width="800" height="600" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <style>
-            .thai-text { font-family: system-ui, -apple-system, 'Segoe UI', 'Roboto', 'Helvetica Neue', Arial, sans-serif; }
-            .main-text { font-size: 64px; font-weight: bold; fill: #1f2937; text-anchor: middle; }
-            .pronunciation { font-size: 24px; font-style: italic; fill: #6b7280; text-anchor: middle; }
-            .chinese-text { font-size: 36px; font-weight: bold; fill: #1f2937; text-anchor: middle; }
-            .example-bg { fill: #fef3c7; stroke: #f59e0b; stroke-width: 4; }
-            .example-title { font-size: 20px; font-weight: bold; fill: #92400e; }
-            .example-text { font-size: 28px; font-weight: bold; fill: #78350f; text-anchor: middle; }
-            .example-translation { font-size: 24px; fill: #92400e; text-anchor: middle; }
-          </style>
-        </defs>
-        
-        <!-- Background -->
-        <rect width="800" height="600" fill="#ffffff" stroke="#e5e7eb" stroke-width="2"/>
-        
-        <!-- Thai word -->
-        <text x="400" y="150" class="thai-text main-text">${card.thai}</text>
-        
-        <!-- Pronunciation -->
-        <text x="400" y="190" class="pronunciation">${card.pronunciation}</text>
-        
-        <!-- Divider -->
-        <line x1="100" y1="220" x2="700" y2="220" stroke="#d1d5db" stroke-width="1"/>
-        
-        <!-- Chinese translation -->
-        <text x="400" y="280" class="chinese-text">${card.chinese}</text>
-        
-        <!-- Example section background -->
-        <rect x="60" y="320" width="680" height="220" class="example-bg"/>
-        
-        <!-- Example label -->
-        <text x="80" y="350" class="example-title">例句 Example:</text>
-        
-        <!-- Example text -->
-        <text x="400" y="390" class="thai-text example-text">${card.example}</text>
-        
-        <!-- Example translation -->
-        <text x="400" y="450" class="example-translation">${card.example_translation}</text>
-      </svg>
-    `;
-    
-    // Save SVG file (we'll convert to PNG later if needed)
-    const svgFilename = filename.replace('.png', '.svg');
-    const filePath = path.join(imageDir, svgFilename);
-    await fs.writeFile(filePath, svgContent);
-    
-    return `generated/images/${svgFilename}`;
-    
-  } catch (error) {
-    console.error("Error generating card image:", error);
-    throw error;
-  }
+// Fields rendered into generated audio or card images
+const MEDIA_FIELDS = ["thai", "chinese", "pronunciation", "example", "example_translation"] as const;
+
+function hasMediaAffectingChange(card: Card, changes: Partial<Card>): boolean {
+  return MEDIA_FIELDS.some(field => changes[field] !== undefined && changes[field] !== card[field]);
 }
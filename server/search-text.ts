@@ -0,0 +1,115 @@
+import type Database from "better-sqlite3";
+import type { Card } from "@shared/schema";
+import { segmentThai } from "./thai-segmenter";
+
+// Thai runs are segmented into words, each Chinese character is its own token, and anything else
+// is split on whitespace and punctuation. Text is indexed and queried through the same function.
+// (Unicode property patterns go through RegExp because the tsconfig target rejects the u flag on literals.)
+const TOKEN_PATTERN = new RegExp(String.raw`[\u0E00-\u0E7F]+|\p{Script=Han}|(?:(?![\u0E00-\u0E7F\p{Script=Han}])[\p{L}\p{N}\p{M}])+`, "gu");
+const HAN = new RegExp(String.raw`^\p{Script=Han}`, "u");
+const LETTER = new RegExp(String.raw`\p{L}`, "u");
+const MARKS = new RegExp(String.raw`\p{M}`, "gu");
+const DIGITS = new RegExp(String.raw`\p{N}`, "gu");
+
+// Romanization letters without a plain ASCII equivalent, spelled the way learners usually type them
+const ROMAN_LETTERS: Record<string, string> = { "ɔ": "o", "ɛ": "ae", "ʉ": "ue", "ə": "oe", "ŋ": "ng" };
+
+// Drops tone marks ("sà" -> "sa") and tone numbers ("sa2" -> "sa") so romanization matches however it is typed
+function foldRoman(word: string): string {
+  const folded = word.normalize("NFD").replace(MARKS, "").toLowerCase()
+    .replace(/[ɔɛʉəŋ]/g, letter => ROMAN_LETTERS[letter]);
+  return LETTER.test(folded) ? folded.replace(DIGITS, "") : folded;
+}
+
+export function searchTokens(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [run] of Array.from(text.matchAll(TOKEN_PATTERN))) {
+    if (/^[\u0E00-\u0E7F]/.test(run)) {
+      tokens.push(...segmentThai(run));
+    } else if (HAN.test(run)) {
+      tokens.push(run);
+    } else {
+      const folded = foldRoman(run);
+      if (folded) tokens.push(folded);
+    }
+  }
+  return tokens;
+}
+
+// Short fields are also indexed run together, so "sawatdii" finds "sà-wàt-dii" and a headword
+// the segmenter splits can still be found whole
+export function joinedTokens(text: string): string[] {
+  const tokens = searchTokens(text);
+  return tokens.length > 1 ? [...tokens, tokens.join("")] : tokens;
+}
+
+// Index columns in cards_fts order, with the weight each column gets when ranking
+export const searchColumns: { weight: number; tokens: (card: Card) => string[] }[] = [
+  { weight: 10, tokens: card => joinedTokens(card.thai) },
+  { weight: 8, tokens: card => searchTokens(card.chinese) },
+  { weight: 5, tokens: card => joinedTokens(card.pronunciation) },
+  { weight: 2, tokens: card => searchTokens(card.example) },
+  { weight: 2, tokens: card => searchTokens(card.example_translation) },
+];
+
+// Each whitespace-separated part of the query becomes a phrase whose last token may be a prefix;
+// all parts must match
+export function queryPhrases(query: string): string[][] {
+  return query.split(/\s+/).map(searchTokens).filter(tokens => tokens.length > 0);
+}
+
+// FTS5 MATCH expression for `query`, or null when it has nothing searchable
+export function buildMatchQuery(query: string): string | null {
+  const phrases = queryPhrases(query);
+  if (phrases.length === 0) return null;
+  // Tokens only contain letters, digits and marks, so they never need escaping
+  return phrases.map(tokens => `"${tokens.join(" ")}"*`).join(" ");
+}
+
+// SQLite FTS5 keeps its own copy of the tokens; triggers on cards call these functions to fill it
+export function registerSearchFunctions(sqlite: Database.Database) {
+  sqlite.function("search_tokens", { deterministic: true }, (text: unknown) =>
+    searchTokens(String(text ?? "")).join(" "));
+  sqlite.function("search_joined_tokens", { deterministic: true }, (text: unknown) =>
+    joinedTokens(String(text ?? "")).join(" "));
+}
+
+function matchesPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    const matched = phrase.every((token, offset) => offset === phrase.length - 1
+      ? tokens[start + offset].startsWith(token)
+      : tokens[start + offset] === token);
+    if (matched) return true;
+  }
+  return false;
+}
+
+// In-memory ranking for storages without FTS5; same tokens, column weights and exact-match boost as SQLite
+export function rankCards(cardList: Card[], query: string, limit: number): Card[] {
+  const phrases = queryPhrases(query);
+  if (phrases.length === 0) return [];
+  const exact = query.trim();
+
+  const scored: { card: Card; score: number }[] = [];
+  for (const card of cardList) {
+    const columns = searchColumns.map(column => ({ weight: column.weight, tokens: column.tokens(card) }));
+    let score = 0;
+    for (const phrase of phrases) {
+      const weights = columns.filter(column => matchesPhrase(column.tokens, phrase)).map(column => column.weight);
+      if (weights.length === 0) {
+        score = 0;
+        break;
+      }
+      score += Math.max(...weights);
+    }
+    if (score === 0) continue;
+    // A card whose headword or translation is exactly the query comes first
+    if (card.thai === exact || card.chinese === exact) score += 1000;
+    scored.push({ card, score });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.card.id - b.card.id)
+    .slice(0, limit)
+    .map(({ card }) => card);
+}
@@ -0,0 +1,27 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 200;
+
+export function registerSearchRoutes(app: Express) {
+  // Search every card field across all levels; Thai is matched by word, romanization ignores tones
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ error: "Missing search query" });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_SEARCH_LIMIT;
+      if (isNaN(limit) || limit < 1) {
+        return res.status(400).json({ error: "Invalid limit" });
+      }
+
+      res.json(await storage.searchCards(query, Math.min(limit, MAX_SEARCH_LIMIT)));
+    } catch (error) {
+      console.error("Search cards error:", error);
+      res.status(500).json({ error: "Failed to search cards" });
+    }
+  });
+}
@@ -0,0 +1,86 @@
+import session from "express-session";
+import type Database from "better-sqlite3";
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface SessionRow {
+  sess: string;
+}
+
+// express-session store backed by the application's SQLite database,
+// so logins survive server restarts without an extra service.
+export class SqliteSessionStore extends session.Store {
+  private sqlite: Database.Database;
+
+  constructor(sqlite: Database.Database) {
+    super();
+    this.sqlite = sqlite;
+
+    this.sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        sid TEXT PRIMARY KEY,
+        sess TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `);
+
+    // Drop expired sessions periodically; unref so the timer never keeps the process alive
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    try {
+      const row = this.sqlite
+        .prepare("SELECT sess FROM sessions WHERE sid = ? AND expires_at > ?")
+        .get(sid, Date.now()) as SessionRow | undefined;
+      callback(null, row ? JSON.parse(row.sess) : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    try {
+      this.sqlite
+        .prepare("INSERT OR REPLACE INTO sessions (sid, sess, expires_at) VALUES (?, ?, ?)")
+        .run(sid, JSON.stringify(sess), this.getExpiry(sess));
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    try {
+      this.sqlite.prepare("DELETE FROM sessions WHERE sid = ?").run(sid);
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    try {
+      this.sqlite
+        .prepare("UPDATE sessions SET expires_at = ? WHERE sid = ?")
+        .run(this.getExpiry(sess), sid);
+    } catch (error) {
+      console.error("Session touch error:", error);
+    }
+    callback?.();
+  }
+
+  private getExpiry(sess: session.SessionData): number {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires).getTime() : Date.now() + DEFAULT_TTL_MS;
+  }
+
+  private prune() {
+    try {
+      this.sqlite.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(Date.now());
+    } catch (error) {
+      console.error("Session prune error:", error);
+    }
+  }
+}
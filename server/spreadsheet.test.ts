@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { parseSpreadsheet, InvalidSpreadsheetError } from "./spreadsheet";
+
+// A workbook whose first worksheet holds the given <row> elements
+async function workbook(rowsXml: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("xl/worksheets/sheet1.xml", `<?xml version="1.0" encoding="UTF-8"?><worksheet><sheetData>${rowsXml}</sheetData></worksheet>`);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+function inlineCell(reference: string, text: string): string {
+  return `<c r="${reference}" t="inlineStr"><is><t>${text}</t></is></c>`;
+}
+
+describe("parseSpreadsheet with .xlsx", () => {
+  it("keeps rows and cells at the position their references give", async () => {
+    const buffer = await workbook(`<row r="1">${inlineCell("A1", "ไก่")}${inlineCell("C1", "鸡")}</row><row r="3">${inlineCell("B3", "ไข่")}</row>`);
+    expect(await parseSpreadsheet(buffer, "cards.xlsx")).toEqual([["ไก่", "", "鸡"], [], ["", "ไข่"]]);
+  });
+
+  it("refuses a row number past the last worksheet row", async () => {
+    const buffer = await workbook(`<row r="2000000000">${inlineCell("A2000000000", "ไก่")}</row>`);
+    await expect(parseSpreadsheet(buffer, "cards.xlsx")).rejects.toThrow(InvalidSpreadsheetError);
+    await expect(parseSpreadsheet(buffer, "cards.xlsx")).rejects.toThrow("past the last worksheet row");
+  });
+
+  it("refuses a column past XFD", async () => {
+    const buffer = await workbook(`<row r="1">${inlineCell("ZZZZZZZ1", "ไก่")}</row>`);
+    await expect(parseSpreadsheet(buffer, "cards.xlsx")).rejects.toThrow("past the last worksheet column");
+
+    const lastColumn = await workbook(`<row r="1">${inlineCell("XFD1", "ไก่")}</row>`);
+    expect((await parseSpreadsheet(lastColumn, "cards.xlsx"))[0]).toHaveLength(16_384);
+  });
+
+  it("refuses a sheet whose padded rows and cells add up past the cell limit", async () => {
+    const farRow = await workbook(`<row r="1048576">${inlineCell("A1048576", "ไก่")}</row>`);
+    await expect(parseSpreadsheet(farRow, "cards.xlsx")).rejects.toThrow("more than 1000000 cells");
+
+    const wideRows = Array.from({ length: 100 }, (_, i) => `<row r="${i + 1}">${inlineCell(`XFD${i + 1}`, "ไก่")}</row>`).join("");
+    await expect(parseSpreadsheet(await workbook(wideRows), "cards.xlsx")).rejects.toThrow(InvalidSpreadsheetError);
+  });
+});
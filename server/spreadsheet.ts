@@ -0,0 +1,218 @@
+import JSZip from "jszip";
+import path from "path";
+import { insertCardSchema, lessonTitleSchema, type UploadCard, type PartOfSpeech, type SpreadsheetImportOptions, type SpreadsheetRowError } from "@shared/schema";
+
+export const SPREADSHEET_EXTENSIONS = [".csv", ".tsv", ".xlsx"];
+
+export class InvalidSpreadsheetError extends Error {}
+
+export function isSpreadsheetFile(filename: string): boolean {
+  return SPREADSHEET_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+}
+
+// RFC 4180 style parsing: quoted fields may contain delimiters, newlines and doubled quotes
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"" && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Concatenate the <t> runs of a shared or inline string
+function stringItemText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => decodeXml(match[1])).join("");
+}
+
+// The size of an Excel worksheet (columns A to XFD). Row and column numbers are padded out to their position,
+// so a workbook claiming cells beyond these is refused before anything is allocated.
+const MAX_ROWS = 1_048_576;
+const MAX_COLUMNS = 16_384;
+// Rows and cells one sheet may take up, counting the empty ones padded in for gaps
+const MAX_CELLS = 1_000_000;
+
+// "BC12" -> 54 (zero-based column index)
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, "");
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Read the first worksheet of an .xlsx. Only cell values are needed, so the XML is scanned directly.
+async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw new InvalidSpreadsheetError("File is not a valid .xlsx workbook");
+  }
+
+  const sheetPath = Object.keys(zip.files)
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, ""), 10) - parseInt(b.replace(/\D/g, ""), 10))[0];
+  if (!sheetPath) {
+    throw new InvalidSpreadsheetError("Workbook has no worksheets");
+  }
+
+  const sharedXml = await zip.file("xl/sharedStrings.xml")?.async("string");
+  const sharedStrings = sharedXml
+    ? Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(match => stringItemText(match[1]))
+    : [];
+
+  const sheetXml = await zip.file(sheetPath)!.async("string");
+  const rows: string[][] = [];
+  let allocated = 0;
+  const allocate = (count: number) => {
+    allocated += count;
+    if (allocated > MAX_CELLS) {
+      throw new InvalidSpreadsheetError(`Worksheet has more than ${MAX_CELLS} cells`);
+    }
+  };
+  for (const rowMatch of Array.from(sheetXml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g))) {
+    // Empty rows are omitted from the XML; use the row number so later rows keep their position
+    const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? String(rows.length + 1), 10);
+    if (rowNumber > MAX_ROWS) {
+      throw new InvalidSpreadsheetError(`Row ${rowNumber} is past the last worksheet row (${MAX_ROWS})`);
+    }
+    allocate(Math.max(0, rowNumber - 1 - rows.length) + 1);
+    while (rows.length < rowNumber - 1) rows.push([]);
+    const row: string[] = [];
+    for (const cellMatch of Array.from(rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && rawValue !== undefined) value = sharedStrings[parseInt(rawValue, 10)] ?? "";
+      else if (type === "inlineStr") value = stringItemText(body);
+      else if (rawValue !== undefined) value = decodeXml(rawValue);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      if (index >= MAX_COLUMNS) {
+        throw new InvalidSpreadsheetError(`Cell ${reference} is past the last worksheet column (XFD)`);
+      }
+      allocate(Math.max(0, index - row.length) + 1);
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Parse CSV, TSV or XLSX into rows of cell strings; rows[i] is spreadsheet row i + 1
+export async function parseSpreadsheet(buffer: Buffer, filename: string): Promise<string[][]> {
+  const extension = path.extname(filename).toLowerCase();
+  let rows: string[][];
+  if (extension === ".xlsx") {
+    rows = await parseXlsx(buffer);
+  } else if (extension === ".csv" || extension === ".tsv") {
+    // Spreadsheet apps often prepend a BOM to UTF-8 CSV
+    const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+    rows = parseDelimited(text, extension === ".tsv" ? "\t" : ",");
+  } else {
+    throw new InvalidSpreadsheetError(`Unsupported spreadsheet type: ${extension || filename}`);
+  }
+  return rows;
+}
+
+export function isBlankRow(row: string[]): boolean {
+  return row.every(cell => cell.trim() === "");
+}
+
+// A tags cell lists several tags separated by commas, semicolons or 、
+export function splitTags(text: string): string[] {
+  const tags = text.split(/[,，、;；]/).map(tag => tag.trim()).filter(tag => tag !== "");
+  return Array.from(new Set(tags));
+}
+
+export interface MappedRows {
+  cards: UploadCard[];
+  errors: SpreadsheetRowError[];
+}
+
+// Turn sheet rows into cards using the column mapping; row numbers in errors match the spreadsheet
+export function mapSpreadsheetRows(rows: string[][], options: SpreadsheetImportOptions): MappedRows {
+  const { mapping, level, hasHeader } = options;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const firstRowNumber = hasHeader ? 2 : 1;
+  const cell = (row: string[], column: number | undefined) => (column === undefined ? "" : (row[column] ?? "").trim());
+
+  const cards: UploadCard[] = [];
+  const errors: SpreadsheetRowError[] = [];
+  dataRows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    const lesson = cell(row, mapping.lesson);
+    const partOfSpeech = cell(row, mapping.part_of_speech).toLowerCase();
+    const tags = splitTags(cell(row, mapping.tags));
+    const card: UploadCard = {
+      thai: cell(row, mapping.thai),
+      chinese: cell(row, mapping.chinese),
+      pronunciation: cell(row, mapping.pronunciation),
+      example: cell(row, mapping.example),
+      example_translation: cell(row, mapping.example_translation),
+      level,
+      ...(lesson ? { lesson } : {}),
+      ...(partOfSpeech ? { part_of_speech: partOfSpeech as PartOfSpeech } : {}),
+      ...(mapping.tags !== undefined ? { tags } : {}),
+    };
+
+    const messages: string[] = [];
+    if (!card.thai) messages.push("Thai word is empty");
+    if (!card.chinese) messages.push("Chinese translation is empty");
+    const parsed = insertCardSchema.safeParse(card);
+    if (!parsed.success) messages.push(...parsed.error.errors.map(error => `${error.path.join(".")}: ${error.message}`));
+    const parsedLesson = lesson ? lessonTitleSchema.safeParse(lesson) : undefined;
+    if (parsedLesson && !parsedLesson.success) messages.push(...parsedLesson.error.errors.map(error => `lesson: ${error.message}`));
+
+    if (messages.length > 0) {
+      errors.push({ row: firstRowNumber + index, messages });
+    } else {
+      cards.push(card);
+    }
+  });
+  return { cards, errors };
+}
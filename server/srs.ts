@@ -0,0 +1,74 @@
+import type { ReviewGrade, ReviewState } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3.0;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "again" cards come back within the same session
+
+export interface ScheduleResult {
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  due_at: number;
+  last_reviewed_at: number;
+}
+
+type PreviousState = Pick<ReviewState, "ease" | "interval" | "repetitions" | "lapses">;
+
+const NEW_CARD_STATE: PreviousState = {
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+};
+
+// SM-2 style scheduler with Anki's four grade buttons.
+// Intervals are in days; "again" resets the card into a short relearning step.
+export function scheduleReview(
+  previous: PreviousState | null | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ScheduleResult {
+  const state = previous ?? NEW_CARD_STATE;
+  let { ease, interval, repetitions, lapses } = state;
+
+  switch (grade) {
+    case "again":
+      if (repetitions > 0) lapses += 1;
+      repetitions = 0;
+      interval = 0;
+      ease -= 0.2;
+      break;
+    case "hard":
+      interval = repetitions === 0 ? 1 : Math.max(1, interval * 1.2);
+      repetitions += 1;
+      ease -= 0.15;
+      break;
+    case "good":
+      if (repetitions === 0) interval = 1;
+      else if (repetitions === 1) interval = 3;
+      else interval = interval * ease;
+      repetitions += 1;
+      break;
+    case "easy":
+      interval = repetitions === 0 ? 4 : interval * ease * 1.3;
+      repetitions += 1;
+      ease += 0.15;
+      break;
+  }
+
+  ease = Math.min(MAX_EASE, Math.max(MIN_EASE, ease));
+  interval = Math.round(interval * 100) / 100;
+
+  const due_at = grade === "again" ? now + RELEARN_DELAY_MS : now + interval * DAY_MS;
+
+  return {
+    ease,
+    interval,
+    repetitions,
+    lapses,
+    due_at: Math.round(due_at),
+    last_reviewed_at: now,
+  };
+}
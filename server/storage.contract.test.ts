@@ -0,0 +1,429 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import pg from "pg";
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import * as pgSchema from "@shared/pg-schema";
+import type { Card, InsertCard, CardSortField } from "@shared/schema";
+import { MemStorage, SqliteStorage, compareCards, type IStorage, type ImportPlan } from "./storage";
+import { PgStorage } from "./pg-storage";
+import { startTestPostgres } from "./test-postgres";
+
+// Every IStorage implementation must behave the same; each backend below runs the same suite.
+// Postgres comes from test-postgres.ts; without one the Postgres tests are skipped with a warning.
+
+const postgres = await startTestPostgres();
+if (!postgres.url) {
+  console.warn(`Skipping the Postgres storage tests, embedded Postgres did not start: ${postgres.reason}. Set TEST_DATABASE_URL to run them against an existing server.`);
+}
+
+afterAll(async () => {
+  if (postgres.url) await postgres.stop();
+});
+
+interface Backend {
+  name: string;
+  open(): Promise<IStorage>;
+  close(): Promise<void>;
+}
+
+// A fresh database on the test Postgres server; dropped again by the returned function. It collates
+// text for en-US, like the docker-compose database, whatever locale the server was set up with.
+async function createPostgresDatabase(serverUrl: string): Promise<{ url: string; drop: () => Promise<void> }> {
+  const name = `storage_contract_${process.pid}_${Date.now()}`;
+  const admin = new pg.Client({ connectionString: serverUrl });
+  await admin.connect();
+  await admin.query(`CREATE DATABASE ${name} TEMPLATE template0 ENCODING 'UTF8' LOCALE_PROVIDER icu ICU_LOCALE 'en-US' LOCALE 'C.UTF-8'`);
+  await admin.end();
+
+  const url = new URL(serverUrl);
+  url.pathname = `/${name}`;
+  return {
+    url: url.toString(),
+    drop: async () => {
+      const client = new pg.Client({ connectionString: serverUrl });
+      await client.connect();
+      await client.query(`DROP DATABASE IF EXISTS ${name} WITH (FORCE)`);
+      await client.end();
+    },
+  };
+}
+
+function memBackend(): Backend {
+  return {
+    name: "MemStorage",
+    open: async () => new MemStorage(),
+    close: async () => {},
+  };
+}
+
+function sqliteBackend(): Backend {
+  let tempDir: string;
+  return {
+    name: "SqliteStorage",
+    open: async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "storage-contract-"));
+      const storage = new SqliteStorage(path.join(tempDir, "database.sqlite"));
+      await storage.initialize();
+      return storage;
+    },
+    close: async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    },
+  };
+}
+
+function postgresBackend(serverUrl: string): Backend {
+  let storage: PgStorage;
+  let drop: () => Promise<void>;
+  return {
+    name: "PgStorage",
+    open: async () => {
+      const database = await createPostgresDatabase(serverUrl);
+      drop = database.drop;
+      storage = new PgStorage(database.url);
+      await storage.initialize();
+      return storage;
+    },
+    close: async () => {
+      await storage.close();
+      await drop();
+    },
+  };
+}
+
+function card(thai: string, overrides: Partial<InsertCard> = {}): InsertCard {
+  return {
+    thai,
+    chinese: "中文",
+    pronunciation: "-",
+    example: "-",
+    example_translation: "-",
+    level: 1,
+    ...overrides,
+  };
+}
+
+const backends = [memBackend(), sqliteBackend(), ...(postgres.url ? [postgresBackend(postgres.url)] : [])];
+
+describe.each(backends)("$name", backend => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await backend.open();
+  });
+
+  afterAll(async () => {
+    await backend.close();
+  });
+
+  beforeEach(async () => {
+    await storage.clearCards();
+  });
+
+  describe("cursor pagination", () => {
+    // Mixed scripts and repeated values, so ordering and the id tie-break both matter
+    const thaiWords = ["ไก่", "กา", "ขา", "กา", "Apple", "apple", "ข้าว", "กา", "ไก่"];
+
+    async function pageThrough(sort: CardSortField, descending: boolean): Promise<Card[]> {
+      const pages: Card[] = [];
+      let after: { value: string | number; id: number } | undefined;
+      for (;;) {
+        const page = await storage.getCards({ level: 2 }, { sort, descending, limit: 4, after });
+        pages.push(...page);
+        if (page.length < 4) return pages;
+        const last = page[page.length - 1];
+        after = { value: last[sort], id: last.id };
+      }
+    }
+
+    it.each([
+      ["thai", false],
+      ["thai", true],
+      ["chinese", false],
+      ["id", true],
+      ["level", false],
+    ] as [CardSortField, boolean][])("walks every card once sorted by %s (descending: %s)", async (sort, descending) => {
+      const created = await storage.bulkCreateCards(thaiWords.map((thai, index) =>
+        card(thai, { chinese: index % 2 ? "猫" : "狗", level: 2 })));
+      await storage.createCard(card("ไม่", { level: 3 }));
+
+      const expected = [...created].sort((a, b) =>
+        compareCards({ value: a[sort], id: a.id }, { value: b[sort], id: b.id }, descending));
+      const walked = await pageThrough(sort, descending);
+
+      expect(walked.map(c => c.id)).toEqual(expected.map(c => c.id));
+      expect(await storage.countCards({ level: 2 })).toBe(thaiWords.length);
+    });
+
+    it("continues after a cursor whose card has since been deleted", async () => {
+      const created = await storage.bulkCreateCards(["ก", "ข", "ค", "ง"].map(thai => card(thai, { level: 2 })));
+      await storage.deleteCard(created[1].id);
+
+      const rest = await storage.getCards({ level: 2 }, {
+        sort: "thai",
+        descending: false,
+        after: { value: created[1].thai, id: created[1].id },
+      });
+      expect(rest.map(c => c.thai)).toEqual(["ค", "ง"]);
+    });
+  });
+
+  describe("search", () => {
+    let hello: Card;
+    let thanks: Card;
+    let polite: Card;
+
+    beforeEach(async () => {
+      [hello, thanks, polite] = await storage.bulkCreateCards([
+        card("สวัสดี", { chinese: "你好", pronunciation: "sà-wàt-dii", example: "สวัสดีครับ", example_translation: "你好" }),
+        card("ขอบคุณ", { chinese: "谢谢", pronunciation: "kɔ̀ɔp-kun", example: "ขอบคุณมากครับ", example_translation: "非常感谢", level: 2 }),
+        card("ครับ", { chinese: "男性礼貌语气词", pronunciation: "khráp" }),
+      ]);
+    });
+
+    it("puts an exact headword first, then cards that only use it in an example", async () => {
+      const found = await storage.searchCards("ครับ", 10);
+      expect(found[0].id).toBe(polite.id);
+      expect(found.map(c => c.id).sort()).toEqual([hello.id, thanks.id, polite.id].sort());
+    });
+
+    it("matches romanization typed without tone marks and as a prefix", async () => {
+      expect((await storage.searchCards("sawatdii", 10)).map(c => c.id)).toEqual([hello.id]);
+      expect((await storage.searchCards("koop", 10)).map(c => c.id)).toEqual([thanks.id]);
+    });
+
+    it("matches Chinese and respects the limit", async () => {
+      expect((await storage.searchCards("谢谢", 10)).map(c => c.id)).toEqual([thanks.id]);
+      expect(await storage.searchCards("ครับ", 1)).toHaveLength(1);
+    });
+
+    it("returns nothing for unmatched or unsearchable queries", async () => {
+      expect(await storage.searchCards("xyz", 10)).toEqual([]);
+      expect(await storage.searchCards("!!! ...", 10)).toEqual([]);
+    });
+
+    it("finds edited text and forgets deleted cards", async () => {
+      await storage.updateCard(hello.id, { pronunciation: "sa-wat-dee" });
+      await storage.deleteCard(thanks.id);
+
+      expect((await storage.searchCards("sawatdee", 10)).map(c => c.id)).toEqual([hello.id]);
+      expect(await storage.searchCards("谢谢", 10)).toEqual([]);
+    });
+  });
+
+  describe("imports", () => {
+    it("applies a plan with new lessons and undoes it", async () => {
+      const [existing] = await storage.bulkCreateCards([card("กา", { chinese: "乌鸦" })]);
+      await storage.updateCard(existing.id, {
+        word_audio: "/api/audio/generated/word_crow.mp3",
+        word_audio_provider: "stub",
+      });
+
+      const plan: ImportPlan = {
+        batch: { source: "json", filename: "cards.json", created_by: null },
+        newLessons: [{ course_id: 1, lesson: { title: "动物", ordering: 1 } }],
+        updates: [{ id: existing.id, changes: { chinese: "乌鸦（鸟）", lesson_position: 1, media_stale: true }, newLesson: 0 }],
+        creates: [
+          { card: card("ไก่", { chinese: "鸡", lesson_position: 2 }), newLesson: 0 },
+          { card: card("ขา", { chinese: "腿" }) },
+        ],
+      };
+      const result = await storage.applyImport(plan);
+
+      expect(result.batch.lesson_ids).toHaveLength(1);
+      const [lessonId] = result.batch.lesson_ids;
+      expect((await storage.getLesson(lessonId))?.title).toBe("动物");
+      expect((await storage.getCardsByLesson(lessonId)).map(c => c.thai)).toEqual(["กา", "ไก่"]);
+      expect(result.created.map(c => c.thai)).toEqual(["ไก่", "ขา"]);
+      expect(result.replaced[0].chinese).toBe("乌鸦");
+      expect(result.batch.card_ids).toEqual(result.created.map(c => c.id));
+      expect((await storage.getImportBatch(result.batch.id))?.replaced_cards[0].chinese).toBe("乌鸦");
+
+      // Media generated after the import stays attached through the undo
+      await storage.updateCard(existing.id, { word_audio: "/api/audio/generated/word_crow_bird.mp3", media_stale: false });
+      const undone = await storage.undoImportBatch(result.batch.id);
+
+      expect(undone?.id).toBe(result.batch.id);
+      expect(await storage.getImportBatch(result.batch.id)).toBeUndefined();
+      expect(await storage.getLesson(lessonId)).toBeUndefined();
+      expect(await storage.getCardById(result.created[0].id)).toBeNull();
+      expect(await storage.getCardById(result.created[1].id)).toBeNull();
+
+      const restored = await storage.getCardById(existing.id);
+      expect(restored).toMatchObject({
+        chinese: "乌鸦",
+        lesson_id: null,
+        lesson_position: null,
+        word_audio: "/api/audio/generated/word_crow_bird.mp3",
+        media_stale: true,
+      });
+      expect(await storage.undoImportBatch(result.batch.id)).toBeUndefined();
+    });
+
+    it("writes nothing when part of the plan fails", async () => {
+      const before = await storage.getLessons(1);
+      const plan: ImportPlan = {
+        batch: { source: "json", filename: "bad.json", created_by: null },
+        newLessons: [{ course_id: 1, lesson: { title: "不该存在", ordering: 99 } }],
+        updates: [{ id: 999999, changes: { chinese: "?" } }],
+        creates: [{ card: card("ค", { chinese: "水牛" }) }],
+      };
+
+      await expect(storage.applyImport(plan)).rejects.toThrow();
+      expect(await storage.getLessons(1)).toEqual(before);
+      expect(await storage.getAllCards()).toEqual([]);
+    });
+
+    it("keeps cards added to an import's lesson later, unassigned", async () => {
+      const result = await storage.applyImport({
+        batch: { source: "json", filename: "lesson.json", created_by: null },
+        newLessons: [{ course_id: 1, lesson: { title: "后来加的", ordering: 1 } }],
+        updates: [],
+        creates: [{ card: card("ง", { chinese: "蛇", lesson_position: 1 }), newLesson: 0 }],
+      });
+      const [lessonId] = result.batch.lesson_ids;
+      const later = await storage.createCard(card("จ", { chinese: "盘子", lesson_id: lessonId, lesson_position: 2 }));
+
+      await storage.undoImportBatch(result.batch.id);
+
+      expect(await storage.getCardById(later.id)).toMatchObject({ lesson_id: null, lesson_position: null });
+    });
+  });
+
+  describe("job leases", () => {
+    it("gives each pending item to one worker and lets only that worker renew it", async () => {
+      const job = await storage.createJob({ type: "generate", created_by: null, template: null }, [101, 102]);
+
+      const first = await storage.claimNextJobItem("worker-a", 60_000);
+      const second = await storage.claimNextJobItem("worker-b", 60_000);
+      expect(first).toMatchObject({ job_id: job.id, card_id: 101, status: "running", claimed_by: "worker-a", attempts: 1 });
+      expect(second).toMatchObject({ card_id: 102, claimed_by: "worker-b" });
+      expect(await storage.claimNextJobItem("worker-c", 60_000)).toBeUndefined();
+      expect((await storage.getJob(job.id))?.status).toBe("running");
+
+      expect(await storage.renewJobItemLease(first!.id, "worker-a", 60_000)).toBe(true);
+      expect(await storage.renewJobItemLease(first!.id, "worker-b", 60_000)).toBe(false);
+
+      await storage.updateJobItem(first!.id, { status: "succeeded" });
+      expect(await storage.renewJobItemLease(first!.id, "worker-a", 60_000)).toBe(false);
+      await storage.cancelJob(job.id);
+    });
+
+    it("hands an item to another worker once its lease has run out", async () => {
+      const job = await storage.createJob({ type: "generate", created_by: null, template: null }, [201]);
+      const lapsed = await storage.claimNextJobItem("crashed-worker", -1);
+
+      const reclaimed = await storage.claimNextJobItem("worker-b", 60_000);
+      expect(reclaimed).toMatchObject({ id: lapsed!.id, claimed_by: "worker-b", attempts: 2 });
+      expect(await storage.renewJobItemLease(lapsed!.id, "crashed-worker", 60_000)).toBe(false);
+      expect(await storage.claimNextJobItem("worker-c", 60_000)).toBeUndefined();
+
+      await storage.updateJobItem(reclaimed!.id, { status: "succeeded" });
+      expect((await storage.completeJobIfDone(job.id))?.status).toBe("completed");
+    });
+  });
+
+  describe("media assets", () => {
+    const asset = {
+      path: "generated/audio/word_contract.mp3",
+      card_id: null,
+      kind: "word_audio" as const,
+      provider: "stub",
+      size: 1234,
+      checksum: "a".repeat(64),
+      content_type: "audio/mpeg",
+      cache_key: "contract-cache-key",
+    };
+
+    it("saves, looks up and replaces assets by path", async () => {
+      const saved = await storage.saveMediaAsset(asset);
+      expect(saved).toMatchObject(asset);
+      expect(typeof saved.created_at).toBe("number");
+
+      expect(await storage.getMediaAsset(asset.path)).toEqual(saved);
+      expect(await storage.getMediaAssetById(saved.id)).toEqual(saved);
+      expect(await storage.getMediaAssetByCacheKey(asset.cache_key)).toEqual(saved);
+
+      const replaced = await storage.saveMediaAsset({ ...asset, size: 99, checksum: "b".repeat(64), cache_key: null });
+      expect(replaced.id).toBe(saved.id);
+      expect(await storage.getMediaAsset(asset.path)).toMatchObject({ size: 99, checksum: "b".repeat(64), cache_key: null });
+      expect(await storage.getMediaAssetByCacheKey(asset.cache_key)).toBeUndefined();
+      expect((await storage.getMediaAssets()).filter(a => a.path === asset.path)).toHaveLength(1);
+
+      await storage.deleteMediaAssets([asset.path, "generated/audio/never-saved.mp3"]);
+      expect(await storage.getMediaAsset(asset.path)).toBeUndefined();
+      expect(await storage.getMediaAssetById(saved.id)).toBeUndefined();
+      await storage.deleteMediaAssets([]);
+    });
+
+    it("lists assets in the order they were first saved", async () => {
+      const first = await storage.saveMediaAsset({ ...asset, path: "generated/images/card_1.png", kind: "card_image", provider: null, cache_key: null, content_type: "image/png" });
+      const second = await storage.saveMediaAsset({ ...asset, path: "generated/audio/example_1.mp3", kind: "example_audio", cache_key: null });
+      await storage.saveMediaAsset({ ...first, size: 1 });
+
+      const listed = (await storage.getMediaAssets()).map(a => a.path);
+      expect(listed.indexOf(first.path)).toBeLessThan(listed.indexOf(second.path));
+      await storage.deleteMediaAssets([first.path, second.path]);
+    });
+
+    it("finds every asset with the same bytes, oldest first", async () => {
+      const first = await storage.saveMediaAsset({ ...asset, path: "generated/audio/a.mp3", cache_key: null });
+      const second = await storage.saveMediaAsset({ ...asset, path: "generated/audio/b.mp3", cache_key: null });
+      await storage.saveMediaAsset({ ...asset, path: "generated/audio/c.mp3", checksum: "c".repeat(64), cache_key: null });
+
+      expect((await storage.getMediaAssetsByChecksum(asset.checksum)).map(a => a.id)).toEqual([first.id, second.id]);
+      expect(await storage.getMediaAssetsByChecksum("d".repeat(64))).toEqual([]);
+      await storage.deleteMediaAssets(["generated/audio/a.mp3", "generated/audio/b.mp3", "generated/audio/c.mp3"]);
+    });
+  });
+});
+
+describe.skipIf(!postgres.url)("Postgres migrations", () => {
+  let database: { url: string; drop: () => Promise<void> };
+  let storage: PgStorage;
+  let client: pg.Client;
+
+  beforeAll(async () => {
+    database = await createPostgresDatabase(postgres.url!);
+    storage = new PgStorage(database.url);
+    await storage.initialize();
+    client = new pg.Client({ connectionString: database.url });
+    await client.connect();
+  });
+
+  afterAll(async () => {
+    await client.end();
+    await storage.close();
+    await database.drop();
+  });
+
+  it("applies every migration in the journal", async () => {
+    const journal = JSON.parse(await fs.readFile(path.join(process.cwd(), "migrations/meta/_journal.json"), "utf8"));
+    const applied = await client.query("SELECT count(*)::int AS count FROM drizzle.__drizzle_migrations");
+    expect(applied.rows[0].count).toBe(journal.entries.length);
+  });
+
+  it("creates every table and column declared in the Postgres schema", async () => {
+    const tables = Object.values(pgSchema)
+      .filter((value): value is PgTable => typeof value === "object" && value !== null && Symbol.for("drizzle:IsDrizzleTable") in value)
+      .map(table => getTableConfig(table));
+    expect(tables.length).toBeGreaterThan(0);
+
+    for (const table of tables) {
+      const result = await client.query(
+        "SELECT column_name FROM information_schema.columns WHERE table_schema = 'public' AND table_name = $1",
+        [table.name]
+      );
+      const columns = result.rows.map(row => row.column_name).sort();
+      expect(columns, table.name).toEqual(table.columns.map(column => column.name).sort());
+    }
+  });
+
+  it("seeds the default courses and sample cards once", async () => {
+    await storage.initialize();
+    expect((await storage.getCourses()).map(course => course.id)).toEqual([1, 2, 3, 4]);
+    expect(await storage.getAllCards()).toHaveLength(2);
+  });
+});
@@ -1,17 +1,132 @@
-import { users, cards, type User, type InsertUser, type Card, type InsertCard } from "@shared/schema";
+import { courses, lessons, users, cards, reviewStates, progress, jobs, jobItems, importBatches, mediaAssets, type User, type InsertUser, type Card, type InsertCard, type ReviewState, type InsertReviewState, type Progress, type LevelProgress, type Job, type InsertJob, type JobItem, type ImportBatch, type InsertImportBatch, type MediaAsset, type InsertMediaAsset, type Course, type InsertCourse, type UpdateCourse, type Lesson, type InsertLesson, type UpdateLesson, type PartOfSpeech, type TagCount, type CardSortField } from "@shared/schema";
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import Database from "better-sqlite3";
-import { eq } from "drizzle-orm";
+import { eq, and, or, isNull, lte, asc, desc, inArray, sql } from "drizzle-orm";
 import path from "path";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { SqliteSessionStore } from "./session-store";
+import { runMigrations } from "./migrations";
+import { buildMatchQuery, rankCards, registerSearchFunctions, searchColumns } from "./search-text";
+import { PgStorage } from "./pg-storage";
+import type { UserRole } from "@shared/permissions";
+
+const MemoryStore = createMemoryStore(session);
+
+// Criteria for GET /api/cards; every given field must match
+export interface CardFilter {
+  level?: number;
+  tag?: string;
+  partOfSpeech?: PartOfSpeech;
+}
+
+// Order and window for getCards; without one, cards come back in id order
+export interface CardPageRequest {
+  sort: CardSortField;
+  descending: boolean;
+  limit?: number;
+  offset?: number;
+  after?: CardCursor; // Keyset pagination: only cards that sort after this one
+}
+
+// Where a card sits in a sorted list: its value in the sort column, with the id breaking ties
+export interface CardCursor {
+  value: string | number;
+  id: number;
+}
+
+// Compare two cards the way getCards orders them; used by the in-memory storage
+export function compareCards(a: CardCursor, b: CardCursor, descending: boolean): number {
+  const order = a.value < b.value ? -1 : a.value > b.value ? 1 : a.id - b.id;
+  return descending ? -order : order;
+}
+
+// A card to write in an import. newLesson indexes ImportPlan.newLessons for a lesson the import creates,
+// whose id is only known once applyImport has inserted it.
+export interface PlannedCard {
+  card: InsertCard;
+  newLesson?: number;
+}
+
+export interface PlannedCardUpdate {
+  id: number;
+  changes: Partial<Card>;
+  newLesson?: number;
+}
+
+// An upload worked out in advance, so applyImport can write all of it in one transaction
+export interface ImportPlan {
+  batch: Pick<InsertImportBatch, "source" | "filename" | "created_by">;
+  newLessons: { course_id: number; lesson: InsertLesson }[];
+  updates: PlannedCardUpdate[];
+  creates: PlannedCard[];
+}
+
+export interface ImportResult {
+  batch: ImportBatch;
+  created: Card[];
+  updated: Card[];
+  replaced: Card[]; // Overwritten cards as they were before the upload
+}
+
+// Card fields an upload writes. Undoing it puts back only these, so audio and images generated since
+// stay attached to the card instead of pointing at files that may already be deleted.
+const importedCardFields = [
+  "thai", "chinese", "pronunciation", "example", "example_translation",
+  "level", "lesson_id", "lesson_position", "part_of_speech", "tags",
+] as const;
+const mediaSourceFields = ["thai", "chinese", "pronunciation", "example", "example_translation"] as const;
+
+// Changes that undo an overwrite of `current`; its media is marked stale when the restored text differs
+export function restoredCardChanges(current: Card, previous: Card): Partial<Card> {
+  const changes: Partial<Card> = Object.fromEntries(importedCardFields.map(field => [field, previous[field]]));
+  if (mediaSourceFields.some(field => current[field] !== previous[field])) {
+    changes.media_stale = true;
+  }
+  return changes;
+}
+
+// Point a planned card at its new lesson once applyImport knows the lesson ids
+export function withPlannedLesson<T extends Partial<Card>>(card: T, newLesson: number | undefined, lessonIds: number[]): T {
+  return newLesson === undefined ? card : { ...card, lesson_id: lessonIds[newLesson] };
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Prepare tables and sample data; awaited once at startup before any request is served
+  initialize(): Promise<void>;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
   
+  // Course operations
+  getCourses(): Promise<Course[]>;
+  getCourse(id: number): Promise<Course | undefined>;
+  createCourse(course: InsertCourse): Promise<Course>;
+  updateCourse(id: number, changes: UpdateCourse): Promise<Course | undefined>;
+  deleteCourse(id: number): Promise<boolean>;
+
+  // Lesson operations
+  getLessons(courseId: number): Promise<Lesson[]>;
+  getLesson(id: number): Promise<Lesson | undefined>;
+  createLesson(courseId: number, lesson: InsertLesson): Promise<Lesson>;
+  updateLesson(id: number, changes: UpdateLesson): Promise<Lesson | undefined>;
+  deleteLesson(id: number): Promise<boolean>;
+
   // Card operations
   getAllCards(): Promise<Card[]>;
   getCardsByLevel(level: number): Promise<Card[]>;
+  getCardsByLesson(lessonId: number): Promise<Card[]>;
+  getCards(filter: CardFilter, page?: CardPageRequest): Promise<Card[]>;
+  countCards(filter: CardFilter): Promise<number>;
+  getTags(level?: number): Promise<TagCount[]>;
+  // Cards from every level matching `query`, best match first
+  searchCards(query: string, limit: number): Promise<Card[]>;
   createCard(card: InsertCard): Promise<Card>;
   getCardById(id: number): Promise<Card | null>;
   updateCard(id: number, updateData: Partial<Card>): Promise<Card>;
@@ -19,47 +134,104 @@ export interface IStorage {
   clearCards(): Promise<void>;
   clearCardsByLevel(level: number): Promise<void>;
   bulkCreateCards(cards: InsertCard[]): Promise<Card[]>;
+
+  // Import batch operations
+  createImportBatch(batch: InsertImportBatch): Promise<ImportBatch>;
+  // Creates the plan's lessons, applies its updates, inserts its cards and records the batch, all or nothing
+  applyImport(plan: ImportPlan): Promise<ImportResult>;
+  getImportBatch(id: number): Promise<ImportBatch | undefined>;
+  // Removes the batch's cards and lessons and puts overwritten cards' text back
+  undoImportBatch(id: number): Promise<ImportBatch | undefined>;
+
+  // Media asset operations
+  getMediaAssets(): Promise<MediaAsset[]>;
+  getMediaAsset(path: string): Promise<MediaAsset | undefined>;
+  getMediaAssetById(id: number): Promise<MediaAsset | undefined>;
+  getMediaAssetByCacheKey(cacheKey: string): Promise<MediaAsset | undefined>;
+  // Files with these exact bytes, oldest first
+  getMediaAssetsByChecksum(checksum: string): Promise<MediaAsset[]>;
+  // Records a written file, replacing any earlier record for the same path
+  saveMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset>;
+  deleteMediaAssets(paths: string[]): Promise<void>;
+
+  // Spaced-repetition operations
+  getReviewState(userId: number, cardId: number): Promise<ReviewState | undefined>;
+  saveReviewState(state: InsertReviewState): Promise<ReviewState>;
+  getDueCards(userId: number, level: number, now: number, limit: number, tag?: string): Promise<Card[]>;
+
+  // Learning progress operations
+  getProgress(userId: number, level?: number): Promise<Progress[]>;
+  getLevelProgress(userId: number): Promise<LevelProgress[]>;
+  setCardsCompleted(userId: number, cardIds: number[], completed: boolean): Promise<void>;
+
+  // Background job operations
+  createJob(job: InsertJob, cardIds: number[]): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobItems(jobId: number): Promise<JobItem[]>;
+  // Marks the oldest claimable item running for `owner` until the lease expires `leaseMs` from now
+  claimNextJobItem(owner: string, leaseMs: number): Promise<JobItem | undefined>;
+  // False once the item is no longer running for `owner`
+  renewJobItemLease(id: number, owner: string, leaseMs: number): Promise<boolean>;
+  updateJobItem(id: number, changes: Partial<JobItem>): Promise<JobItem | undefined>;
+  completeJobIfDone(jobId: number): Promise<Job | undefined>;
+  cancelJob(id: number): Promise<Job | undefined>;
+  retryFailedJobItems(jobId: number): Promise<number>;
+}
+
+// cards.tags is a JSON array of strings
+function hasTag(tag: string) {
+  return sql`EXISTS (SELECT 1 FROM json_each(${cards.tags}) WHERE json_each.value = ${tag})`;
+}
+
+const sortColumns = { id: cards.id, thai: cards.thai, chinese: cards.chinese, level: cards.level };
+
+function matchesFilter(filter: CardFilter) {
+  return and(
+    filter.level !== undefined ? eq(cards.level, filter.level) : undefined,
+    filter.tag !== undefined ? hasTag(filter.tag) : undefined,
+    filter.partOfSpeech !== undefined ? eq(cards.part_of_speech, filter.partOfSpeech) : undefined
+  );
+}
+
+function sortsAfter(page: CardPageRequest, after: CardCursor) {
+  const column = sortColumns[page.sort];
+  return page.descending
+    ? sql`(${column}, ${cards.id}) < (${after.value}, ${after.id})`
+    : sql`(${column}, ${cards.id}) > (${after.value}, ${after.id})`;
+}
+
+// An item a worker may take: pending, or running under a lease its worker stopped renewing
+function isClaimable(now: number) {
+  return or(
+    eq(jobItems.status, "pending"),
+    and(eq(jobItems.status, "running"), or(isNull(jobItems.lease_expires_at), lte(jobItems.lease_expires_at, now)))
+  );
 }
 
 export class SqliteStorage implements IStorage {
   private db;
+  sessionStore: session.Store;
 
-  constructor() {
+  constructor(filename = path.join(process.cwd(), "database.sqlite")) {
     // Initialize SQLite database
-    const sqlite = new Database(path.join(process.cwd(), "database.sqlite"));
+    const sqlite = new Database(filename);
     this.db = drizzle(sqlite);
+
+    // The search index triggers on cards call these, so register them before anything writes
+    registerSearchFunctions(sqlite);
     
-    // Create tables if they don't exist
-    this.initializeTables();
+    // Create or upgrade tables; refuses to start if the database is newer than this build
+    runMigrations(sqlite);
+
+    // Keep login sessions in the same database file
+    this.sessionStore = new SqliteSessionStore(sqlite);
     
     // Add sample data if tables are empty
     this.initializeSampleCards();
   }
 
-  private initializeTables() {
-    // Create tables using raw SQL for initial setup
-    const sqlite = (this.db as any).$client;
-    
-    sqlite.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        username TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL
-      );
-      
-      CREATE TABLE IF NOT EXISTS cards (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        thai TEXT NOT NULL,
-        chinese TEXT NOT NULL,
-        pronunciation TEXT NOT NULL,
-        example TEXT NOT NULL,
-        example_translation TEXT NOT NULL,
-        level INTEGER NOT NULL DEFAULT 1,
-        word_audio TEXT,
-        example_audio TEXT,
-        card_image TEXT
-      );
-    `);
+  async initialize(): Promise<void> {
+    // Tables are migrated synchronously in the constructor
   }
 
   async initializeSampleCards() {
@@ -106,6 +278,77 @@ export class SqliteStorage implements IStorage {
     return result[0];
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async countUsers(): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)` }).from(users);
+    return result[0].count;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const result = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async getCourses(): Promise<Course[]> {
+    return await this.db.select().from(courses).orderBy(asc(courses.ordering), asc(courses.id));
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    const result = await this.db.select().from(courses).where(eq(courses.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createCourse(course: InsertCourse): Promise<Course> {
+    const result = await this.db.insert(courses).values(course).returning();
+    return result[0];
+  }
+
+  async updateCourse(id: number, changes: UpdateCourse): Promise<Course | undefined> {
+    const result = await this.db.update(courses).set(changes).where(eq(courses.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    return this.db.transaction(tx => {
+      tx.delete(lessons).where(eq(lessons.course_id, id)).run();
+      const result = tx.delete(courses).where(eq(courses.id, id)).returning({ id: courses.id }).all();
+      return result.length > 0;
+    });
+  }
+
+  async getLessons(courseId: number): Promise<Lesson[]> {
+    return await this.db.select().from(lessons)
+      .where(eq(lessons.course_id, courseId))
+      .orderBy(asc(lessons.ordering), asc(lessons.id));
+  }
+
+  async getLesson(id: number): Promise<Lesson | undefined> {
+    const result = await this.db.select().from(lessons).where(eq(lessons.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createLesson(courseId: number, lesson: InsertLesson): Promise<Lesson> {
+    const result = await this.db.insert(lessons).values({ ...lesson, course_id: courseId }).returning();
+    return result[0];
+  }
+
+  async updateLesson(id: number, changes: UpdateLesson): Promise<Lesson | undefined> {
+    const result = await this.db.update(lessons).set(changes).where(eq(lessons.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteLesson(id: number): Promise<boolean> {
+    // The lesson's cards stay in the course, unassigned
+    return this.db.transaction(tx => {
+      tx.update(cards).set({ lesson_id: null, lesson_position: null }).where(eq(cards.lesson_id, id)).run();
+      const result = tx.delete(lessons).where(eq(lessons.id, id)).returning({ id: lessons.id }).all();
+      return result.length > 0;
+    });
+  }
+
   async getAllCards(): Promise<Card[]> {
     return await this.db.select().from(cards);
   }
@@ -114,6 +357,57 @@ export class SqliteStorage implements IStorage {
     return await this.db.select().from(cards).where(eq(cards.level, level));
   }
 
+  async getCardsByLesson(lessonId: number): Promise<Card[]> {
+    return await this.db.select().from(cards)
+      .where(eq(cards.lesson_id, lessonId))
+      .orderBy(asc(cards.lesson_position), asc(cards.id));
+  }
+
+  async getCards(filter: CardFilter, page?: CardPageRequest): Promise<Card[]> {
+    const direction = page?.descending ? desc : asc;
+    let query = this.db.select().from(cards)
+      .where(and(matchesFilter(filter), page?.after ? sortsAfter(page, page.after) : undefined))
+      .orderBy(direction(sortColumns[page?.sort ?? "id"]), direction(cards.id))
+      .$dynamic();
+    if (page?.limit !== undefined) query = query.limit(page.limit).offset(page.offset ?? 0);
+    return await query;
+  }
+
+  async countCards(filter: CardFilter): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)` }).from(cards).where(matchesFilter(filter));
+    return result[0].count;
+  }
+
+  async getTags(level?: number): Promise<TagCount[]> {
+    return this.db.all<TagCount>(sql`
+      SELECT card_tags.value AS tag, count(*) AS count
+      FROM cards, json_each(cards.tags) AS card_tags
+      ${level !== undefined ? sql`WHERE cards.level = ${level}` : sql``}
+      GROUP BY card_tags.value
+      ORDER BY count DESC, tag
+    `);
+  }
+
+  async searchCards(query: string, limit: number): Promise<Card[]> {
+    const match = buildMatchQuery(query);
+    if (!match) return [];
+
+    const weights = sql.raw(searchColumns.map(column => column.weight).join(", "));
+    const exact = query.trim();
+    const ranked = this.db.all<{ id: number }>(sql`
+      SELECT cards.id FROM cards_fts
+      JOIN cards ON cards.id = cards_fts.rowid
+      WHERE cards_fts MATCH ${match}
+      ORDER BY (cards.thai = ${exact} OR cards.chinese = ${exact}) DESC, bm25(cards_fts, ${weights})
+      LIMIT ${limit}
+    `);
+    if (ranked.length === 0) return [];
+
+    const found = await this.db.select().from(cards).where(inArray(cards.id, ranked.map(row => row.id)));
+    const byId = new Map(found.map(card => [card.id, card]));
+    return ranked.map(row => byId.get(row.id)).filter((card): card is Card => card !== undefined);
+  }
+
   async createCard(card: InsertCard): Promise<Card> {
     // Remove id from card if it exists (let SQLite auto-generate)
     const { id, ...cardWithoutId } = card as any;
@@ -132,45 +426,452 @@ export class SqliteStorage implements IStorage {
   }
 
   async deleteCard(id: number): Promise<void> {
+    await this.db.delete(reviewStates).where(eq(reviewStates.card_id, id));
+    await this.db.delete(progress).where(eq(progress.card_id, id));
     await this.db.delete(cards).where(eq(cards.id, id));
   }
 
   async clearCards(): Promise<void> {
+    await this.db.delete(reviewStates);
+    await this.db.delete(progress);
     await this.db.delete(cards);
   }
 
   async clearCardsByLevel(level: number): Promise<void> {
+    const levelCardIds = this.db.select({ id: cards.id }).from(cards).where(eq(cards.level, level));
+    await this.db.delete(reviewStates).where(inArray(reviewStates.card_id, levelCardIds));
+    await this.db.delete(progress).where(inArray(progress.card_id, levelCardIds));
     await this.db.delete(cards).where(eq(cards.level, level));
   }
 
   async bulkCreateCards(cardList: InsertCard[]): Promise<Card[]> {
     if (cardList.length === 0) return [];
-    
-    const results: Card[] = [];
-    for (const card of cardList) {
-      const result = await this.createCard(card);
-      results.push(result);
+
+    // One transaction: a failing row leaves no partial import, and SQLite commits once instead of per card
+    return this.db.transaction(tx => cardList.map(card => {
+      const { id, ...cardWithoutId } = card as any;
+      return tx.insert(cards).values(cardWithoutId).returning().get();
+    }));
+  }
+
+  async createImportBatch(batch: InsertImportBatch): Promise<ImportBatch> {
+    const result = await this.db.insert(importBatches).values({ ...batch, created_at: Date.now() }).returning();
+    return result[0];
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    const result = await this.db.select().from(importBatches).where(eq(importBatches.id, id)).limit(1);
+    return result[0];
+  }
+
+  async applyImport(plan: ImportPlan): Promise<ImportResult> {
+    return this.db.transaction(tx => {
+      const lessonIds = plan.newLessons.map(({ course_id, lesson }) =>
+        tx.insert(lessons).values({ ...lesson, course_id }).returning().get().id);
+
+      const replaced: Card[] = [];
+      const updated = plan.updates.map(({ id, changes, newLesson }) => {
+        const previous = tx.select().from(cards).where(eq(cards.id, id)).get();
+        if (!previous) throw new Error(`Card with id ${id} not found`);
+        replaced.push(previous);
+        return tx.update(cards).set(withPlannedLesson(changes, newLesson, lessonIds)).where(eq(cards.id, id)).returning().get();
+      });
+
+      const created = plan.creates.map(({ card, newLesson }) => {
+        const { id, ...cardWithoutId } = withPlannedLesson(card, newLesson, lessonIds) as any;
+        return tx.insert(cards).values(cardWithoutId).returning().get();
+      });
+
+      const batch = tx.insert(importBatches).values({
+        ...plan.batch,
+        card_ids: created.map(card => card.id),
+        replaced_cards: replaced,
+        lesson_ids: lessonIds,
+        created_at: Date.now(),
+      }).returning().get();
+      return { batch, created, updated, replaced };
+    });
+  }
+
+  async undoImportBatch(id: number): Promise<ImportBatch | undefined> {
+    return this.db.transaction(tx => {
+      const batch = tx.select().from(importBatches).where(eq(importBatches.id, id)).get();
+      if (!batch) return undefined;
+
+      if (batch.card_ids.length > 0) {
+        tx.delete(reviewStates).where(inArray(reviewStates.card_id, batch.card_ids)).run();
+        tx.delete(progress).where(inArray(progress.card_id, batch.card_ids)).run();
+        tx.delete(cards).where(inArray(cards.id, batch.card_ids)).run();
+      }
+      for (const previous of batch.replaced_cards) {
+        const current = tx.select().from(cards).where(eq(cards.id, previous.id)).get();
+        if (current) tx.update(cards).set(restoredCardChanges(current, previous)).where(eq(cards.id, previous.id)).run();
+      }
+      // Cards added to the batch's lessons since stay in the course, unassigned, as with deleteLesson
+      for (const lessonId of batch.lesson_ids) {
+        tx.update(cards).set({ lesson_id: null, lesson_position: null }).where(eq(cards.lesson_id, lessonId)).run();
+        tx.delete(lessons).where(eq(lessons.id, lessonId)).run();
+      }
+      tx.delete(importBatches).where(eq(importBatches.id, id)).run();
+      return batch;
+    });
+  }
+
+  async getMediaAssets(): Promise<MediaAsset[]> {
+    return await this.db.select().from(mediaAssets).orderBy(asc(mediaAssets.id));
+  }
+
+  async getMediaAsset(path: string): Promise<MediaAsset | undefined> {
+    const result = await this.db.select().from(mediaAssets).where(eq(mediaAssets.path, path)).limit(1);
+    return result[0];
+  }
+
+  async getMediaAssetById(id: number): Promise<MediaAsset | undefined> {
+    const result = await this.db.select().from(mediaAssets).where(eq(mediaAssets.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getMediaAssetByCacheKey(cacheKey: string): Promise<MediaAsset | undefined> {
+    const result = await this.db.select().from(mediaAssets).where(eq(mediaAssets.cache_key, cacheKey)).limit(1);
+    return result[0];
+  }
+
+  async getMediaAssetsByChecksum(checksum: string): Promise<MediaAsset[]> {
+    return await this.db.select().from(mediaAssets).where(eq(mediaAssets.checksum, checksum)).orderBy(asc(mediaAssets.id));
+  }
+
+  async saveMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    const values = { ...asset, created_at: Date.now() };
+    const result = await this.db.insert(mediaAssets).values(values)
+      .onConflictDoUpdate({ target: mediaAssets.path, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async deleteMediaAssets(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    await this.db.delete(mediaAssets).where(inArray(mediaAssets.path, paths));
+  }
+
+  async getReviewState(userId: number, cardId: number): Promise<ReviewState | undefined> {
+    const result = await this.db.select().from(reviewStates)
+      .where(and(eq(reviewStates.user_id, userId), eq(reviewStates.card_id, cardId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async saveReviewState(state: InsertReviewState): Promise<ReviewState> {
+    const { id, user_id, card_id, ...schedule } = state;
+    const result = await this.db.insert(reviewStates)
+      .values({ user_id, card_id, ...schedule })
+      .onConflictDoUpdate({
+        target: [reviewStates.user_id, reviewStates.card_id],
+        set: schedule,
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getDueCards(userId: number, level: number, now: number, limit: number, tag?: string): Promise<Card[]> {
+    // Overdue reviews first (most overdue at the top), then cards never graded
+    const rows = await this.db.select({ card: cards })
+      .from(cards)
+      .leftJoin(reviewStates, and(eq(reviewStates.card_id, cards.id), eq(reviewStates.user_id, userId)))
+      .where(and(
+        eq(cards.level, level),
+        tag !== undefined ? hasTag(tag) : undefined,
+        or(isNull(reviewStates.id), lte(reviewStates.due_at, now))
+      ))
+      .orderBy(sql`${reviewStates.due_at} IS NULL`, asc(reviewStates.due_at), asc(cards.id))
+      .limit(limit);
+    return rows.map(row => row.card);
+  }
+
+  async getProgress(userId: number, level?: number): Promise<Progress[]> {
+    const rows = await this.db.select({ progress })
+      .from(progress)
+      .innerJoin(cards, eq(cards.id, progress.card_id))
+      .where(and(
+        eq(progress.user_id, userId),
+        level !== undefined ? eq(cards.level, level) : undefined
+      ));
+    return rows.map(row => row.progress);
+  }
+
+  async getLevelProgress(userId: number): Promise<LevelProgress[]> {
+    return await this.db.select({
+      level: cards.level,
+      completed: sql<number>`count(${progress.id})`,
+      total: sql<number>`count(${cards.id})`,
+    })
+      .from(cards)
+      .leftJoin(progress, and(eq(progress.card_id, cards.id), eq(progress.user_id, userId)))
+      .groupBy(cards.level)
+      .orderBy(asc(cards.level));
+  }
+
+  async setCardsCompleted(userId: number, cardIds: number[], completed: boolean): Promise<void> {
+    if (cardIds.length === 0) return;
+
+    if (!completed) {
+      await this.db.delete(progress)
+        .where(and(eq(progress.user_id, userId), inArray(progress.card_id, cardIds)));
+      return;
     }
-    return results;
+
+    // Ignore IDs of cards that no longer exist
+    const existing = await this.db.select({ id: cards.id }).from(cards).where(inArray(cards.id, cardIds));
+    if (existing.length === 0) return;
+
+    const now = Date.now();
+    await this.db.insert(progress)
+      .values(existing.map(card => ({ user_id: userId, card_id: card.id, completed_at: now })))
+      .onConflictDoNothing();
+  }
+
+  async createJob(insertJob: InsertJob, cardIds: number[]): Promise<Job> {
+    const now = Date.now();
+    const [job] = await this.db.insert(jobs)
+      .values({ ...insertJob, status: "queued", created_at: now, updated_at: now })
+      .returning();
+    if (cardIds.length > 0) {
+      await this.db.insert(jobItems)
+        .values(cardIds.map(cardId => ({ job_id: job.id, card_id: cardId, updated_at: now })));
+    }
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const result = await this.db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getJobItems(jobId: number): Promise<JobItem[]> {
+    return await this.db.select().from(jobItems).where(eq(jobItems.job_id, jobId)).orderBy(asc(jobItems.id));
+  }
+
+  async claimNextJobItem(owner: string, leaseMs: number): Promise<JobItem | undefined> {
+    // Oldest claimable item first; repeating the check in the UPDATE keeps the claim atomic across servers
+    const now = Date.now();
+    const [next] = await this.db.select({ id: jobItems.id, job_id: jobItems.job_id })
+      .from(jobItems)
+      .innerJoin(jobs, eq(jobs.id, jobItems.job_id))
+      .where(and(isClaimable(now), inArray(jobs.status, ["queued", "running"])))
+      .orderBy(asc(jobItems.id))
+      .limit(1);
+    if (!next) return undefined;
+
+    const [claimed] = await this.db.update(jobItems)
+      .set({
+        status: "running",
+        claimed_by: owner,
+        lease_expires_at: now + leaseMs,
+        attempts: sql`${jobItems.attempts} + 1`,
+        updated_at: now,
+      })
+      .where(and(eq(jobItems.id, next.id), isClaimable(now)))
+      .returning();
+    if (claimed) {
+      await this.db.update(jobs).set({ status: "running", updated_at: now })
+        .where(and(eq(jobs.id, next.job_id), eq(jobs.status, "queued")));
+    }
+    return claimed;
+  }
+
+  async renewJobItemLease(id: number, owner: string, leaseMs: number): Promise<boolean> {
+    const renewed = await this.db.update(jobItems)
+      .set({ lease_expires_at: Date.now() + leaseMs })
+      .where(and(eq(jobItems.id, id), eq(jobItems.status, "running"), eq(jobItems.claimed_by, owner)))
+      .returning({ id: jobItems.id });
+    return renewed.length > 0;
+  }
+
+  async updateJobItem(id: number, changes: Partial<JobItem>): Promise<JobItem | undefined> {
+    const result = await this.db.update(jobItems)
+      .set({ ...changes, updated_at: Date.now() })
+      .where(eq(jobItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async completeJobIfDone(jobId: number): Promise<Job | undefined> {
+    const [open] = await this.db.select({ count: sql<number>`count(*)` })
+      .from(jobItems)
+      .where(and(eq(jobItems.job_id, jobId), inArray(jobItems.status, ["pending", "running"])));
+    if (open.count > 0) return this.getJob(jobId);
+
+    // A cancelled job stays cancelled even after its last running item finishes
+    const result = await this.db.update(jobs)
+      .set({ status: "completed", updated_at: Date.now() })
+      .where(and(eq(jobs.id, jobId), inArray(jobs.status, ["queued", "running"])))
+      .returning();
+    return result[0] ?? this.getJob(jobId);
+  }
+
+  async cancelJob(id: number): Promise<Job | undefined> {
+    const now = Date.now();
+    await this.db.update(jobItems)
+      .set({ status: "cancelled", updated_at: now })
+      .where(and(eq(jobItems.job_id, id), eq(jobItems.status, "pending")));
+    const result = await this.db.update(jobs)
+      .set({ status: "cancelled", updated_at: now })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ["queued", "running"])))
+      .returning();
+    return result[0] ?? this.getJob(id);
+  }
+
+  async retryFailedJobItems(jobId: number): Promise<number> {
+    const now = Date.now();
+    const retried = await this.db.update(jobItems)
+      .set({ status: "pending", error: null, updated_at: now })
+      .where(and(eq(jobItems.job_id, jobId), eq(jobItems.status, "failed")))
+      .returning({ id: jobItems.id });
+    if (retried.length > 0) {
+      await this.db.update(jobs).set({ status: "queued", updated_at: now }).where(eq(jobs.id, jobId));
+    }
+    return retried.length;
   }
 }
 
 export class MemStorage implements IStorage {
+  private courses: Map<number, Course>;
+  private lessons: Map<number, Lesson>;
   private users: Map<number, User>;
   private cards: Map<number, Card>;
+  private reviewStates: Map<string, ReviewState>;
+  private progress: Map<string, Progress>;
+  private jobs: Map<number, Job>;
+  private jobItems: Map<number, JobItem>;
+  private importBatches: Map<number, ImportBatch>;
+  private mediaAssets: Map<string, MediaAsset>;
+  private currentCourseId: number;
+  private currentLessonId: number;
   private currentUserId: number;
   private currentCardId: number;
+  private currentReviewStateId: number;
+  private currentProgressId: number;
+  private currentJobId: number;
+  private currentJobItemId: number;
+  private currentImportBatchId: number;
+  private currentMediaAssetId: number;
+  sessionStore: session.Store;
 
   constructor() {
+    this.courses = new Map();
+    this.lessons = new Map();
     this.users = new Map();
     this.cards = new Map();
+    this.reviewStates = new Map();
+    this.progress = new Map();
+    this.jobs = new Map();
+    this.jobItems = new Map();
+    this.importBatches = new Map();
+    this.mediaAssets = new Map();
+    this.currentCourseId = 1;
+    this.currentLessonId = 1;
     this.currentUserId = 1;
     this.currentCardId = 1;
+    this.currentReviewStateId = 1;
+    this.currentProgressId = 1;
+    this.currentJobId = 1;
+    this.currentJobItemId = 1;
+    this.currentImportBatchId = 1;
+    this.currentMediaAssetId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired entries every 24h
+    });
     
     // Initialize with sample data
+    this.initializeCourses();
     this.initializeSampleCards();
   }
 
+  async initialize(): Promise<void> {}
+
+  private initializeCourses() {
+    const defaultCourses: InsertCourse[] = [
+      { title: "基础泰语1", description: "入门级泰语，学习基本问候和日常用语", color: "green", icon: "book-open", ordering: 1 },
+      { title: "基础泰语2", description: "进阶基础泰语，掌握更多实用对话", color: "blue", icon: "graduation-cap", ordering: 2 },
+      { title: "基础泰语3", description: "中级泰语，学习复杂句型和语法", color: "purple", icon: "trophy", ordering: 3 },
+      { title: "基础泰语4", description: "高级基础泰语，掌握流利对话技巧", color: "orange", icon: "star", ordering: 4 },
+    ];
+    defaultCourses.forEach(course => this.createCourse(course));
+  }
+
+  async getCourses(): Promise<Course[]> {
+    return Array.from(this.courses.values()).sort((a, b) => a.ordering - b.ordering || a.id - b.id);
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    return this.courses.get(id);
+  }
+
+  async createCourse(insertCourse: InsertCourse): Promise<Course> {
+    const course: Course = {
+      id: this.currentCourseId++,
+      title: insertCourse.title,
+      description: insertCourse.description ?? "",
+      color: insertCourse.color ?? "blue",
+      icon: insertCourse.icon ?? "book-open",
+      ordering: insertCourse.ordering ?? 0,
+    };
+    this.courses.set(course.id, course);
+    return course;
+  }
+
+  async updateCourse(id: number, changes: UpdateCourse): Promise<Course | undefined> {
+    const existing = this.courses.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...changes };
+    this.courses.set(id, updated);
+    return updated;
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    Array.from(this.lessons.values())
+      .filter(lesson => lesson.course_id === id)
+      .forEach(lesson => this.lessons.delete(lesson.id));
+    return this.courses.delete(id);
+  }
+
+  async getLessons(courseId: number): Promise<Lesson[]> {
+    return Array.from(this.lessons.values())
+      .filter(lesson => lesson.course_id === courseId)
+      .sort((a, b) => a.ordering - b.ordering || a.id - b.id);
+  }
+
+  async getLesson(id: number): Promise<Lesson | undefined> {
+    return this.lessons.get(id);
+  }
+
+  async createLesson(courseId: number, insertLesson: InsertLesson): Promise<Lesson> {
+    const lesson: Lesson = {
+      id: this.currentLessonId++,
+      course_id: courseId,
+      title: insertLesson.title,
+      ordering: insertLesson.ordering ?? 0,
+    };
+    this.lessons.set(lesson.id, lesson);
+    return lesson;
+  }
+
+  async updateLesson(id: number, changes: UpdateLesson): Promise<Lesson | undefined> {
+    const existing = this.lessons.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...changes };
+    this.lessons.set(id, updated);
+    return updated;
+  }
+
+  async deleteLesson(id: number): Promise<boolean> {
+    for (const card of Array.from(this.cards.values())) {
+      if (card.lesson_id === id) {
+        this.cards.set(card.id, { ...card, lesson_id: null, lesson_position: null });
+      }
+    }
+    return this.lessons.delete(id);
+  }
+
   private initializeSampleCards() {
     const sampleCards = [
       {
@@ -196,9 +897,18 @@ export class MemStorage implements IStorage {
       const cardWithId: Card = { 
         ...card, 
         id,
+        lesson_id: null,
+        lesson_position: null,
+        part_of_speech: null,
+        tags: [],
         word_audio: null,
         example_audio: null,
-        card_image: null
+        word_audio_provider: null,
+        word_audio_voice: null,
+        example_audio_provider: null,
+        example_audio_voice: null,
+        card_image: null,
+        media_stale: false
       };
       this.cards.set(id, cardWithId);
     });
@@ -216,11 +926,27 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "learner" };
     this.users.set(id, user);
     return user;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+    const updatedUser = { ...existingUser, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   async getAllCards(): Promise<Card[]> {
     return Array.from(this.cards.values());
   }
@@ -229,15 +955,69 @@ export class MemStorage implements IStorage {
     return Array.from(this.cards.values()).filter(card => card.level === level);
   }
 
+  private filterCards(filter: CardFilter): Card[] {
+    return Array.from(this.cards.values()).filter(card =>
+      (filter.level === undefined || card.level === filter.level) &&
+      (filter.tag === undefined || card.tags.includes(filter.tag)) &&
+      (filter.partOfSpeech === undefined || card.part_of_speech === filter.partOfSpeech)
+    );
+  }
+
+  async getCards(filter: CardFilter, page?: CardPageRequest): Promise<Card[]> {
+    const sort = page?.sort ?? "id";
+    const descending = page?.descending ?? false;
+    const position = (card: Card): CardCursor => ({ value: card[sort], id: card.id });
+
+    const sorted = this.filterCards(filter)
+      .filter(card => !page?.after || compareCards(position(card), page.after, descending) > 0)
+      .sort((a, b) => compareCards(position(a), position(b), descending));
+    if (page?.limit === undefined) return sorted;
+    const offset = page.offset ?? 0;
+    return sorted.slice(offset, offset + page.limit);
+  }
+
+  async countCards(filter: CardFilter): Promise<number> {
+    return this.filterCards(filter).length;
+  }
+
+  async getTags(level?: number): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const card of Array.from(this.cards.values())) {
+      if (level !== undefined && card.level !== level) continue;
+      card.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  async searchCards(query: string, limit: number): Promise<Card[]> {
+    return rankCards(Array.from(this.cards.values()), query, limit);
+  }
+
+  async getCardsByLesson(lessonId: number): Promise<Card[]> {
+    return Array.from(this.cards.values())
+      .filter(card => card.lesson_id === lessonId)
+      .sort((a, b) => (a.lesson_position ?? 0) - (b.lesson_position ?? 0) || a.id - b.id);
+  }
+
   async createCard(insertCard: InsertCard): Promise<Card> {
     const id = this.currentCardId++;
     const card: Card = { 
       ...insertCard, 
       id,
       level: insertCard.level || 1,
+      lesson_id: insertCard.lesson_id ?? null,
+      lesson_position: insertCard.lesson_position ?? null,
+      part_of_speech: insertCard.part_of_speech ?? null,
+      tags: insertCard.tags ?? [],
       word_audio: null,
       example_audio: null,
-      card_image: null
+      word_audio_provider: null,
+      word_audio_voice: null,
+      example_audio_provider: null,
+      example_audio_voice: null,
+      card_image: null,
+      media_stale: false
     };
     this.cards.set(id, card);
     return card;
@@ -259,10 +1039,13 @@ export class MemStorage implements IStorage {
 
   async deleteCard(id: number): Promise<void> {
     this.cards.delete(id);
+    this.deleteLearnerStateFor([id]);
   }
 
   async clearCards(): Promise<void> {
     this.cards.clear();
+    this.reviewStates.clear();
+    this.progress.clear();
     this.currentCardId = 1;
   }
 
@@ -272,6 +1055,7 @@ export class MemStorage implements IStorage {
       .map(([id, _]) => id);
     
     cardsToDelete.forEach(id => this.cards.delete(id));
+    this.deleteLearnerStateFor(cardsToDelete);
   }
 
   async bulkCreateCards(insertCards: InsertCard[]): Promise<Card[]> {
@@ -282,7 +1066,302 @@ export class MemStorage implements IStorage {
     }
     return createdCards;
   }
+
+  async createImportBatch(batch: InsertImportBatch): Promise<ImportBatch> {
+    const importBatch: ImportBatch = {
+      id: this.currentImportBatchId++,
+      source: batch.source,
+      filename: batch.filename ?? null,
+      created_by: batch.created_by ?? null,
+      card_ids: batch.card_ids,
+      replaced_cards: batch.replaced_cards,
+      lesson_ids: batch.lesson_ids ?? [],
+      created_at: Date.now(),
+    };
+    this.importBatches.set(importBatch.id, importBatch);
+    return importBatch;
+  }
+
+  async applyImport(plan: ImportPlan): Promise<ImportResult> {
+    // Checked up front so a missing card fails before anything is written
+    const replaced = plan.updates.map(({ id }) => {
+      const previous = this.cards.get(id);
+      if (!previous) throw new Error(`Card with id ${id} not found`);
+      return previous;
+    });
+
+    const lessonIds: number[] = [];
+    for (const { course_id, lesson } of plan.newLessons) {
+      lessonIds.push((await this.createLesson(course_id, lesson)).id);
+    }
+    const updated: Card[] = [];
+    for (const { id, changes, newLesson } of plan.updates) {
+      updated.push(await this.updateCard(id, withPlannedLesson(changes, newLesson, lessonIds)));
+    }
+    const created = await this.bulkCreateCards(plan.creates.map(({ card, newLesson }) => withPlannedLesson(card, newLesson, lessonIds)));
+    const batch = await this.createImportBatch({
+      ...plan.batch,
+      card_ids: created.map(card => card.id),
+      replaced_cards: replaced,
+      lesson_ids: lessonIds,
+    });
+    return { batch, created, updated, replaced };
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    return this.importBatches.get(id);
+  }
+
+  async undoImportBatch(id: number): Promise<ImportBatch | undefined> {
+    const batch = this.importBatches.get(id);
+    if (!batch) return undefined;
+
+    batch.card_ids.forEach(cardId => this.cards.delete(cardId));
+    this.deleteLearnerStateFor(batch.card_ids);
+    for (const previous of batch.replaced_cards) {
+      const current = this.cards.get(previous.id);
+      if (current) this.cards.set(previous.id, { ...current, ...restoredCardChanges(current, previous) });
+    }
+    for (const lessonId of batch.lesson_ids) {
+      await this.deleteLesson(lessonId);
+    }
+    this.importBatches.delete(id);
+    return batch;
+  }
+
+  async getMediaAssets(): Promise<MediaAsset[]> {
+    return Array.from(this.mediaAssets.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getMediaAsset(path: string): Promise<MediaAsset | undefined> {
+    return this.mediaAssets.get(path);
+  }
+
+  async getMediaAssetById(id: number): Promise<MediaAsset | undefined> {
+    return Array.from(this.mediaAssets.values()).find(asset => asset.id === id);
+  }
+
+  async getMediaAssetByCacheKey(cacheKey: string): Promise<MediaAsset | undefined> {
+    return Array.from(this.mediaAssets.values()).find(asset => asset.cache_key === cacheKey);
+  }
+
+  async getMediaAssetsByChecksum(checksum: string): Promise<MediaAsset[]> {
+    return Array.from(this.mediaAssets.values())
+      .filter(asset => asset.checksum === checksum)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async saveMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    const mediaAsset: MediaAsset = {
+      id: this.mediaAssets.get(asset.path)?.id ?? this.currentMediaAssetId++,
+      path: asset.path,
+      card_id: asset.card_id ?? null,
+      kind: asset.kind,
+      provider: asset.provider ?? null,
+      size: asset.size,
+      checksum: asset.checksum,
+      content_type: asset.content_type,
+      cache_key: asset.cache_key ?? null,
+      created_at: Date.now(),
+    };
+    this.mediaAssets.set(mediaAsset.path, mediaAsset);
+    return mediaAsset;
+  }
+
+  async deleteMediaAssets(paths: string[]): Promise<void> {
+    paths.forEach(assetPath => this.mediaAssets.delete(assetPath));
+  }
+
+  async getReviewState(userId: number, cardId: number): Promise<ReviewState | undefined> {
+    return this.reviewStates.get(`${userId}:${cardId}`);
+  }
+
+  async saveReviewState(state: InsertReviewState): Promise<ReviewState> {
+    const key = `${state.user_id}:${state.card_id}`;
+    const existing = this.reviewStates.get(key);
+    const saved: ReviewState = {
+      id: existing?.id ?? this.currentReviewStateId++,
+      user_id: state.user_id,
+      card_id: state.card_id,
+      ease: state.ease ?? 2.5,
+      interval: state.interval ?? 0,
+      repetitions: state.repetitions ?? 0,
+      lapses: state.lapses ?? 0,
+      due_at: state.due_at,
+      last_reviewed_at: state.last_reviewed_at ?? null,
+    };
+    this.reviewStates.set(key, saved);
+    return saved;
+  }
+
+  async getDueCards(userId: number, level: number, now: number, limit: number, tag?: string): Promise<Card[]> {
+    const due: { card: Card; dueAt: number }[] = [];
+    const fresh: Card[] = [];
+    for (const card of Array.from(this.cards.values())) {
+      if (card.level !== level) continue;
+      if (tag !== undefined && !card.tags.includes(tag)) continue;
+      const state = this.reviewStates.get(`${userId}:${card.id}`);
+      if (!state) {
+        fresh.push(card);
+      } else if (state.due_at <= now) {
+        due.push({ card, dueAt: state.due_at });
+      }
+    }
+    due.sort((a, b) => a.dueAt - b.dueAt);
+    return [...due.map(entry => entry.card), ...fresh].slice(0, limit);
+  }
+
+  async getProgress(userId: number, level?: number): Promise<Progress[]> {
+    return Array.from(this.progress.values()).filter(entry => {
+      if (entry.user_id !== userId) return false;
+      const card = this.cards.get(entry.card_id);
+      return !!card && (level === undefined || card.level === level);
+    });
+  }
+
+  async getLevelProgress(userId: number): Promise<LevelProgress[]> {
+    const levels = new Map<number, LevelProgress>();
+    for (const card of Array.from(this.cards.values())) {
+      const entry = levels.get(card.level) ?? { level: card.level, completed: 0, total: 0 };
+      entry.total += 1;
+      if (this.progress.has(`${userId}:${card.id}`)) entry.completed += 1;
+      levels.set(card.level, entry);
+    }
+    return Array.from(levels.values()).sort((a, b) => a.level - b.level);
+  }
+
+  async setCardsCompleted(userId: number, cardIds: number[], completed: boolean): Promise<void> {
+    const now = Date.now();
+    for (const cardId of cardIds) {
+      const key = `${userId}:${cardId}`;
+      if (!completed) {
+        this.progress.delete(key);
+      } else if (this.cards.has(cardId) && !this.progress.has(key)) {
+        this.progress.set(key, { id: this.currentProgressId++, user_id: userId, card_id: cardId, completed_at: now });
+      }
+    }
+  }
+
+  async createJob(insertJob: InsertJob, cardIds: number[]): Promise<Job> {
+    const now = Date.now();
+    const job: Job = {
+      id: this.currentJobId++,
+      type: insertJob.type,
+      status: "queued",
+      created_by: insertJob.created_by ?? null,
+      template: insertJob.template ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.jobs.set(job.id, job);
+    for (const cardId of cardIds) {
+      const id = this.currentJobItemId++;
+      this.jobItems.set(id, {
+        id, job_id: job.id, card_id: cardId, status: "pending", error: null, attempts: 0,
+        claimed_by: null, lease_expires_at: null, updated_at: now,
+      });
+    }
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobItems(jobId: number): Promise<JobItem[]> {
+    return Array.from(this.jobItems.values()).filter(item => item.job_id === jobId);
+  }
+
+  async claimNextJobItem(owner: string, leaseMs: number): Promise<JobItem | undefined> {
+    const now = Date.now();
+    const next = Array.from(this.jobItems.values()).find(item => {
+      const job = this.jobs.get(item.job_id);
+      const claimable = item.status === "pending" ||
+        (item.status === "running" && (item.lease_expires_at === null || item.lease_expires_at <= now));
+      return claimable && !!job && (job.status === "queued" || job.status === "running");
+    });
+    if (!next) return undefined;
+
+    const claimed: JobItem = {
+      ...next,
+      status: "running",
+      claimed_by: owner,
+      lease_expires_at: now + leaseMs,
+      attempts: next.attempts + 1,
+      updated_at: now,
+    };
+    this.jobItems.set(claimed.id, claimed);
+    const job = this.jobs.get(claimed.job_id)!;
+    if (job.status === "queued") this.jobs.set(job.id, { ...job, status: "running", updated_at: now });
+    return claimed;
+  }
+
+  async renewJobItemLease(id: number, owner: string, leaseMs: number): Promise<boolean> {
+    const existing = this.jobItems.get(id);
+    if (!existing || existing.status !== "running" || existing.claimed_by !== owner) return false;
+    this.jobItems.set(id, { ...existing, lease_expires_at: Date.now() + leaseMs });
+    return true;
+  }
+
+  async updateJobItem(id: number, changes: Partial<JobItem>): Promise<JobItem | undefined> {
+    const existing = this.jobItems.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...changes, updated_at: Date.now() };
+    this.jobItems.set(id, updated);
+    return updated;
+  }
+
+  async completeJobIfDone(jobId: number): Promise<Job | undefined> {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+    const items = await this.getJobItems(jobId);
+    const open = items.some(item => item.status === "pending" || item.status === "running");
+    if (open || job.status === "cancelled" || job.status === "completed") return job;
+
+    const completed: Job = { ...job, status: "completed", updated_at: Date.now() };
+    this.jobs.set(jobId, completed);
+    return completed;
+  }
+
+  async cancelJob(id: number): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const now = Date.now();
+    for (const item of await this.getJobItems(id)) {
+      if (item.status === "pending") this.jobItems.set(item.id, { ...item, status: "cancelled", updated_at: now });
+    }
+    if (job.status === "completed" || job.status === "cancelled") return job;
+
+    const cancelled: Job = { ...job, status: "cancelled", updated_at: now };
+    this.jobs.set(id, cancelled);
+    return cancelled;
+  }
+
+  async retryFailedJobItems(jobId: number): Promise<number> {
+    const job = this.jobs.get(jobId);
+    if (!job) return 0;
+    const now = Date.now();
+    const failed = (await this.getJobItems(jobId)).filter(item => item.status === "failed");
+    failed.forEach(item => this.jobItems.set(item.id, { ...item, status: "pending", error: null, updated_at: now }));
+    if (failed.length > 0) this.jobs.set(jobId, { ...job, status: "queued", updated_at: now });
+    return failed.length;
+  }
+
+  private deleteLearnerStateFor(cardIds: number[]) {
+    const ids = new Set(cardIds);
+    Array.from(this.reviewStates.entries())
+      .filter(([_, state]) => ids.has(state.card_id))
+      .forEach(([key, _]) => this.reviewStates.delete(key));
+    Array.from(this.progress.entries())
+      .filter(([_, entry]) => ids.has(entry.card_id))
+      .forEach(([key, _]) => this.progress.delete(key));
+  }
 }
 
-// Use SQLite storage instead of memory storage for persistence and no external costs
-export const storage = new SqliteStorage();
+// PostgreSQL when DATABASE_URL is set (docker-compose); otherwise the local SQLite file, which needs no external services.
+// Tests get the in-memory storage so they never write to database.sqlite or a configured database.
+export const storage: IStorage = process.env.NODE_ENV === "test"
+  ? new MemStorage()
+  : process.env.DATABASE_URL
+    ? new PgStorage(process.env.DATABASE_URL)
+    : new SqliteStorage();
@@ -0,0 +1,75 @@
+import { THAI_WORDS } from "./thai-words";
+
+const dictionary = new Set(THAI_WORDS);
+const maxWordLength = Math.max(...THAI_WORDS.map(word => word.length));
+
+// Vowel signs, tone marks and other characters that attach to the preceding consonant
+const NON_STARTER = /[\u0E30-\u0E3A\u0E45-\u0E4E]/;
+// Vowels written before the consonant they follow in speech (เ แ โ ใ ไ)
+const LEADING_VOWEL = /[\u0E40-\u0E44]/;
+
+// Length of the smallest unit that can be split off at `start`: one consonant with its marks
+function clusterLength(text: string, start: number): number {
+  let end = start + 1;
+  if (LEADING_VOWEL.test(text[start]) && end < text.length) end++;
+  while (end < text.length && NON_STARTER.test(text[end])) end++;
+  return end - start;
+}
+
+interface Segmentation {
+  unknown: number; // Characters not covered by a dictionary word
+  words: number;
+  next: number; // End of the first token
+  known: boolean;
+}
+
+// Dictionary-based maximal matching: choose the split that leaves the fewest characters outside
+// dictionary words, then the one with the fewest words. Unknown characters between words are
+// kept together as one token, so text the dictionary does not cover still splits consistently.
+export function segmentThai(text: string): string[] {
+  const n = text.length;
+  const best: Segmentation[] = new Array(n + 1);
+  best[n] = { unknown: 0, words: 0, next: n, known: true };
+
+  for (let i = n - 1; i >= 0; i--) {
+    if (NON_STARTER.test(text[i])) continue;
+
+    const cluster = clusterLength(text, i);
+    const rest = best[i + cluster];
+    let choice: Segmentation = { unknown: rest.unknown + cluster, words: rest.words + 1, next: i + cluster, known: false };
+
+    for (let length = 1; length <= Math.min(maxWordLength, n - i); length++) {
+      const end = i + length;
+      if (end < n && NON_STARTER.test(text[end])) continue;
+      if (!dictionary.has(text.slice(i, end))) continue;
+      const after = best[end];
+      if (!after) continue;
+      if (after.unknown < choice.unknown || (after.unknown === choice.unknown && after.words + 1 < choice.words)) {
+        choice = { unknown: after.unknown, words: after.words + 1, next: end, known: true };
+      }
+    }
+    best[i] = choice;
+  }
+
+  const tokens: string[] = [];
+  let unknownRun = "";
+  for (let i = 0; i < n; ) {
+    const segment = best[i];
+    if (!segment) {
+      // Text starting with a stray mark; keep it with the unknown run
+      unknownRun += text[i++];
+      continue;
+    }
+    const token = text.slice(i, segment.next);
+    if (segment.known) {
+      if (unknownRun) tokens.push(unknownRun);
+      unknownRun = "";
+      tokens.push(token);
+    } else {
+      unknownRun += token;
+    }
+    i = segment.next;
+  }
+  if (unknownRun) tokens.push(unknownRun);
+  return tokens;
+}
@@ -0,0 +1,49 @@
+// Base dictionary for the Thai word segmenter: common words from beginner and intermediate courses.
+// Changing it alters how text is split; existing cards keep their old index entries until a migration rebuilds cards_fts.
+export const THAI_WORDS = [
+  // Greetings and set phrases
+  "สวัสดี", "ขอบคุณ", "ขอโทษ", "ไม่เป็นไร", "ลาก่อน", "ยินดี", "ยินดีต้อนรับ", "โชคดี", "เชิญ",
+
+  // Pronouns and people
+  "ผม", "ฉัน", "ดิฉัน", "คุณ", "เขา", "เธอ", "เรา", "พวก", "มัน", "ท่าน", "คน", "เพื่อน", "ครู",
+  "นักเรียน", "พ่อ", "แม่", "ลูก", "พี่", "น้อง", "สามี", "ภรรยา", "แฟน", "เด็ก", "ผู้ชาย", "ผู้หญิง",
+
+  // Particles and question words
+  "ครับ", "ค่ะ", "คะ", "นะ", "จ้ะ", "ไหม", "มั้ย", "หรือ", "สิ", "เลย", "แล้ว", "ด้วย", "ล่ะ",
+  "ที่ไหน", "อะไร", "ใคร", "เมื่อไร", "เท่าไร", "อย่างไร", "ยังไง", "ทำไม", "กี่",
+
+  // Verbs
+  "เป็น", "อยู่", "คือ", "มี", "ไป", "มา", "กิน", "ดื่ม", "นอน", "ทำ", "ทำงาน", "เรียน", "สอน",
+  "พูด", "ฟัง", "อ่าน", "เขียน", "ดู", "เห็น", "รู้", "รู้จัก", "เข้าใจ", "ชอบ", "รัก", "อยาก",
+  "ต้องการ", "ต้อง", "ได้", "ให้", "ซื้อ", "ขาย", "จ่าย", "เดิน", "วิ่ง", "นั่ง", "ยืน", "เปิด",
+  "ปิด", "ถาม", "ตอบ", "บอก", "เรียก", "ช่วย", "รอ", "กลับ", "ออก", "เข้า", "ขึ้น", "ลง", "ใช้",
+  "หา", "เจอ", "พบ", "คิด", "จำ", "ลืม", "ขอ", "ชื่อ", "เล่น", "อาบน้ำ", "ตื่น", "เริ่ม", "จบ",
+
+  // Adjectives and adverbs
+  "ดี", "สวย", "ใหญ่", "เล็ก", "ร้อน", "หนาว", "เย็น", "อร่อย", "แพง", "ถูก", "ใหม่", "เก่า",
+  "ง่าย", "ยาก", "เร็ว", "ช้า", "มาก", "น้อย", "สูง", "ต่ำ", "ยาว", "สั้น", "ใกล้", "ไกล",
+  "สบาย", "สนุก", "เหนื่อย", "หิว", "อิ่ม", "เผ็ด", "หวาน", "เปรี้ยว", "เค็ม", "ว่าง", "ยุ่ง",
+  "ทั้งหมด", "ทุก", "บ่อย", "เสมอ", "นิดหน่อย",
+
+  // Places, things and food
+  "บ้าน", "ห้อง", "ห้องน้ำ", "โรงเรียน", "โรงแรม", "โรงพยาบาล", "ร้าน", "ร้านอาหาร", "ตลาด",
+  "ถนน", "รถ", "รถไฟ", "รถเมล์", "เครื่องบิน", "สนามบิน", "เงิน", "บาท", "น้ำ", "ข้าว", "อาหาร",
+  "กาแฟ", "ชา", "ไก่", "หมู", "เนื้อ", "ปลา", "กุ้ง", "ไข่", "ผลไม้", "ผัก", "หนังสือ", "งาน",
+  "โทรศัพท์", "ภาษา", "ไทย", "จีน", "อังกฤษ", "ประเทศ", "เมือง", "กรุงเทพ", "ทะเล", "ภูเขา",
+
+  // Time
+  "วัน", "คืน", "เช้า", "บ่าย", "เวลา", "ชั่วโมง", "นาที", "ปี", "เดือน", "สัปดาห์", "อาทิตย์",
+  "วันนี้", "พรุ่งนี้", "เมื่อวาน", "ตอนนี้", "ตอน", "เดี๋ยวนี้", "ก่อน", "หลัง",
+
+  // Numbers
+  "หนึ่ง", "สอง", "สาม", "สี่", "ห้า", "หก", "เจ็ด", "แปด", "เก้า", "สิบ", "ยี่สิบ", "ร้อย",
+  "พัน", "หมื่น", "แสน", "ล้าน",
+
+  // Function words
+  "และ", "กับ", "แต่", "ถ้า", "เพราะ", "ว่า", "ที่", "ของ", "ใน", "บน", "ใต้", "จาก", "ถึง",
+  "กว่า", "ก็", "จะ", "กำลัง", "เคย", "ยัง", "ไม่", "ไม่ใช่", "ใช่", "นี้", "นั้น", "โน้น", "นี่",
+  "นั่น", "ที่นี่", "ที่นั่น", "อีก", "เท่านั้น", "เพื่อ", "สำหรับ",
+
+  // Classifiers
+  "ตัว", "อัน", "ใบ", "เล่ม", "คัน", "ชิ้น", "แก้ว", "จาน", "ขวด", "ห่อ",
+];
@@ -0,0 +1,59 @@
+import type { TtsProvider } from "./types";
+import { SoundOfTextProvider } from "./soundoftext";
+import { LocalTtsProvider, type LocalEngine } from "./local";
+import { StubTtsProvider } from "./stub";
+
+export type { TtsProvider, SynthesisOptions, SynthesisResult } from "./types";
+export { SoundOfTextProvider, LocalTtsProvider, StubTtsProvider };
+
+let activeProvider: TtsProvider | null = null;
+
+// Selected with TTS_PROVIDER=soundoftext|local|stub (default soundoftext).
+// TTS_VOICE overrides the provider's default voice; the local provider also reads
+// TTS_LOCAL_ENGINE (espeak-ng|piper) and TTS_LOCAL_BINARY.
+export function createTtsProvider(env: NodeJS.ProcessEnv = process.env): TtsProvider {
+  const providerName = (env.TTS_PROVIDER || "soundoftext").toLowerCase();
+
+  switch (providerName) {
+    case "soundoftext":
+      return new SoundOfTextProvider(env.TTS_VOICE);
+    case "local": {
+      const engine = (env.TTS_LOCAL_ENGINE || "espeak-ng") as LocalEngine;
+      if (engine !== "espeak-ng" && engine !== "piper") {
+        throw new Error(`Unknown TTS_LOCAL_ENGINE "${engine}". Use espeak-ng or piper.`);
+      }
+      return new LocalTtsProvider({
+        engine,
+        binary: env.TTS_LOCAL_BINARY,
+        voice: env.TTS_VOICE,
+      });
+    }
+    case "stub":
+      return new StubTtsProvider();
+    default:
+      throw new Error(`Unknown TTS_PROVIDER "${providerName}". Use soundoftext, local or stub.`);
+  }
+}
+
+export function getTtsProvider(): TtsProvider {
+  if (!activeProvider) {
+    activeProvider = createTtsProvider();
+    console.log(`🔊 Using TTS provider: ${activeProvider.name} (voice ${activeProvider.defaultVoice})`);
+  }
+  return activeProvider;
+}
+
+// Speaking rate for generated audio (TTS_SPEED, default 1); 0.8 is slower, 1.2 faster
+export function getTtsSpeed(env: NodeJS.ProcessEnv = process.env): number {
+  if (!env.TTS_SPEED) return 1;
+  const speed = Number(env.TTS_SPEED);
+  if (!Number.isFinite(speed) || speed <= 0) {
+    throw new Error(`Invalid TTS_SPEED "${env.TTS_SPEED}". Use a positive number such as 0.8 or 1.2.`);
+  }
+  return speed;
+}
+
+// Lets tests swap in the stub provider without environment variables
+export function setTtsProvider(provider: TtsProvider | null) {
+  activeProvider = provider;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalTtsProvider } from "./local";
+
+// Stands in for espeak-ng and piper: writes the arguments it was given (and piper's stdin), as JSON,
+// to the output file the provider reads back
+const FAKE_ENGINE = `#!/usr/bin/env node
+const args = process.argv.slice(2);
+const flag = args.includes("-w") ? "-w" : "--output_file";
+const output = args[args.indexOf(flag) + 1];
+const write = stdin => require("fs").writeFileSync(output, JSON.stringify({ args, stdin }));
+if (flag === "-w") {
+  write(""); // espeak-ng leaves stdin open
+} else {
+  let stdin = "";
+  process.stdin.on("data", chunk => { stdin += chunk; });
+  process.stdin.on("end", () => write(stdin));
+}
+`;
+
+let tempDir: string;
+let fakeEngine: string;
+
+async function synthesizeWith(provider: LocalTtsProvider, text: string): Promise<{ args: string[]; stdin: string }> {
+  const result = await provider.synthesize(text);
+  return JSON.parse(result.audio.toString("utf8"));
+}
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "local-tts-test-"));
+  fakeEngine = path.join(tempDir, "fake-engine.cjs");
+  await fs.writeFile(fakeEngine, FAKE_ENGINE, { mode: 0o755 });
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe("LocalTtsProvider with espeak-ng", () => {
+  it("passes the text after -- so it is never read as an option", async () => {
+    const provider = new LocalTtsProvider({ engine: "espeak-ng", binary: fakeEngine });
+    const { args } = await synthesizeWith(provider, "-w /tmp/elsewhere.wav");
+
+    expect(args.slice(-2)).toEqual(["--", "-w /tmp/elsewhere.wav"]);
+    // The only -w is the provider's own output file, which comes before the text
+    expect(args.indexOf("-w")).toBeLessThan(args.indexOf("--"));
+    expect(args.filter(arg => arg === "-w")).toHaveLength(1);
+  });
+
+  it("passes voice and rate as options", async () => {
+    const provider = new LocalTtsProvider({ engine: "espeak-ng", binary: fakeEngine, voice: "th" });
+    const result = await provider.synthesize("สวัสดี", { speed: 0.8 });
+    const { args } = JSON.parse(result.audio.toString("utf8"));
+
+    expect(args.slice(0, 4)).toEqual(["-v", "th", "-s", "140"]);
+    expect(args.at(-1)).toBe("สวัสดี");
+    expect(result.voice).toBe("th");
+  });
+});
+
+describe("LocalTtsProvider with piper", () => {
+  it("sends leading-dash text on stdin, never as an argument", async () => {
+    const provider = new LocalTtsProvider({ engine: "piper", binary: fakeEngine, voice: "model.onnx" });
+    const { args, stdin } = await synthesizeWith(provider, "--output_file /tmp/elsewhere.wav");
+
+    expect(stdin).toBe("--output_file /tmp/elsewhere.wav");
+    expect(args).not.toContain("/tmp/elsewhere.wav");
+  });
+});
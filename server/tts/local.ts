@@ -0,0 +1,75 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { randomBytes } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { TtsProvider, SynthesisOptions, SynthesisResult } from "./types";
+
+const execFileAsync = promisify(execFile);
+const SYNTHESIS_TIMEOUT_MS = 60 * 1000;
+const ESPEAK_WORDS_PER_MINUTE = 175; // espeak-ng's default rate
+
+export type LocalEngine = "espeak-ng" | "piper";
+
+export interface LocalTtsConfig {
+  engine: LocalEngine;
+  binary?: string; // Path to the executable; defaults to the engine name on PATH
+  voice?: string; // espeak-ng voice name, or the .onnx model path for piper
+}
+
+// Offline synthesis by running espeak-ng or piper as a subprocess; both write WAV
+export class LocalTtsProvider implements TtsProvider {
+  readonly name: string;
+  readonly defaultVoice: string;
+  private engine: LocalEngine;
+  private binary: string;
+
+  constructor(config: LocalTtsConfig) {
+    this.engine = config.engine;
+    this.binary = config.binary || config.engine;
+    this.name = `local:${config.engine}`;
+    this.defaultVoice = config.voice || (config.engine === "piper" ? "th_TH-model.onnx" : "th");
+  }
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+    const voice = options.voice || this.defaultVoice;
+    const speed = options.speed || 1;
+    const outputPath = path.join(os.tmpdir(), `tts_${randomBytes(8).toString("hex")}.wav`);
+
+    try {
+      if (this.engine === "piper") {
+        await this.runPiper(text, voice, speed, outputPath);
+      } else {
+        const wordsPerMinute = String(Math.round(ESPEAK_WORDS_PER_MINUTE * speed));
+        // "--" ends the options, so card text starting with "-" is spoken rather than parsed as a flag
+        await execFileAsync(this.binary, ["-v", voice, "-s", wordsPerMinute, "-w", outputPath, "--", text], {
+          timeout: SYNTHESIS_TIMEOUT_MS,
+        });
+      }
+
+      const audio = await fs.readFile(outputPath);
+      if (audio.length === 0) {
+        throw new Error(`${this.engine} produced an empty file`);
+      }
+      return { audio, extension: "wav", voice };
+    } catch (error) {
+      throw new Error(`${this.engine} failed to synthesize "${text}": ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await fs.unlink(outputPath).catch(() => {});
+    }
+  }
+
+  // piper reads the text from stdin; its length scale is the inverse of speed
+  private runPiper(text: string, model: string, speed: number, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        this.binary,
+        ["--model", model, "--length_scale", String(1 / speed), "--output_file", outputPath],
+        { timeout: SYNTHESIS_TIMEOUT_MS },
+        (error) => (error ? reject(error) : resolve())
+      );
+      child.stdin?.end(text);
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import type { TtsProvider, SynthesisOptions, SynthesisResult } from "./types";
+
+const API_BASE = "https://api.soundoftext.com";
+const MAX_ATTEMPTS = 3;
+const MAX_POLLS = 20;
+const MIN_AUDIO_BYTES = 1000; // Anything smaller is an error page, not audio
+
+// Google voices proxied by soundoftext.com; needs internet access. The speaking rate is fixed.
+export class SoundOfTextProvider implements TtsProvider {
+  readonly name = "soundoftext";
+  readonly defaultVoice: string;
+
+  constructor(voice?: string) {
+    this.defaultVoice = voice || "th-TH";
+  }
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+    const voice = options.voice || this.defaultVoice;
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        console.log(`🔄 Attempt ${attempt}/${MAX_ATTEMPTS} for SoundofText API`);
+
+        const generateResponse = await fetch(`${API_BASE}/sounds`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            engine: "Google",
+            data: { text, voice },
+          }),
+        });
+
+        if (generateResponse.ok) {
+          const result = await generateResponse.json();
+          console.log(`📝 SoundofText response:`, result);
+
+          if (result.success && result.id) {
+            const audioUrl = await this.pollForCompletion(result.id);
+
+            if (audioUrl) {
+              const audioResponse = await fetch(audioUrl);
+              if (audioResponse.ok) {
+                const audioBuffer = await audioResponse.arrayBuffer();
+
+                if (audioBuffer.byteLength > MIN_AUDIO_BYTES) {
+                  return { audio: Buffer.from(audioBuffer), extension: "mp3", voice };
+                }
+                console.warn(`⚠️  Audio file too small: ${audioBuffer.byteLength} bytes`);
+              }
+            }
+          }
+        } else {
+          console.warn(`❌ SoundofText API failed: ${generateResponse.status} ${generateResponse.statusText}`);
+        }
+      } catch (apiError) {
+        console.warn(`❌ SoundofText API attempt ${attempt} failed:`, apiError);
+      }
+
+      if (attempt < MAX_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s before retry
+      }
+    }
+
+    throw new Error(`SoundofText failed to generate audio for "${text}" after ${MAX_ATTEMPTS} attempts`);
+  }
+
+  private async pollForCompletion(id: string): Promise<string | null> {
+    for (let attempt = 0; attempt < MAX_POLLS; attempt++) {
+      try {
+        const statusResponse = await fetch(`${API_BASE}/sounds/${id}`);
+
+        if (statusResponse.ok) {
+          const statusResult = await statusResponse.json();
+
+          if (statusResult.status === "Done") {
+            return statusResult.location;
+          }
+
+          if (statusResult.status === "Error") {
+            throw new Error("SoundofText generation failed");
+          }
+        }
+      } catch (error) {
+        console.warn(`Audio polling attempt ${attempt + 1} failed:`, error);
+      }
+
+      // Wait before next attempt
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,40 @@
+import type { TtsProvider, SynthesisOptions, SynthesisResult } from "./types";
+
+const SAMPLE_RATE = 16000;
+
+// Deterministic provider for tests and offline development: returns a short silent WAV
+// whose length grows with the text, without touching the network or any binaries.
+export class StubTtsProvider implements TtsProvider {
+  readonly name = "stub";
+  readonly defaultVoice = "stub";
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+    const durationMs = (200 + text.length * 20) / (options.speed || 1);
+    return {
+      audio: createSilentWav(durationMs),
+      extension: "wav",
+      voice: options.voice || this.defaultVoice,
+    };
+  }
+}
+
+function createSilentWav(durationMs: number): Buffer {
+  const dataSize = Math.round((SAMPLE_RATE * durationMs) / 1000) * 2; // 16-bit mono
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8);
+  buffer.write("fmt ", 12);
+  buffer.writeUInt32LE(16, 16); // PCM chunk size
+  buffer.writeUInt16LE(1, 20); // PCM format
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  buffer.writeUInt16LE(2, 32); // block align
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(dataSize, 40);
+
+  return buffer;
+}
@@ -0,0 +1,17 @@
+export interface SynthesisOptions {
+  voice?: string; // Provider-specific voice; falls back to the provider default
+  speed?: number; // Rate multiplier, 1 being the voice's normal pace; providers that cannot change it ignore it
+}
+
+export interface SynthesisResult {
+  audio: Buffer;
+  extension: "mp3" | "wav";
+  voice: string; // Voice that actually produced the audio
+}
+
+// A text-to-speech backend. Implementations throw on failure; callers decide how to report it.
+export interface TtsProvider {
+  readonly name: string;
+  readonly defaultVoice: string;
+  synthesize(text: string, options?: SynthesisOptions): Promise<SynthesisResult>;
+}
@@ -0,0 +1,122 @@
+import { storage, type ImportPlan, type ImportResult, type PlannedCard, type PlannedCardUpdate } from "./storage";
+import { LessonPlanner } from "./lessons";
+import type { Card, MergeStrategy, UploadCard, UploadDiff } from "@shared/schema";
+
+// Text fields compared to decide whether a matching card changed
+const COMPARED_FIELDS = ["chinese", "pronunciation", "example", "example_translation"] as const;
+
+// Fields that feed generated audio and images; overwriting them marks media as stale
+const MEDIA_FIELDS = ["thai", "chinese", "pronunciation", "example", "example_translation"] as const;
+
+function sameTags(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(tag => b.includes(tag));
+}
+
+function matchKey(thai: string, level: number): string {
+  return `${level}:${thai.trim()}`;
+}
+
+// Split an upload into new cards, exact duplicates and changed cards, matching on Thai text and level.
+// A card whose upload names a different lesson, part of speech or set of tags counts as changed.
+export async function diffUpload(incoming: UploadCard[]): Promise<UploadDiff> {
+  const levels = Array.from(new Set(incoming.map(card => card.level ?? 1)));
+  const existingByKey = new Map<string, Card>();
+  const lessonTitles = new Map<number, string>();
+  for (const level of levels) {
+    for (const lesson of await storage.getLessons(level)) {
+      lessonTitles.set(lesson.id, lesson.title);
+    }
+    for (const card of await storage.getCardsByLevel(level)) {
+      const key = matchKey(card.thai, card.level);
+      if (!existingByKey.has(key)) existingByKey.set(key, card);
+    }
+  }
+
+  const diff: UploadDiff = { new: [], duplicates: [], changed: [] };
+  for (const card of incoming) {
+    const existing = existingByKey.get(matchKey(card.thai, card.level ?? 1));
+    if (!existing) {
+      diff.new.push(card);
+      continue;
+    }
+
+    const fields: string[] = COMPARED_FIELDS.filter(field => (card[field] ?? "").trim() !== existing[field].trim());
+    if (card.lesson !== undefined && card.lesson !== (existing.lesson_id !== null ? lessonTitles.get(existing.lesson_id) : undefined)) {
+      fields.push("lesson");
+    }
+    if (card.part_of_speech !== undefined && card.part_of_speech !== existing.part_of_speech) {
+      fields.push("part_of_speech");
+    }
+    if (card.tags !== undefined && !sameTags(card.tags, existing.tags)) {
+      fields.push("tags");
+    }
+    if (fields.length === 0) {
+      diff.duplicates.push({ incoming: card, existing });
+    } else {
+      diff.changed.push({ incoming: card, existing, fields });
+    }
+  }
+  return diff;
+}
+
+export interface MergeResult extends ImportResult {
+  skipped: number;
+  incoming: Map<number, UploadCard>; // Card id -> the uploaded card it was created or overwritten from
+}
+
+// New cards are always created. Matches are skipped, overwrite the existing card, or are added alongside it.
+// The whole upload, lessons included, is written and recorded as one undoable batch in a single transaction.
+export async function applyUpload(diff: UploadDiff, strategy: MergeStrategy, batch: ImportPlan["batch"]): Promise<MergeResult> {
+  const planner = new LessonPlanner();
+  const toCreate = [...diff.new];
+  const overwritten: UploadCard[] = [];
+  const updates: PlannedCardUpdate[] = [];
+  let skipped = 0;
+
+  if (strategy === "keep_both") {
+    toCreate.push(...diff.duplicates.map(match => match.incoming), ...diff.changed.map(match => match.incoming));
+  } else if (strategy === "overwrite") {
+    // Exact duplicates already hold the same content, so only changed cards are written
+    skipped += diff.duplicates.length;
+    for (const { incoming, existing, fields } of diff.changed) {
+      const update: PlannedCardUpdate = {
+        id: existing.id,
+        changes: {
+          chinese: incoming.chinese,
+          pronunciation: incoming.pronunciation,
+          example: incoming.example,
+          example_translation: incoming.example_translation,
+        },
+      };
+      const { changes } = update;
+      if (MEDIA_FIELDS.some(field => changes[field] !== undefined && changes[field] !== existing[field])) {
+        changes.media_stale = true;
+      }
+      if (fields.includes("part_of_speech")) changes.part_of_speech = incoming.part_of_speech;
+      if (fields.includes("tags")) changes.tags = incoming.tags;
+      if (fields.includes("lesson")) {
+        const placed = await planner.place(incoming);
+        changes.lesson_id = placed.card.lesson_id;
+        changes.lesson_position = placed.card.lesson_position;
+        update.newLesson = placed.newLesson;
+      }
+      updates.push(update);
+      overwritten.push(incoming);
+    }
+  } else {
+    skipped += diff.duplicates.length + diff.changed.length;
+  }
+
+  // Lessons are placed after the updates so new cards come after any cards moved into a lesson
+  const creates: PlannedCard[] = [];
+  for (const card of toCreate) {
+    creates.push(await planner.place(card));
+  }
+
+  const result = await storage.applyImport({ batch, newLessons: planner.newLessons, updates, creates });
+  const incoming = new Map<number, UploadCard>([
+    ...result.updated.map((card, index) => [card.id, overwritten[index]] as const),
+    ...result.created.map((card, index) => [card.id, toCreate[index]] as const),
+  ]);
+  return { ...result, skipped, incoming };
+}
@@ -0,0 +1,19 @@
+export const userRoles = ["admin", "editor", "learner"] as const;
+
+export type UserRole = typeof userRoles[number];
+
+// Which roles may perform each protected action; shared so the UI hides what the server would reject
+export const rolePermissions = {
+  "progress:write": ["admin", "editor", "learner"], // grade cards and save learning progress; guests only study
+  "cards:write": ["admin", "editor"], // upload, edit, delete and generate media
+  "cards:clear": ["admin"], // wipe the whole deck
+  "courses:manage": ["admin", "editor"], // create, edit and delete courses
+  "users:manage": ["admin"], // change other users' roles
+  "media:manage": ["admin"], // view media storage and delete unreferenced files
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof rolePermissions;
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (rolePermissions[permission] as readonly string[]).includes(role);
+}
@@ -0,0 +1,130 @@
+import { pgTable, text, integer, serial, bigint, boolean, doublePrecision, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { userRoles } from "./permissions";
+import { cardImageTemplates, partsOfSpeech, jobStatuses, jobItemStatuses, importSources, mediaKinds, courseColors, courseIcons, type Card } from "./schema";
+
+// PostgreSQL versions of the tables in schema.ts, used by PgStorage and drizzle-kit.
+// Row shapes match the SQLite tables so both storages return the same types; timestamps stay in ms.
+
+export const courses = pgTable("courses", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description").notNull().default(""),
+  color: text("color", { enum: courseColors }).notNull().default("blue"),
+  icon: text("icon", { enum: courseIcons }).notNull().default("book-open"),
+  ordering: integer("ordering").notNull().default(0),
+});
+
+export const lessons = pgTable("lessons", {
+  id: serial("id").primaryKey(),
+  course_id: integer("course_id").notNull(),
+  title: text("title").notNull(),
+  ordering: integer("ordering").notNull().default(0),
+}, (table) => [
+  uniqueIndex("lessons_course_title_idx").on(table.course_id, table.title),
+]);
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role", { enum: userRoles }).notNull().default("learner"),
+});
+
+export const cards = pgTable("cards", {
+  id: serial("id").primaryKey(),
+  thai: text("thai").notNull(),
+  chinese: text("chinese").notNull(),
+  pronunciation: text("pronunciation").notNull(),
+  example: text("example").notNull(),
+  example_translation: text("example_translation").notNull(),
+  level: integer("level").notNull().default(1),
+  lesson_id: integer("lesson_id"),
+  lesson_position: integer("lesson_position"),
+  part_of_speech: text("part_of_speech", { enum: partsOfSpeech }),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  word_audio: text("word_audio"),
+  example_audio: text("example_audio"),
+  word_audio_provider: text("word_audio_provider"),
+  word_audio_voice: text("word_audio_voice"),
+  example_audio_provider: text("example_audio_provider"),
+  example_audio_voice: text("example_audio_voice"),
+  card_image: text("card_image"),
+  media_stale: boolean("media_stale").notNull().default(false),
+}, (table) => [
+  index("cards_lesson_idx").on(table.lesson_id),
+]);
+
+export const reviewStates = pgTable("review_states", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull(),
+  card_id: integer("card_id").notNull(),
+  ease: doublePrecision("ease").notNull().default(2.5),
+  interval: doublePrecision("interval").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0),
+  lapses: integer("lapses").notNull().default(0),
+  due_at: bigint("due_at", { mode: "number" }).notNull(),
+  last_reviewed_at: bigint("last_reviewed_at", { mode: "number" }),
+}, (table) => [
+  uniqueIndex("review_states_user_card_idx").on(table.user_id, table.card_id),
+]);
+
+export const progress = pgTable("progress", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull(),
+  card_id: integer("card_id").notNull(),
+  completed_at: bigint("completed_at", { mode: "number" }).notNull(),
+}, (table) => [
+  uniqueIndex("progress_user_card_idx").on(table.user_id, table.card_id),
+]);
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  status: text("status", { enum: jobStatuses }).notNull().default("queued"),
+  created_by: integer("created_by"),
+  template: text("template", { enum: cardImageTemplates }),
+  created_at: bigint("created_at", { mode: "number" }).notNull(),
+  updated_at: bigint("updated_at", { mode: "number" }).notNull(),
+});
+
+export const jobItems = pgTable("job_items", {
+  id: serial("id").primaryKey(),
+  job_id: integer("job_id").notNull(),
+  card_id: integer("card_id").notNull(),
+  status: text("status", { enum: jobItemStatuses }).notNull().default("pending"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  claimed_by: text("claimed_by"),
+  lease_expires_at: bigint("lease_expires_at", { mode: "number" }),
+  updated_at: bigint("updated_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("job_items_job_idx").on(table.job_id),
+  index("job_items_status_idx").on(table.status),
+]);
+
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  source: text("source", { enum: importSources }).notNull(),
+  filename: text("filename"),
+  created_by: integer("created_by"),
+  card_ids: jsonb("card_ids").$type<number[]>().notNull(),
+  replaced_cards: jsonb("replaced_cards").$type<Card[]>().notNull(),
+  lesson_ids: jsonb("lesson_ids").$type<number[]>().notNull().default([]),
+  created_at: bigint("created_at", { mode: "number" }).notNull(),
+});
+
+export const mediaAssets = pgTable("media_assets", {
+  id: serial("id").primaryKey(),
+  path: text("path").notNull().unique(),
+  card_id: integer("card_id"),
+  kind: text("kind", { enum: mediaKinds }).notNull(),
+  provider: text("provider"),
+  size: integer("size").notNull(),
+  checksum: text("checksum").notNull(),
+  content_type: text("content_type").notNull(),
+  cache_key: text("cache_key"),
+  created_at: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("media_assets_cache_key_idx").on(table.cache_key),
+  index("media_assets_checksum_idx").on(table.checksum),
+]);
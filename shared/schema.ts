@@ -1,11 +1,41 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { userRoles } from "./permissions";
+
+export const courseColors = ["green", "blue", "purple", "orange", "red", "teal", "pink", "gray"] as const;
+export const courseIcons = ["book-open", "graduation-cap", "trophy", "star", "languages", "message-circle"] as const;
+
+// A course groups cards; cards.level holds the course ID. Courses 1-4 are the original 基础泰语1-4.
+export const courses = sqliteTable("courses", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  description: text("description").notNull().default(""),
+  color: text("color", { enum: courseColors }).notNull().default("blue"),
+  icon: text("icon", { enum: courseIcons }).notNull().default("book-open"),
+  ordering: integer("ordering").notNull().default(0), // Display order, lowest first
+});
+
+export const partsOfSpeech = [
+  "noun", "verb", "adjective", "adverb", "pronoun", "classifier", "particle",
+  "preposition", "conjunction", "numeral", "interjection", "phrase",
+] as const;
+
+// A chapter of a course; its cards are studied in lesson_position order
+export const lessons = sqliteTable("lessons", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  course_id: integer("course_id").notNull(),
+  title: text("title").notNull(),
+  ordering: integer("ordering").notNull().default(0), // Display order within the course, lowest first
+}, (table) => [
+  uniqueIndex("lessons_course_title_idx").on(table.course_id, table.title),
+]);
 
 export const users = sqliteTable("users", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role", { enum: userRoles }).notNull().default("learner"),
 });
 
 export const cards = sqliteTable("cards", {
@@ -15,25 +45,194 @@ export const cards = sqliteTable("cards", {
   pronunciation: text("pronunciation").notNull(),
   example: text("example").notNull(),
   example_translation: text("example_translation").notNull(),
-  level: integer("level").notNull().default(1), // 1-4 for 基础泰语1-4
+  level: integer("level").notNull().default(1), // Course ID (courses.id); named level for existing files and URLs
+  lesson_id: integer("lesson_id"), // Lesson within the course; null for cards not assigned to a lesson
+  lesson_position: integer("lesson_position"), // Order within the lesson, lowest first
+  part_of_speech: text("part_of_speech", { enum: partsOfSpeech }),
+  tags: text("tags", { mode: "json" }).$type<string[]>().notNull().default([]), // Free-form labels such as "food"
   // Audio and image file paths
   word_audio: text("word_audio"), // Path to word audio file
   example_audio: text("example_audio"), // Path to example audio file
+  // Which TTS provider and voice produced each audio file
+  word_audio_provider: text("word_audio_provider"),
+  word_audio_voice: text("word_audio_voice"),
+  example_audio_provider: text("example_audio_provider"),
+  example_audio_voice: text("example_audio_voice"),
   card_image: text("card_image"), // Path to generated card image
+  media_stale: integer("media_stale", { mode: "boolean" }).notNull().default(false), // Text edited since media was generated
+});
+
+// Spaced-repetition state, one row per (user, card) once the card has been graded
+export const reviewStates = sqliteTable("review_states", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  user_id: integer("user_id").notNull(),
+  card_id: integer("card_id").notNull(),
+  ease: real("ease").notNull().default(2.5), // SM-2 ease factor
+  interval: real("interval").notNull().default(0), // Days until next review
+  repetitions: integer("repetitions").notNull().default(0), // Consecutive successful reviews
+  lapses: integer("lapses").notNull().default(0), // Times graded "again" after being learned
+  due_at: integer("due_at").notNull(), // Timestamp (ms) when the card is due again
+  last_reviewed_at: integer("last_reviewed_at"), // Timestamp (ms) of the last grade
+}, (table) => [
+  uniqueIndex("review_states_user_card_idx").on(table.user_id, table.card_id),
+]);
+
+// Cards a user has studied, kept per card ID so it survives re-shuffles and device switches
+export const progress = sqliteTable("progress", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  user_id: integer("user_id").notNull(),
+  card_id: integer("card_id").notNull(),
+  completed_at: integer("completed_at").notNull(), // Timestamp (ms) when the card was first completed
+}, (table) => [
+  uniqueIndex("progress_user_card_idx").on(table.user_id, table.card_id),
+]);
+
+export const cardImageTemplates = ["classic", "minimal", "dark"] as const;
+
+export const jobStatuses = ["queued", "running", "completed", "cancelled"] as const;
+export const jobItemStatuses = ["pending", "running", "succeeded", "failed", "cancelled"] as const;
+
+// Background work such as media generation; items are processed one card at a time
+export const jobs = sqliteTable("jobs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  type: text("type").notNull(), // e.g. "generate"
+  status: text("status", { enum: jobStatuses }).notNull().default("queued"),
+  created_by: integer("created_by"),
+  template: text("template", { enum: cardImageTemplates }), // Card image layout for generate jobs
+  created_at: integer("created_at").notNull(), // Timestamp (ms)
+  updated_at: integer("updated_at").notNull(), // Timestamp (ms)
+});
+
+export const jobItems = sqliteTable("job_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  job_id: integer("job_id").notNull(),
+  card_id: integer("card_id").notNull(),
+  status: text("status", { enum: jobItemStatuses }).notNull().default("pending"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  claimed_by: text("claimed_by"), // Worker running the item, e.g. host:pid:random
+  lease_expires_at: integer("lease_expires_at"), // Timestamp (ms); a running item past it may be claimed by another worker
+  updated_at: integer("updated_at").notNull(), // Timestamp (ms)
+});
+
+export const importSources = ["json", "spreadsheet", "archive", "anki"] as const;
+
+// One row per upload so the whole import can be undone; replaced_cards holds cards as they were before an overwrite
+export const importBatches = sqliteTable("import_batches", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  source: text("source", { enum: importSources }).notNull(),
+  filename: text("filename"),
+  created_by: integer("created_by"),
+  card_ids: text("card_ids", { mode: "json" }).$type<number[]>().notNull(), // Cards created by the upload
+  replaced_cards: text("replaced_cards", { mode: "json" }).$type<Card[]>().notNull(),
+  lesson_ids: text("lesson_ids", { mode: "json" }).$type<number[]>().notNull().default([]), // Lessons created by the upload
+  created_at: integer("created_at").notNull(), // Timestamp (ms)
+});
+
+export const mediaKinds = ["word_audio", "example_audio", "card_image"] as const;
+
+// Every file written under generated/, so unreferenced media can be found and removed
+export const mediaAssets = sqliteTable("media_assets", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  path: text("path").notNull().unique(), // Stored path, e.g. generated/audio/word_1_1700000000000.mp3
+  card_id: integer("card_id"), // Card the file was first written for; shared audio can serve other cards too
+  kind: text("kind", { enum: mediaKinds }).notNull(),
+  provider: text("provider"), // TTS provider as recorded on the card ("anki" for Anki imports); null for card images
+  size: integer("size").notNull(), // Bytes
+  checksum: text("checksum").notNull(), // SHA-256, hex; imported files with the same bytes reuse the stored one
+  content_type: text("content_type").notNull(), // MIME type the file is served with
+  cache_key: text("cache_key"), // Synthesized audio: hash of text, provider, voice and speed, so identical speech is reused
+  created_at: integer("created_at").notNull(), // Timestamp (ms)
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+// Self-registration never lets the client choose a role
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "用户名至少3个字符").max(50),
+  password: z.string().min(8, "密码至少8个字符"),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const insertCourseSchema = createInsertSchema(courses, {
+  title: z.string().trim().min(1, "课程名称不能为空").max(100),
+  description: (schema) => schema.max(500),
+}).pick({
+  title: true,
+  description: true,
+  color: true,
+  icon: true,
+  ordering: true,
+});
+
+export const updateCourseSchema = insertCourseSchema.partial().strict().refine(data => Object.keys(data).length > 0, {
+  message: "No fields to update",
+});
+
+export const lessonTitleSchema = z.string().trim().min(1, "课名不能为空").max(100);
+
+export const insertLessonSchema = z.object({
+  title: lessonTitleSchema,
+  ordering: z.number().int().optional(),
+});
+
+export const updateLessonSchema = insertLessonSchema.partial().strict().refine(data => Object.keys(data).length > 0, {
+  message: "No fields to update",
+});
+
+// Tags are matched exactly, so surrounding whitespace is dropped; commas separate tags in text inputs
+export const tagSchema = z.string().trim().min(1).max(50).refine(tag => !/[,，、]/.test(tag), {
+  message: "Tags cannot contain commas",
 });
 
-export const insertCardSchema = createInsertSchema(cards).pick({
+export const tagListSchema = z.array(tagSchema).max(20).transform(tags => Array.from(new Set(tags)));
+
+// Cards reference a course by ID; whether the course exists is checked by the server
+export const courseIdSchema = z.number().int().positive();
+
+export const insertCardSchema = createInsertSchema(cards, {
+  tags: tagListSchema.optional(),
+}).pick({
   thai: true,
   chinese: true,
   pronunciation: true,
   example: true,
   example_translation: true,
   level: true,
+  lesson_id: true,
+  lesson_position: true,
+  part_of_speech: true,
+  tags: true,
+});
+
+export const reviewGrades = ["again", "hard", "good", "easy"] as const;
+
+export const reviewGradeSchema = z.object({
+  grade: z.enum(reviewGrades),
+});
+
+// Partial card edit; at least one field must be present
+export const updateCardSchema = insertCardSchema.omit({ lesson_id: true, lesson_position: true }).partial().extend({
+  level: courseIdSchema.optional(),
+}).strict().refine(data => Object.keys(data).length > 0, {
+  message: "No fields to update",
+});
+
+export const updateProgressSchema = z.object({
+  cardIds: z.array(z.number().int().positive()).min(1),
+  completed: z.boolean().default(true),
+});
+
+export const createGenerateJobSchema = z.object({
+  cardIds: z.array(z.number().int().positive()).min(1),
+  template: z.enum(cardImageTemplates).optional(),
 });
 
 export const cardFileSchema = z.object({
@@ -44,12 +243,224 @@ export const cardFileSchema = z.object({
     pronunciation: z.string(),
     example: z.string(),
     example_translation: z.string(),
-    level: z.number().min(1).max(4).default(1),
+    level: courseIdSchema.default(1),
+    lesson: lessonTitleSchema.optional(), // Lesson title; created in the card's course if missing
+    part_of_speech: z.enum(partsOfSpeech).optional(),
+    tags: tagListSchema.optional(),
   }))
 });
 
+// manifest.json inside a card archive; media paths are relative to the archive root
+export const cardArchiveCardSchema = z.object({
+  thai: z.string(),
+  chinese: z.string(),
+  pronunciation: z.string(),
+  example: z.string(),
+  example_translation: z.string(),
+  level: courseIdSchema.default(1),
+  lesson: lessonTitleSchema.optional(),
+  part_of_speech: z.enum(partsOfSpeech).nullable().optional(),
+  tags: tagListSchema.optional(),
+  word_audio: z.string().nullable().optional(),
+  example_audio: z.string().nullable().optional(),
+  word_audio_provider: z.string().nullable().optional(),
+  word_audio_voice: z.string().nullable().optional(),
+  example_audio_provider: z.string().nullable().optional(),
+  example_audio_voice: z.string().nullable().optional(),
+  card_image: z.string().nullable().optional(),
+  media_stale: z.boolean().optional(),
+});
+
+export const cardArchiveManifestSchema = z.object({
+  version: z.literal(1),
+  exported_at: z.string(),
+  cards: z.array(cardArchiveCardSchema),
+});
+
+// Zero-based spreadsheet column for each card field
+export const spreadsheetColumnMappingSchema = z.object({
+  thai: z.number().int().min(0),
+  chinese: z.number().int().min(0),
+  pronunciation: z.number().int().min(0).optional(),
+  example: z.number().int().min(0).optional(),
+  example_translation: z.number().int().min(0).optional(),
+  lesson: z.number().int().min(0).optional(),
+  part_of_speech: z.number().int().min(0).optional(),
+  tags: z.number().int().min(0).optional(),
+});
+
+export const spreadsheetImportOptionsSchema = z.object({
+  mapping: spreadsheetColumnMappingSchema,
+  level: z.coerce.number().pipe(courseIdSchema),
+  hasHeader: z.boolean().default(true),
+});
+
+export const exportFormats = ["zip", "apkg"] as const;
+
+// Orders accepted by GET /api/cards?sort=; a leading "-" sorts descending. Ties are broken by id.
+export const cardSortFields = ["id", "thai", "chinese", "level"] as const;
+
+// How an upload treats cards that match an existing card by Thai text and level
+export const mergeStrategies = ["skip", "overwrite", "keep_both"] as const;
+
+// Which Anki field feeds each card field; values are Anki field names
+export const ankiFieldMappingSchema = z.object({
+  thai: z.string().min(1),
+  chinese: z.string().min(1),
+  pronunciation: z.string().optional(),
+  example: z.string().optional(),
+  example_translation: z.string().optional(),
+  word_audio: z.string().optional(),
+  example_audio: z.string().optional(),
+});
+
+export const ankiImportRequestSchema = z.object({
+  modelId: z.string().min(1),
+  level: z.coerce.number().pipe(courseIdSchema),
+  mapping: ankiFieldMappingSchema,
+});
+
+export type Course = typeof courses.$inferSelect;
+export type InsertCourse = z.infer<typeof insertCourseSchema>;
+export type UpdateCourse = z.infer<typeof updateCourseSchema>;
+export type CourseColor = typeof courseColors[number];
+export type CourseIcon = typeof courseIcons[number];
+export type Lesson = typeof lessons.$inferSelect;
+export type InsertLesson = z.infer<typeof insertLessonSchema>;
+export type UpdateLesson = z.infer<typeof updateLessonSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type Card = typeof cards.$inferSelect;
 export type InsertCard = z.infer<typeof insertCardSchema>;
+export type UpdateCard = z.infer<typeof updateCardSchema>;
+export type PartOfSpeech = typeof partsOfSpeech[number];
+// A card parsed from an upload; lesson is a lesson title, resolved to lesson_id when the upload is applied
+export type UploadCard = InsertCard & { lesson?: string };
 export type CardFile = z.infer<typeof cardFileSchema>;
+export type CardArchiveCard = z.infer<typeof cardArchiveCardSchema>;
+export type CardArchiveManifest = z.infer<typeof cardArchiveManifestSchema>;
+export type ExportFormat = typeof exportFormats[number];
+export type CardSortField = typeof cardSortFields[number];
+export type MergeStrategy = typeof mergeStrategies[number];
+export type SpreadsheetColumnMapping = z.infer<typeof spreadsheetColumnMappingSchema>;
+export type SpreadsheetImportOptions = z.infer<typeof spreadsheetImportOptionsSchema>;
+export type AnkiFieldMapping = z.infer<typeof ankiFieldMappingSchema>;
+export type AnkiImportRequest = z.infer<typeof ankiImportRequestSchema>;
+export type ReviewState = typeof reviewStates.$inferSelect;
+export type InsertReviewState = typeof reviewStates.$inferInsert;
+export type ReviewGrade = typeof reviewGrades[number];
+export type Progress = typeof progress.$inferSelect;
+export type UpdateProgress = z.infer<typeof updateProgressSchema>;
+export type CardImageTemplate = typeof cardImageTemplates[number];
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = Pick<typeof jobs.$inferInsert, "type" | "created_by" | "template">;
+export type JobItem = typeof jobItems.$inferSelect;
+export type JobStatus = typeof jobStatuses[number];
+export type JobItemStatus = typeof jobItemStatuses[number];
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportBatch = Omit<typeof importBatches.$inferInsert, "id" | "created_at">;
+export type ImportSource = typeof importSources[number];
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type InsertMediaAsset = Omit<typeof mediaAssets.$inferInsert, "id" | "created_at">;
+export type MediaKind = typeof mediaKinds[number];
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// One page of GET /api/cards?limit=; pass nextCursor back as ?cursor= for the following page
+export interface CardPage<T = Card> {
+  items: T[];
+  total: number; // Cards matching the filter across all pages
+  nextCursor: string | null;
+}
+
+export interface LevelProgress {
+  level: number;
+  completed: number;
+  total: number;
+}
+
+export interface ProgressSummary {
+  levels: LevelProgress[];
+  completedCardIds: number[];
+}
+
+export interface JobItemCounts {
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface JobDetails extends Job {
+  total: number;
+  counts: JobItemCounts;
+  items: JobItem[];
+}
+
+// A note type found in an uploaded .apkg, shown in the field-mapping step
+export interface AnkiModelSummary {
+  id: string;
+  name: string;
+  fields: string[];
+  noteCount: number;
+  samples: string[][];
+}
+
+export interface SpreadsheetRowError {
+  row: number; // 1-based, as shown in the spreadsheet
+  messages: string[];
+}
+
+// Returned by POST /api/cards/upload/preview; validation is only present once a mapping is sent
+export interface SpreadsheetPreview {
+  columns: string[];
+  rows: string[][];
+  totalRows: number;
+  validation?: {
+    validCount: number;
+    errors: SpreadsheetRowError[];
+  };
+}
+
+export interface UploadMatch {
+  incoming: UploadCard;
+  existing: Card;
+}
+
+export interface UploadChange extends UploadMatch {
+  fields: string[]; // card fields that differ; "lesson" when the card moves to another lesson
+}
+
+// Returned by POST /api/cards/upload?dryRun=true
+export interface UploadDiff {
+  new: UploadCard[];
+  duplicates: UploadMatch[];
+  changed: UploadChange[];
+}
+
+export interface MediaUsage {
+  files: number;
+  bytes: number;
+}
+
+// Returned by GET /api/admin/media; "other" covers files no card or asset record accounts for
+export interface MediaStorageReport extends MediaUsage {
+  kinds: (MediaUsage & { kind: MediaKind | "other" })[];
+  orphaned: MediaUsage; // Files no card references
+  untracked: number; // Files in the media store without a media_assets row
+  missing: number; // media_assets rows whose file is gone
+}
+
+// Returned by POST /api/admin/media/gc; with dryRun nothing is deleted or recorded
+export interface MediaGcResult {
+  dryRun: boolean;
+  deleted: string[]; // Stored paths of removed files
+  freedBytes: number;
+  registered: number; // Referenced files added to media_assets
+  forgotten: number; // media_assets rows removed because their file was gone
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+const currentDir = process.cwd();
+
+// Server tests only; the client has no test setup
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(currentDir, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+  },
+});